@@ -0,0 +1,54 @@
+// src/app/api/local-index/route.ts
+import { NextResponse } from "next/server";
+import {
+  buildLocalIndex,
+  getLocalIndexConfig,
+  loadLocalIndex,
+  saveLocalIndex,
+  type Bm25Index,
+} from "@/lib/research/local";
+
+export const runtime = "nodejs";
+
+function stats(index: Bm25Index, indexPath: string) {
+  return {
+    indexPath,
+    builtAt: index.builtAt,
+    documents: new Set(index.chunks.map((c) => c.path)).size,
+    chunks: index.chunks.length,
+    terms: Object.keys(index.postings).length,
+  };
+}
+
+export async function GET() {
+  const config = getLocalIndexConfig();
+  if (!config) {
+    return NextResponse.json({ error: "Local search is not configured (LOCAL_CORPUS_DIR / LOCAL_INDEX_PATH)" }, { status: 404 });
+  }
+
+  try {
+    const index = await loadLocalIndex(config.indexPath);
+    return NextResponse.json(stats(index, config.indexPath), { status: 200 });
+  } catch {
+    return NextResponse.json({ error: "Local index has not been built yet", indexPath: config.indexPath }, { status: 404 });
+  }
+}
+
+/**
+ * Rebuilds the index from LOCAL_CORPUS_DIR and writes it to disk.
+ */
+export async function POST() {
+  const config = getLocalIndexConfig();
+  if (!config?.corpusDir) {
+    return NextResponse.json({ error: "Missing LOCAL_CORPUS_DIR; cannot build the local index" }, { status: 400 });
+  }
+
+  try {
+    const index = await buildLocalIndex(config.corpusDir);
+    await saveLocalIndex(index, config.indexPath);
+    return NextResponse.json(stats(index, config.indexPath), { status: 200 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
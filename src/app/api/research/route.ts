@@ -1,179 +1,182 @@
 // src/app/api/research/route.ts
+import path from "node:path";
 import { NextResponse } from "next/server";
-import { z } from "zod";
-import { runResearchPipeline } from "@/lib/research/pipeline";
-import { tavilySearch } from "@/config/tavily";
-import { openai } from "@/config/openai";
+import { runResearchPipeline, type PipelineEventListener } from "@/lib/research/pipeline";
+import type { ZodError } from "zod";
+import type {
+  OutputFormat,
+  OutputLanguage,
+  ResearchConstraints,
+  RiskTolerance,
+  SearchProviderId,
+  TimeHorizon,
+  UsageLimits,
+} from "@/types/research";
+import { ResearchRequestSchema, type ResearchRequestBody } from "@/lib/research/schema";
+import { summarizeRecency, withStaleEvidenceNote } from "@/lib/research/recency";
+import { RESEARCH_CONFIG } from "@/config/research";
+import { createSearchCache, scopeSearchCache } from "@/lib/research/cache";
+import { createContentExtractor, selectPassages } from "@/lib/research/fetchContent";
+import { verifyReportCitations } from "@/lib/research/verifyCitations";
+import { generateWithRepair, type RepairAttempt } from "@/lib/research/repair";
+import { buildDegradedReport } from "@/lib/research/degradedReport";
+import type { CorroborationTable } from "@/lib/research/corroboration";
+import { unresolvedConflicts, withConflictNotes, type Conflict } from "@/lib/research/contradictions";
+import { NO_SIGNIFICANT_UNCERTAINTIES, ReportContentSchema, type Report } from "@/lib/research/report.Schema";
+import { nullsToUndefined, strictTextFormat } from "@/lib/research/jsonSchema";
+import { getDecisionFromOpenAI, type OpenAIDecision } from "@/lib/research/openaiDecision";
+import { buildEvidenceSummary, reconcileDecision } from "@/lib/research/decisionStage";
+import { createLlmGapPlanner } from "@/lib/research/gapPlanner";
+import {
+  domainPolicyFromConfig,
+  withDomainOverrides,
+  type DomainPolicyOverrides,
+} from "@/lib/research/domainPolicy";
+import { newRunId, saveRun, toResearchResponse, type ResearchRun } from "@/lib/research/history";
+import { composeInputFromRun, composeReport, type ReportFormat } from "@/lib/research/composeReport";
+import {
+  DEFAULT_SEARCH_PROVIDERS,
+  createFanOutSearcher,
+  isSearchProviderId,
+  resolveSearchProviders,
+} from "@/lib/research/providers/registry";
+import { getLlmClient, type LlmClient } from "@/lib/research/llm";
+import {
+  createUsageMeter,
+  meterLlmClient,
+  meterSearchProvider,
+  withUsageLimitNote,
+} from "@/lib/research/usage";
+import { createResilientSearcher } from "@/lib/research/resilientSearch";
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  messages,
+  RESEARCH_LANGUAGE,
+  translateToResearchLanguage,
+} from "@/lib/research/i18n";
 
 export const runtime = "nodejs";
 
-type OutputLanguage = "nl" | "en";
-
-function pickLang(body: any): OutputLanguage {
-  return body.outputLanguage === "en" ? "en" : "nl";
-}
-
-function looksDutch(text: string): boolean {
-  const t = (text || "").toLowerCase();
-  const hits = [
-    " het ",
-    " de ",
-    " een ",
-    " en ",
-    " voor ",
-    " met ",
-    " omdat ",
-    " zodat ",
-    " ik ",
-    " mijn ",
-    " jullie ",
-    " onderzoek",
-    " beslissing",
-    " strategie",
-    " zichtbaarheid",
-  ].filter((w) => t.includes(w)).length;
-
-  return hits >= 3;
-}
-
-async function translateNlToEnIfNeeded(text: string): Promise<{ textEn: string; translated: boolean }> {
-  const t = String(text ?? "").trim();
-  if (!t) return { textEn: "", translated: false };
-  if (!looksDutch(t)) return { textEn: t, translated: false };
-
-  const resp = await openai.responses.create({
-    model: "gpt-4.1-mini",
-    input: `Translate the following Dutch text to English. Output ONLY the English translation.\n\nDutch:\n${t}\n\nEnglish:`,
-  });
-
-  const out = resp.output_text?.trim() ?? "";
-  if (!out) return { textEn: t, translated: false };
-  return { textEn: out, translated: true };
+// Module-level so the in-memory layer survives across requests in the same server process.
+const searchCache =
+  process.env.RESEARCH_CACHE === "0"
+    ? undefined
+    : createSearchCache({
+        ttlMs: RESEARCH_CONFIG.cache.ttlMs,
+        maxEntries: RESEARCH_CONFIG.cache.maxEntries,
+        dir: RESEARCH_CONFIG.cache.disk
+          ? process.env.RESEARCH_CACHE_DIR || path.join(process.cwd(), ".research", "cache")
+          : undefined,
+      });
+
+// Derived once; the zod schema stays the validator for rules JSON schema cannot express (word limit, lengths).
+const REPORT_FORMAT = strictTextFormat("research_report", ReportContentSchema);
+
+type GeneratedReport = {
+  report: Report;
+  // ok = first try, repaired = valid after feedback, degraded = pipeline-only fallback
+  status: "ok" | "repaired" | "degraded";
+  attempts: RepairAttempt[];
+  error?: string;
+};
+
+// How the report should frame the evidence for the caller's situation.
+type ReportFraming = { outputPurpose?: string; timeHorizon?: TimeHorizon; riskTolerance?: RiskTolerance };
+
+const HORIZON_GUIDANCE: Record<TimeHorizon, string> = {
+  now: "The decision is taken now: weigh current evidence most and flag anything that may be outdated.",
+  quarter: "The decision plays out over the next quarter: focus on what holds in the coming months.",
+  year: "The decision plays out over a year: include trends and longer-term risks.",
+};
+
+const RISK_GUIDANCE: Record<RiskTolerance, string> = {
+  low: "Risk tolerance is low: prefer the conservative option and make every condition and risk explicit.",
+  medium: "Risk tolerance is medium: balance upside against the main risks.",
+  high: "Risk tolerance is high: an option with more upside is acceptable if its risks are named.",
+};
+
+function buildFramingLines(framing: ReportFraming): string {
+  return [
+    framing.outputPurpose ? `- Output purpose: ${framing.outputPurpose} (write for this use)` : "",
+    framing.timeHorizon ? `- ${HORIZON_GUIDANCE[framing.timeHorizon]}` : "",
+    framing.riskTolerance ? `- ${RISK_GUIDANCE[framing.riskTolerance]}` : "",
+  ]
+    .filter(Boolean)
+    .map((line) => `\n${line}`)
+    .join("");
 }
 
-function countWords(s: string): number {
-  return (s || "")
-    .trim()
-    .split(/\s+/g)
-    .filter(Boolean).length;
+// Claims with their source numbers; which ones only one organisation makes.
+function buildCorroborationBlock(
+  table: CorroborationTable | undefined,
+  sources: Array<{ sourceNumber: number; url: string }>
+): string {
+  if (!table?.claims.length) return "";
+  const numberOf = new Map(sources.map((s) => [s.url, s.sourceNumber]));
+  const lines = table.claims
+    .slice(0, 15)
+    .map((c) => {
+      const refs = [...new Set(c.support.map((x) => numberOf.get(x.url)).filter((n) => n !== undefined))];
+      if (!refs.length) return "";
+      const status = c.corroborated
+        ? `confirmed by ${c.independentSources} independent organisations`
+        : "UNCONFIRMED (single organisation)";
+      return `- ${c.claim} ${refs.map((n) => `[${n}]`).join("")} — ${status}`;
+    })
+    .filter(Boolean);
+  if (!lines.length) return "";
+  const head = "Corroboration (claims found in the sources; related sites of one organisation count once):";
+  return `\n\n${head}\n${lines.join("\n")}`;
 }
 
-function extractJson(text: string): unknown {
-  const t = (text ?? "").trim();
-  if (!t) throw new Error("LLM returned empty output");
-
-  try {
-    return JSON.parse(t);
-  } catch {
-    const start = t.indexOf("{");
-    const end = t.lastIndexOf("}");
-    if (start >= 0 && end > start) {
-      return JSON.parse(t.slice(start, end + 1));
-    }
-    throw new Error("LLM returned non-JSON output");
-  }
+// Unresolved conflicts with the source numbers on each side; the model must not pick a side silently.
+function buildConflictsBlock(conflicts: Conflict[] | undefined): string {
+  const open = unresolvedConflicts(conflicts ?? []);
+  if (!open.length) return "";
+  const lines = open.map(
+    (c) => `- ${c.sides.map((s) => `"${s.claim}" ${s.sourceNumbers.map((n) => `[${n}]`).join("")}`).join("  VERSUS  ")}`
+  );
+  return `\n\nConflicts between sources (unresolved):\n${lines.join("\n")}`;
 }
 
-/**
- * Report contract (hard) conform jouw specs:
- * - summaryBullets: 5–10 bullets
- * - summaryText: max 250 woorden (we checken dit extra)
- * - recommendation.uncertainties: altijd tonen; als geen onzekerheden dan expliciete zin
- * - research secties: intro + content (met [n]) + conclusion
- * - sources: alleen lijst met sourceNumber + title + url (+ optioneel meta)
- */
-const ReportSchema = z.object({
-  summaryBullets: z.array(z.string()).min(5).max(10),
-  summaryText: z.string(),
-  recommendation: z.object({
-    choice: z.string().min(5),
-    why: z.array(z.string()).min(1).max(12),
-    conditions: z.array(z.string()).max(12),
-    uncertainties: z.array(z.string()).min(1).max(12),
-  }),
-  research: z
-    .array(
-      z.object({
-        title: z.string().min(3),
-        intro: z.string().min(10),
-        content: z.string().min(50),
-        conclusion: z.string().min(10),
-      })
-    )
-    .min(1),
-  sources: z
-    .array(
-      z.object({
-        sourceNumber: z.number().int().positive(),
-        title: z.string().min(1),
-        url: z.string().url(),
-        publishedDate: z.string().optional(),
-        provider: z.string().optional(),
-        score: z.number().optional(),
-      })
-    )
-    .min(1),
-});
-
-type Report = z.infer<typeof ReportSchema>;
-
 function buildReportPrompt(args: {
   outputLang: OutputLanguage;
   decisionStatus: "EVIDENCE_SUFFICIENT" | "INSUFFICIENT_EVIDENCE";
   goalEn: string;
   decisionEn: string;
-  sources: Array<{ sourceNumber: number; title: string; url: string; snippet: string }>;
+  framing: ReportFraming;
+  sources: Array<{
+    sourceNumber: number;
+    title: string;
+    url: string;
+    snippet: string;
+    passages?: string[];
+    publishedDate?: string;
+  }>;
+  corroboration?: CorroborationTable;
+  conflicts?: Conflict[];
 }) {
-  const { outputLang, decisionStatus, goalEn, decisionEn, sources } = args;
-
-  const langLine = outputLang === "en" ? "Write in English." : "Schrijf in het Nederlands.";
-  const evidenceLine =
-    decisionStatus === "EVIDENCE_SUFFICIENT"
-      ? outputLang === "en"
-        ? "Evidence is sufficient. Make a clear recommendation."
-        : "Er is voldoende bewijs. Maak een heldere aanbeveling."
-      : outputLang === "en"
-        ? "Evidence is insufficient. Recommendation must reflect this (delay/collect more evidence)."
-        : "Er is onvoldoende bewijs. Aanbeveling moet dit weerspiegelen (uitstellen/meer bewijs).";
+  const { outputLang, decisionStatus, goalEn, decisionEn, framing, sources } = args;
+
+  const t = messages(outputLang).prompt;
+  const langLine = t.writeIn;
+  const evidenceLine = decisionStatus === "EVIDENCE_SUFFICIENT" ? t.evidenceSufficient : t.evidenceInsufficient;
 
   const sourcesBlock = sources
     .slice(0, 30)
-    .map(
-      (s) =>
-        `${s.sourceNumber}. ${s.title}\n   ${s.url}\n   Snippet: ${s.snippet}`
-    )
+    .map((s) => {
+      const date = s.publishedDate ? `\n   Published: ${s.publishedDate}` : "";
+      const head = `${s.sourceNumber}. ${s.title}\n   ${s.url}${date}\n   Snippet: ${s.snippet}`;
+      if (!s.passages?.length) return head;
+      const passages = s.passages.map((p) => `   > ${p}`).join("\n");
+      return `${head}\n   Passages (verbatim from the full page):\n${passages}`;
+    })
     .join("\n\n");
 
-  const uncertaintiesNoSig =
-    outputLang === "en"
-      ? "No significant uncertainties identified."
-      : "Geen significante onzekerheden geïdentificeerd.";
-
-  // Strict JSON schema description (no markdown)
-  const schema = `{
-  "summaryBullets": string[] (5-10 items),
-  "summaryText": string (max 250 words),
-  "recommendation": {
-    "choice": string,
-    "why": string[] (bullets; may include [n] citations),
-    "conditions": string[] (bullets),
-    "uncertainties": string[] (ALWAYS present; if none, include exactly: "${uncertaintiesNoSig}")
-  },
-  "research": [
-    {
-      "title": string,
-      "intro": string (2-3 sentences),
-      "content": string (full content; include citations like [1], [2] throughout),
-      "conclusion": string (2-5 sentences; answer the research question for this section)
-    }
-  ],
-  "sources": [
-    { "sourceNumber": number, "title": string, "url": string, "publishedDate"?: string, "provider"?: string, "score"?: number }
-  ]
-}`;
+  const uncertaintiesNoSig = NO_SIGNIFICANT_UNCERTAINTIES[outputLang];
 
   return `You are a senior research analyst.
-You must produce a single JSON object that matches the exact schema below.
+Fill in the report structure you are given.
 ${langLine}
 Research language context is English; output language must be the selected language.
 
@@ -181,62 +184,78 @@ Context:
 - Goal (EN): ${goalEn}
 - Decision (EN): ${decisionEn}
 - DecisionStatus: ${decisionStatus}
-- Citation style: use [n] where n matches sources.sourceNumber.
+- Citation style: use [n] where n matches sources.sourceNumber.${buildFramingLines(framing)}
 
 Hard requirements:
-- Output MUST be valid JSON and match schema exactly.
 - summaryBullets: 5-10 short bullets.
 - summaryText: MAX 250 words (hard).
 - recommendation.uncertainties: ALWAYS present; if no uncertainties, include exactly: "${uncertaintiesNoSig}"
 - research: include multiple sections when helpful; each section must have intro, full content with [n] citations, and a conclusion.
-- sources: only the list; no additional text after it.
 - Do not invent sources. Only cite and use the provided sources.
+- When a source has passages, base claims on those passages and quote the key wording verbatim ("...") followed by its [n]; snippets are only search summaries.
+- A claim marked UNCONFIRMED under Corroboration must be presented as reported by that one source, not as established fact.
+- For each conflict under Conflicts, present both sides with their [n] and do not choose one without a stated reason.
 
 Guidance:
-${evidenceLine}
+${evidenceLine}${buildCorroborationBlock(args.corroboration, sources)}${buildConflictsBlock(args.conflicts)}
 
 Provided sources (use these as evidence; cite with [n]):
-${sourcesBlock}
-
-Return ONLY JSON matching this schema:
-${schema}`;
+${sourcesBlock}`;
 }
 
 async function generateReport(params: {
+  llm: LlmClient;
   outputLang: OutputLanguage;
   decisionStatus: "EVIDENCE_SUFFICIENT" | "INSUFFICIENT_EVIDENCE";
   goalEn: string;
   decisionEn: string;
-  sources: Array<{ sourceNumber: number; title: string; url: string; snippet: string; publishedDate?: string; provider?: string; score?: number }>;
-}): Promise<Report> {
+  framing: ReportFraming;
+  sources: Array<{
+    sourceNumber: number;
+    title: string;
+    url: string;
+    snippet: string;
+    passages?: string[];
+    publishedDate?: string;
+    provider?: string;
+    score?: number;
+  }>;
+  corroboration?: CorroborationTable;
+  conflicts?: Conflict[];
+  // used when the model output cannot be repaired into a valid report
+  fallback: () => Report;
+}): Promise<GeneratedReport> {
   const prompt = buildReportPrompt({
     outputLang: params.outputLang,
     decisionStatus: params.decisionStatus,
     goalEn: params.goalEn,
     decisionEn: params.decisionEn,
+    framing: params.framing,
     sources: params.sources.map((s) => ({
       sourceNumber: s.sourceNumber,
       title: s.title,
       url: s.url,
       snippet: s.snippet,
+      passages: s.passages,
+      publishedDate: s.publishedDate,
     })),
+    corroboration: params.corroboration,
+    conflicts: params.conflicts,
   });
 
-  const resp = await openai.responses.create({
-    model: "gpt-4.1-mini",
-    input: prompt,
+  const result = await generateWithRepair({
+    prompt,
+    maxAttempts: RESEARCH_CONFIG.report.maxAttempts,
+    call: (input) => params.llm.complete({ task: "report", input, format: REPORT_FORMAT }),
+    // The model writes everything except `sources`; those are injected below from the pipeline.
+    validate: (rawText) => {
+      if (!rawText) throw new Error("LLM returned empty output");
+      return ReportContentSchema.parse(nullsToUndefined(JSON.parse(rawText)));
+    },
   });
 
-  const rawText = resp.output_text?.trim() ?? "";
-  const json = extractJson(rawText);
-
-  // Inject sources list from pipeline (authoritative), so the model can't drift.
-  // We still let the model structure & write, but we control the sources payload.
-  const parsed = ReportSchema.parse(json);
-
-  // Hard enforce summaryText word limit.
-  if (countWords(parsed.summaryText) > 250) {
-    throw new Error("Report validation failed: summaryText exceeds 250 words");
+  if (!result.ok) {
+    return { report: params.fallback(), status: "degraded", attempts: result.attempts, error: result.error };
   }
 
   // Overwrite sources with canonical numbered list from pipeline
@@ -251,89 +270,338 @@ async function generateReport(params: {
   }));
 
   return {
-    ...parsed,
-    sources: canonicalSources,
+    report: { ...result.value, sources: canonicalSources },
+    status: result.attempts.length > 1 ? "repaired" : "ok",
+    attempts: result.attempts,
   };
 }
 
-export async function POST(req: Request) {
-  try {
-    const body = await req.json();
-    const outputLanguage = pickLang(body);
-
-    const goalRaw = String(body.goal ?? "");
-    const decisionRaw = String(body.decision ?? "");
-
-    if (!goalRaw.trim() || !decisionRaw.trim()) {
-      return NextResponse.json({ error: "Missing required fields: goal, decision" }, { status: 400 });
+type ResearchRequest = {
+  // request schema version the caller used
+  version: ResearchRequestBody["version"];
+  goalRaw: string;
+  decisionRaw: string;
+  outputLanguage: OutputLanguage;
+  outputFormat: OutputFormat;
+  outputPurpose?: string;
+  riskTolerance?: RiskTolerance;
+  timeHorizon?: TimeHorizon;
+  constraints?: ResearchConstraints;
+  providers: SearchProviderId[];
+  domainPolicy?: DomainPolicyOverrides;
+  limits?: UsageLimits;
+  debug: boolean;
+};
+
+async function runResearch(args: ResearchRequest, onEvent?: PipelineEventListener) {
+  const { outputLanguage } = args;
+  const createdAt = new Date();
+  const startedAt = Date.now();
+  // a reached limit skips further paid calls; stages fall back as if the call returned nothing
+  const meter = createUsageMeter(args.limits, { onLimit: (hit) => onEvent?.("usage.limit", { ...hit }) });
+  const llm = meterLlmClient(getLlmClient(), meter);
+
+  // 1) Translate to English if needed (research language)
+  onEvent?.("translate.start", {});
+  const [goalT, decisionT] = await Promise.all([
+    translateToResearchLanguage(llm, args.goalRaw),
+    translateToResearchLanguage(llm, args.decisionRaw),
+  ]);
+  onEvent?.("translate.complete", { goal: goalT.translated, decision: decisionT.translated });
+
+  const goalEn = goalT.textEn;
+  const decisionEn = decisionT.textEn;
+  const translatedAt = Date.now();
+
+  // 2) Run research pipeline in English ALWAYS
+  const research = await runResearchPipeline(
+    {
+      goal: goalEn,
+      decision: decisionEn,
+      outputFormat: args.outputFormat,
+      outputLanguage, // keep user's preference for output language in any pipeline text
+      constraints: args.constraints,
+      timeHorizon: args.timeHorizon,
+      riskTolerance: args.riskTolerance,
+      outputPurpose: args.outputPurpose,
+    },
+    {
+      // the meter sits inside the retries: every attempt is a billed search call
+      searcher: createFanOutSearcher(
+        resolveSearchProviders(args.providers).map((p) => ({
+          ...p,
+          search: createResilientSearcher(meterSearchProvider(p, meter).search),
+        }))
+      ),
+      includeDebug: args.debug,
+      onEvent,
+      extractor: RESEARCH_CONFIG.extraction.enabled ? createContentExtractor(RESEARCH_CONFIG.extraction) : undefined,
+      cache: searchCache ? scopeSearchCache(searchCache, args.providers.join("+")) : undefined,
+      planner: RESEARCH_CONFIG.loop.planner === "llm" ? createLlmGapPlanner(llm) : undefined,
+      policy: withDomainOverrides(domainPolicyFromConfig(), args.domainPolicy),
+      meter,
+      budget: args.limits?.maxQueries
+        ? { maxQueries: Math.min(RESEARCH_CONFIG.loop.maxQueries, args.limits.maxQueries) }
+        : undefined,
     }
+  );
 
-    // 1) Translate to English if needed (research language)
-    const [goalT, decisionT] = await Promise.all([
-      translateNlToEnIfNeeded(goalRaw),
-      translateNlToEnIfNeeded(decisionRaw),
-    ]);
+  const researchedAt = Date.now();
 
-    const goalEn = goalT.textEn;
-    const decisionEn = decisionT.textEn;
+  // 3) Build canonical numbered sources (1..N)
+  const numberedSources = research.sources.map((s, i) => ({
+    sourceNumber: i + 1,
+    title: s.title,
+    url: s.url,
+    snippet: s.snippet,
+    passages: s.rawContent ? selectPassages(s.rawContent, `${goalEn} ${decisionEn}`) : undefined,
+    publishedDate: s.publishedDate,
+    provider: s.provider,
+    score: s.score,
+  }));
 
-    // 2) Run research pipeline in English ALWAYS
-    const research = await runResearchPipeline(
+  // 4) Generate Report (always). It will reflect decisionStatus.
+  //    The structured decision stage runs alongside it on the same evidence.
+  onEvent?.("report.start", { sources: numberedSources.length });
+  onEvent?.("decision.start", {});
+  const [generated, decided] = await Promise.all([
+    generateReport({
+      llm,
+      outputLang: outputLanguage,
+      decisionStatus: research.decisionStatus,
+      goalEn,
+      decisionEn,
+      framing: { outputPurpose: args.outputPurpose, timeHorizon: args.timeHorizon, riskTolerance: args.riskTolerance },
+      sources: numberedSources,
+      corroboration: research.corroboration,
+      conflicts: research.conflicts,
+      fallback: () => buildDegradedReport(research, numberedSources, outputLanguage),
+    }),
+    // best-effort like history: a failed decision stage leaves the report intact
+    getDecisionFromOpenAI(
       {
-        goal: goalEn,
-        decision: decisionEn,
-        outputFormat: String(body.outputFormat ?? "structured"),
-        outputLanguage, // keep user's preference for output language in any pipeline text
-        constraints: body.constraints ? String(body.constraints) : undefined,
+        question: decisionEn,
+        evidenceSummary: buildEvidenceSummary({ goal: goalEn, research, sources: numberedSources }),
+        outputLanguage,
       },
-      {
-        searcher: tavilySearch,
-        includeDebug: Boolean(body.debug ?? false),
-      }
-    );
+      llm
+    ).then(
+      (decision): { decision?: OpenAIDecision; error?: string } => ({ decision }),
+      (err): { decision?: OpenAIDecision; error?: string } => ({
+        error: err instanceof Error ? err.message : String(err),
+      })
+    ),
+  ]);
+  onEvent?.("report.complete", {
+    sections: generated.report.research.length,
+    status: generated.status,
+    attempts: generated.attempts.length,
+  });
 
-    // 3) Build canonical numbered sources (1..N)
-    const numberedSources = research.sources.map((s, i) => ({
+  // 4a) Call out old or undated evidence, conflicting sources and searches the usage limit
+  //     blocked, then make sure report uncertainties and decision unknowns do not contradict each other
+  const recency = summarizeRecency(research.sources, args.timeHorizon);
+  const noted = withConflictNotes(
+    withStaleEvidenceNote(generated.report, recency, outputLanguage),
+    research.conflicts,
+    outputLanguage
+  );
+  const generatedReport = withUsageLimitNote(noted, research.usageLimited?.skippedSearches ?? 0, outputLanguage);
+  const reconciled = decided.decision
+    ? reconcileDecision({
+        decision: decided.decision,
+        report: generatedReport,
+        overallConfidence: research.confidenceOverview.overall,
+        lang: outputLanguage,
+      })
+    : undefined;
+  onEvent?.(
+    "decision.complete",
+    reconciled
+      ? { confidence: reconciled.decision.confidence, issues: reconciled.crossCheck.issues.length }
+      : { error: decided.error }
+  );
+
+  // 4b) Check every [n] against the canonical list and the cited source's text
+  const { report, verification: citations } = verifyReportCitations(
+    reconciled?.report ?? generatedReport,
+    research.sources.map((s, i) => ({
       sourceNumber: i + 1,
-      title: s.title,
-      url: s.url,
       snippet: s.snippet,
-      publishedDate: s.publishedDate,
-      provider: s.provider,
-      score: s.score,
-    }));
-
-    // 4) Generate Report (always). It will reflect decisionStatus.
-    const report = await generateReport({
-      outputLang: outputLanguage,
-      decisionStatus: research.decisionStatus,
+      content: s.content,
+      rawContent: s.rawContent,
+    }))
+  );
+  onEvent?.("verify.complete", { ...citations.counts });
+  const finishedAt = Date.now();
+
+  // 5) Persist the run, then respond from the stored record (same shape as reopened runs)
+  const run: ResearchRun = {
+    id: newRunId(createdAt),
+    createdAt: createdAt.toISOString(),
+    goal: args.goalRaw,
+    decision: args.decisionRaw,
+    inputs: { ...args },
+    output: research,
+    report,
+    citations,
+    decisionStage: reconciled ? { decision: reconciled.decision, crossCheck: reconciled.crossCheck } : undefined,
+    meta: {
+      researchLanguage: RESEARCH_LANGUAGE,
+      // detected language per input field (absent when too short to tell)
+      inputLanguage: { goal: goalT.language, decision: decisionT.language },
+      translated: {
+        goal: goalT.translated,
+        decision: decisionT.translated,
+      },
       goalEn,
       decisionEn,
-      sources: numberedSources,
-    });
-
-    // 5) Return response: report first-class, plus existing research meta
-    return NextResponse.json(
-      {
-        decisionStatus: research.decisionStatus,
-        confidenceOverview: research.confidenceOverview,
-        report,
-        // keep the rest for debugging/traceability and current UI compatibility
-        sources: research.sources,
-        debug: research.debug,
-        meta: {
-          researchLanguage: "en",
-          translated: {
-            goal: goalT.translated,
-            decision: decisionT.translated,
-          },
-          goalEn,
-          decisionEn,
-          outputLanguage,
-        },
+      outputLanguage,
+      reportGeneration: {
+        status: generated.status,
+        attempts: generated.attempts,
+        ...(generated.error ? { error: generated.error } : {}),
       },
-      { status: 200 }
+      ...(decided.error ? { decisionStageError: decided.error } : {}),
+      recency,
+      usage: meter.summary(),
+    },
+    timings: {
+      translateMs: translatedAt - startedAt,
+      pipelineMs: researchedAt - translatedAt,
+      reportMs: finishedAt - researchedAt,
+      totalMs: finishedAt - startedAt,
+    },
+  };
+
+  let saved = true;
+  try {
+    await saveRun(run);
+  } catch (err) {
+    // history is best-effort; never fail a paid-for research run on it
+    saved = false;
+    console.error(JSON.stringify({ event: "history.save.failed", error: err instanceof Error ? err.message : String(err) }));
+  }
+
+  // saved: false tells the client the /api/runs URLs for this run do not exist
+  const response = { ...toResearchResponse(run), saved };
+  if (args.outputFormat === "structured") return response;
+  return { ...response, output: renderOutput(run, args.outputFormat, saved) };
+}
+
+/**
+ * The report rendered in the requested format, inline (binary formats as base64)
+ * plus, when the run was stored, the download URL that re-renders it.
+ */
+function renderOutput(run: ResearchRun, format: ReportFormat, saved: boolean) {
+  const composed = composeReport(composeInputFromRun(run), format);
+  const binary = composed.body instanceof Uint8Array;
+  return {
+    format,
+    contentType: composed.contentType,
+    filename: `report-${run.id}.${composed.extension}`,
+    encoding: binary ? "base64" : "utf8",
+    content: binary ? Buffer.from(composed.body).toString("base64") : composed.body,
+    ...(saved ? { downloadUrl: `/api/runs/${run.id}/report?format=${format}` } : {}),
+  };
+}
+
+/**
+ * Streams progress as NDJSON: one `{ event, ...payload }` object per line,
+ * ending with either `{ event: "result", data }` or `{ event: "error", error }`.
+ * Once the client disconnects the run finishes quietly: nothing more is written.
+ */
+function streamResearch(args: ResearchRequest): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: PipelineEventListener = (event, payload) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify({ event, ...payload })}\n`));
+      };
+
+      try {
+        const data = await runResearch(args, send);
+        send("result", { data });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        send("error", { error: message });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
+
+type FieldIssue = { path: string; message: string };
+
+function invalidRequest(issues: FieldIssue[]) {
+  return NextResponse.json({ error: "Invalid request", issues }, { status: 400 });
+}
+
+function toFieldIssues(error: ZodError): FieldIssue[] {
+  return error.issues.map((i) => ({ path: i.path.length ? i.path.join(".") : "(root)", message: i.message }));
+}
+
+/**
+ * Maps either request version onto the internal request; v2's `context` is the research goal.
+ */
+function toResearchRequest(body: ResearchRequestBody): ResearchRequest {
+  return {
+    version: body.version,
+    goalRaw: body.version === 2 ? body.context : body.goal,
+    decisionRaw: body.decision,
+    outputLanguage: body.outputLanguage ?? DEFAULT_OUTPUT_LANGUAGE,
+    outputFormat: body.outputFormat ?? "structured",
+    outputPurpose: body.outputPurpose,
+    riskTolerance: body.riskTolerance,
+    timeHorizon: body.timeHorizon,
+    constraints: body.constraints,
+    providers: (body.providers ?? DEFAULT_SEARCH_PROVIDERS) as SearchProviderId[],
+    domainPolicy: body.domainPolicy,
+    limits: body.limits,
+    debug: body.debug ?? false,
+  };
+}
+
+export async function POST(req: Request) {
+  try {
+    let raw: unknown;
+    try {
+      raw = await req.json();
+    } catch {
+      return invalidRequest([{ path: "(root)", message: "Body must be valid JSON" }]);
+    }
+
+    const parsed = ResearchRequestSchema.safeParse(raw);
+    if (!parsed.success) return invalidRequest(toFieldIssues(parsed.error));
+
+    const unknownProviders = (parsed.data.providers ?? []).flatMap((p, i) =>
+      isSearchProviderId(p) ? [] : [{ path: `providers.${i}`, message: `Unknown search provider: ${p}` }]
     );
+    if (unknownProviders.length) return invalidRequest(unknownProviders);
+
+    const args = toResearchRequest(parsed.data);
+
+    if (parsed.data.stream === true) {
+      return streamResearch(args);
+    }
+
+    const data = await runResearch(args);
+    return NextResponse.json(data, { status: 200 });
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
     return NextResponse.json({ error: message }, { status: 500 });
@@ -0,0 +1,37 @@
+// src/app/api/runs/[id]/report/route.ts
+import { NextResponse } from "next/server";
+import { getRun } from "@/lib/research/history";
+import { composeInputFromRun, composeReport, isReportFormat, REPORT_FORMATS } from "@/lib/research/composeReport";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * Downloads a stored run's report: `?format=markdown|html|json|docx|brief` (default markdown).
+ */
+export async function GET(req: Request, { params }: Params) {
+  const { id } = await params;
+  const format = new URL(req.url).searchParams.get("format") ?? "markdown";
+  if (!isReportFormat(format)) {
+    return NextResponse.json(
+      { error: `Unknown report format: ${format} (expected one of ${REPORT_FORMATS.join(", ")})` },
+      { status: 400 }
+    );
+  }
+
+  const run = await getRun(id);
+  if (!run) {
+    return NextResponse.json({ error: `Run not found: ${id}` }, { status: 404 });
+  }
+
+  const composed = composeReport(composeInputFromRun(run), format);
+  return new Response(composed.body as BodyInit, {
+    status: 200,
+    headers: {
+      "Content-Type": composed.contentType,
+      "Content-Disposition": `attachment; filename="report-${run.id}.${composed.extension}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,33 @@
+// src/app/api/runs/[id]/route.ts
+import { NextResponse } from "next/server";
+import { deleteRun, getRun, toResearchResponse } from "@/lib/research/history";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const run = await getRun(id);
+  if (!run) {
+    return NextResponse.json({ error: `Run not found: ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(
+    { ...toResearchResponse(run), goal: run.goal, decision: run.decision, inputs: run.inputs },
+    { status: 200 }
+  );
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  try {
+    const deleted = await deleteRun(id);
+    if (!deleted) {
+      return NextResponse.json({ error: `Run not found: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: id }, { status: 200 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+// src/app/api/runs/route.ts
+import { NextResponse } from "next/server";
+import { listRuns } from "@/lib/research/history";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    const runs = await listRuns();
+    return NextResponse.json({ runs }, { status: 200 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,8 +1,20 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 
-type OutputLanguage = "nl" | "en";
+type OutputLanguage = "nl" | "en" | "de" | "fr";
+
+type SearchSource = "web" | "local" | "both";
+
+type RiskTolerance = "low" | "medium" | "high";
+
+type TimeHorizon = "now" | "quarter" | "year";
+
+const SEARCH_PROVIDERS: Record<SearchSource, string[]> = {
+  web: ["tavily"],
+  local: ["local"],
+  both: ["tavily", "local"],
+};
 
 type Report = {
   summaryBullets: string[];
@@ -29,12 +41,123 @@ type Report = {
   }>;
 };
 
+type GateMetrics = {
+  sources: number;
+  uniqueDomains: number;
+  avgScore: number;
+  topSourceScore: number;
+  top3AvgScore: number;
+  lowInfoRatio: number;
+  lowTrustRatio?: number;
+  recentSources?: number;
+};
+
+type RunSummary = {
+  id: string;
+  createdAt: string;
+  goal: string;
+  decision: string;
+  decisionStatus: "EVIDENCE_SUFFICIENT" | "INSUFFICIENT_EVIDENCE";
+  confidence: number;
+};
+
+type ClaimCheck = {
+  location: string;
+  sentence: string;
+  citations: number[];
+  invalidCitations: number[];
+  status: "supported" | "weak" | "unsupported";
+  support: number;
+};
+
+type CitationVerification = {
+  claims: ClaimCheck[];
+  counts: { supported: number; weak: number; unsupported: number; invalidCitations: number };
+};
+
+type DecisionStage = {
+  decision: {
+    recommendation: string;
+    rationale: string;
+    risks: string[];
+    unknowns: string[];
+    confidence: "low" | "medium" | "high";
+  };
+  crossCheck: { modelConfidence: "low" | "medium" | "high"; confidenceCapped: boolean; issues: string[] };
+};
+
 type ApiResponse = {
+  runId?: string;
+  // false when the run could not be stored, so /api/runs has nothing to serve for it
+  saved?: boolean;
+  // the report as markdown, rendered with the response (see outputFormat in submit)
+  output?: { format: string; content: string };
+  meta?: {
+    reportGeneration?: { status: "ok" | "repaired" | "degraded"; error?: string };
+    usage?: { limitHit?: { limit: string; stage: string }; totals: { costUsd: number } };
+  };
+  citations?: CitationVerification;
+  decisionStage?: DecisionStage;
   decisionStatus: "EVIDENCE_SUFFICIENT" | "INSUFFICIENT_EVIDENCE";
-  confidenceOverview?: string;
+  confidenceOverview?: { overall: number; rationale: string };
+  gateMetrics?: GateMetrics;
   report: Report;
 };
 
+type ProgressEvent = { event: string } & Record<string, unknown>;
+
+type PartialSource = { url: string; title: string };
+
+function describeProgress(e: ProgressEvent): string | null {
+  switch (e.event) {
+    case "translate.start":
+      return "Translating input…";
+    case "translate.complete":
+      return "Input ready (research language: English)";
+    case "tavily.pass.complete":
+      return `Pass "${e.pass}" complete: ${e.sources} sources across ${e.uniqueDomains} domains`;
+    case "loop.complete":
+      return `Follow-up searches: ${e.iterations} iteration(s), stopped (${e.stopReason})`;
+    case "gate.evaluated":
+      return `Gate: ${e.decisionStatus} (confidence ${Math.round(Number(e.confidence) * 100)}%)`;
+    case "report.start":
+      return `Writing report from ${e.sources} sources…`;
+    case "report.complete":
+      return "Report ready";
+    case "decision.complete":
+      return e.error ? "Decision check unavailable" : `Decision check: ${e.confidence} confidence`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads an NDJSON response body line by line.
+ */
+async function readNdjson(res: Response, onLine: (e: ProgressEvent) => void) {
+  if (!res.body) throw new Error("Response has no body");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let nl = buffer.indexOf("\n");
+    while (nl >= 0) {
+      const line = buffer.slice(0, nl).trim();
+      buffer = buffer.slice(nl + 1);
+      if (line) onLine(JSON.parse(line) as ProgressEvent);
+      nl = buffer.indexOf("\n");
+    }
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) onLine(JSON.parse(buffer) as ProgressEvent);
+}
+
 function escapeHtml(s: string): string {
   return s
     .replaceAll("&", "&amp;")
@@ -58,102 +181,63 @@ function linkifyCitationsToHtml(text: string): string {
   return withLinks.replace(/\n/g, "<br/>");
 }
 
-function toMarkdown(report: Report, decisionStatus: ApiResponse["decisionStatus"], confidenceOverview?: string) {
-  const lines: string[] = [];
-
-  lines.push(`# Deep Research Report`);
-  lines.push("");
-  lines.push(`**Decision status:** ${decisionStatus}`);
-  if (confidenceOverview) {
-    lines.push("");
-    lines.push(`**Confidence overview:** ${confidenceOverview}`);
-  }
+// formats served by /api/runs/[id]/report
+const DOWNLOAD_FORMATS = [
+  { format: "markdown", label: ".md" },
+  { format: "html", label: ".html" },
+  { format: "docx", label: ".docx" },
+  { format: "brief", label: "Brief" },
+] as const;
 
-  lines.push("");
-  lines.push(`## Summary`);
-  lines.push("");
-  for (const b of report.summaryBullets) lines.push(`- ${b}`);
-
-  lines.push("");
-  lines.push(report.summaryText.trim());
-  lines.push("");
-
-  lines.push(`## Recommendation`);
-  lines.push("");
-  lines.push(`**Choice:** ${report.recommendation.choice}`);
-  lines.push("");
-  lines.push(`**Why:**`);
-  for (const w of report.recommendation.why) lines.push(`- ${w}`);
-  lines.push("");
-  lines.push(`**Conditions:**`);
-  if (report.recommendation.conditions.length === 0) {
-    lines.push(`- —`);
-  } else {
-    for (const c of report.recommendation.conditions) lines.push(`- ${c}`);
-  }
-  lines.push("");
-  lines.push(`**Uncertainties:**`);
-  for (const u of report.recommendation.uncertainties) lines.push(`- ${u}`);
-
-  lines.push("");
-  lines.push(`## Research`);
-  lines.push("");
-  report.research.forEach((sec, idx) => {
-    lines.push(`### ${idx + 1}. ${sec.title}`);
-    lines.push("");
-    lines.push(`_Intro:_ ${sec.intro.trim()}`);
-    lines.push("");
-    lines.push(sec.content.trim());
-    lines.push("");
-    lines.push(`**Conclusion:** ${sec.conclusion.trim()}`);
-    lines.push("");
-  });
-
-  lines.push(`## Sources`);
-  lines.push("");
-  for (const s of report.sources) {
-    lines.push(`${s.sourceNumber}. ${s.title}`);
-    lines.push(`   ${s.url}`);
-  }
-
-  return lines.join("\n");
-}
-
-function downloadTextFile(filename: string, content: string) {
-  const blob = new Blob([content], { type: "text/markdown;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
+function reportUrl(runId: string, format: string) {
+  return `/api/runs/${encodeURIComponent(runId)}/report?format=${format}`;
 }
 
 export default function Page() {
   const [goal, setGoal] = useState("");
   const [decision, setDecision] = useState("");
   const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>("nl");
+  const [searchSource, setSearchSource] = useState<SearchSource>("web");
+  const [riskTolerance, setRiskTolerance] = useState<RiskTolerance>("medium");
+  const [timeHorizon, setTimeHorizon] = useState<TimeHorizon>("quarter");
   const [debug, setDebug] = useState(false);
 
   const [loading, setLoading] = useState(false);
   const [data, setData] = useState<ApiResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Live progress while streaming
+  const [progress, setProgress] = useState<string[]>([]);
+  const [partialSources, setPartialSources] = useState<PartialSource[]>([]);
+
   // Collapsible research: track open indices
   const [openSections, setOpenSections] = useState<Record<number, boolean>>({});
 
-  const md = useMemo(() => {
-    if (!data) return "";
-    return toMarkdown(data.report, data.decisionStatus, data.confidenceOverview);
-  }, [data]);
+  // Run history sidebar
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+
+  const refreshRuns = useCallback(async () => {
+    try {
+      const res = await fetch("/api/runs");
+      if (!res.ok) return;
+      const json = (await res.json()) as { runs: RunSummary[] };
+      setRuns(json.runs);
+    } catch {
+      // history is optional; keep the current list
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshRuns();
+  }, [refreshRuns]);
 
   async function submit() {
     setLoading(true);
     setError(null);
     setData(null);
     setOpenSections({});
+    setProgress([]);
+    setPartialSources([]);
 
     try {
       const res = await fetch("/api/research", {
@@ -163,25 +247,50 @@ export default function Page() {
           goal,
           decision,
           outputLanguage,
+          riskTolerance,
+          timeHorizon,
+          providers: SEARCH_PROVIDERS[searchSource],
           debug,
+          outputFormat: "markdown",
+          stream: true,
         }),
       });
 
       if (!res.ok) {
         const err = await res.json();
-        throw new Error(err?.error ?? "Request failed");
+        const issues = Array.isArray(err?.issues)
+          ? err.issues.map((i: { path: string; message: string }) => `${i.path}: ${i.message}`).join("; ")
+          : "";
+        throw new Error(issues ? `${err.error}: ${issues}` : (err?.error ?? "Request failed"));
       }
 
-      const json = (await res.json()) as ApiResponse;
-
-      // Default open: first 2 sections open
-      const initialOpen: Record<number, boolean> = {};
-      json.report.research.forEach((_s, i) => {
-        initialOpen[i] = i < 2;
+      const streamed: { result?: ApiResponse } = {};
+      await readNdjson(res, (e) => {
+        if (e.event === "result") {
+          streamed.result = e.data as ApiResponse;
+          return;
+        }
+        if (e.event === "error") {
+          throw new Error(String(e.error ?? "Request failed"));
+        }
+
+        if (e.event === "tavily.pass.complete" && Array.isArray(e.sourceList)) {
+          const incoming = e.sourceList as PartialSource[];
+          setPartialSources((prev) => {
+            const seen = new Set(prev.map((s) => s.url));
+            return [...prev, ...incoming.filter((s) => !seen.has(s.url))];
+          });
+        }
+
+        const line = describeProgress(e);
+        if (line) setProgress((prev) => [...prev, line]);
       });
 
-      setData(json);
-      setOpenSections(initialOpen);
+      const json = streamed.result;
+      if (!json) throw new Error("Stream ended without a result");
+
+      showResult(json);
+      refreshRuns();
     } catch (e) {
       setError(e instanceof Error ? e.message : "Unknown error");
     } finally {
@@ -189,7 +298,58 @@ export default function Page() {
     }
   }
 
+  function showResult(json: ApiResponse) {
+    // Default open: first 2 sections open
+    const initialOpen: Record<number, boolean> = {};
+    json.report.research.forEach((_s, i) => {
+      initialOpen[i] = i < 2;
+    });
+
+    setData(json);
+    setOpenSections(initialOpen);
+  }
+
+  async function openRun(id: string) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/runs/${encodeURIComponent(id)}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error ?? "Could not load run");
+
+      setGoal(String(json.goal ?? ""));
+      setDecision(String(json.decision ?? ""));
+      showResult(json as ApiResponse);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+    }
+  }
+
+  async function removeRun(id: string) {
+    try {
+      const res = await fetch(`/api/runs/${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!res.ok) {
+        const json = await res.json();
+        throw new Error(json?.error ?? "Could not delete run");
+      }
+      if (data?.runId === id) setData(null);
+      await refreshRuns();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+    }
+  }
+
   async function copyMarkdown() {
+    if (!data) return;
+    let md = data.output?.format === "markdown" ? data.output.content : undefined;
+    if (md === undefined) {
+      if (!data.runId || data.saved === false) return;
+      const res = await fetch(reportUrl(data.runId, "markdown"));
+      if (!res.ok) {
+        setError("Could not load the report for copying");
+        return;
+      }
+      md = await res.text();
+    }
     try {
       await navigator.clipboard.writeText(md);
     } catch {
@@ -222,232 +382,397 @@ export default function Page() {
   }
 
   return (
-    <main className="mx-auto max-w-4xl px-4 py-10 space-y-10">
-      {/* INPUT */}
-      <section className="space-y-4">
-        <h1 className="text-2xl font-semibold">Deep Research Agent</h1>
-
-        <textarea
-          className="w-full border rounded p-3"
-          rows={3}
-          placeholder="Goal"
-          value={goal}
-          onChange={(e) => setGoal(e.target.value)}
-        />
-
-        <textarea
-          className="w-full border rounded p-3"
-          rows={3}
-          placeholder="Decision"
-          value={decision}
-          onChange={(e) => setDecision(e.target.value)}
-        />
-
-        <div className="flex flex-wrap items-center gap-4">
-          <select
-            className="border rounded p-2"
-            value={outputLanguage}
-            onChange={(e) => setOutputLanguage(e.target.value as OutputLanguage)}
-          >
-            <option value="nl">Nederlands</option>
-            <option value="en">English</option>
-          </select>
-
-          <label className="flex items-center gap-2 text-sm">
-            <input
-              type="checkbox"
-              checked={debug}
-              onChange={(e) => setDebug(e.target.checked)}
-            />
-            Debug
-          </label>
-
-          <button
-            onClick={submit}
-            disabled={loading}
-            className="ml-auto rounded bg-black px-4 py-2 text-white disabled:opacity-50"
-          >
-            {loading ? "Running…" : "Run research"}
-          </button>
-        </div>
-
-        {error && <p className="text-red-600">{error}</p>}
-      </section>
-
-      {/* OUTPUT */}
-      {data && (
-        <section className="space-y-10">
-          {/* HEADER / ACTIONS */}
-          <section className="space-y-3 border rounded p-4">
-            <div className="flex flex-wrap items-center gap-3">
-              <div className="text-sm text-gray-700">
-                Decision status: <strong>{data.decisionStatus}</strong>
-              </div>
-              <div className="ml-auto flex flex-wrap gap-2">
-                <button
-                  onClick={copyMarkdown}
-                  className="rounded border px-3 py-1 text-sm"
-                >
-                  Copy report
+    <div className="mx-auto max-w-6xl px-4 py-10 flex gap-8">
+      {/* HISTORY */}
+      <aside className="w-64 shrink-0 space-y-3">
+        <h2 className="text-sm font-semibold text-gray-700">History</h2>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved runs yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {runs.map((r) => (
+              <li
+                key={r.id}
+                className={`border rounded p-2 text-sm ${data?.runId === r.id ? "border-black" : ""}`}
+              >
+                <button onClick={() => openRun(r.id)} className="w-full text-left space-y-1">
+                  <div className="font-medium line-clamp-2">{r.decision}</div>
+                  <div className="text-xs text-gray-600">
+                    {new Date(r.createdAt).toLocaleString()} · {r.decisionStatus === "EVIDENCE_SUFFICIENT" ? "sufficient" : "insufficient"} · {Math.round(r.confidence * 100)}%
+                  </div>
                 </button>
-                <button
-                  onClick={() => downloadTextFile("report.md", md)}
-                  className="rounded border px-3 py-1 text-sm"
-                >
-                  Download .md
+                <button onClick={() => removeRun(r.id)} className="mt-1 text-xs text-red-600 underline">
+                  Delete
                 </button>
-              </div>
-            </div>
-            {data.confidenceOverview && (
-              <p className="text-sm text-gray-600">{data.confidenceOverview}</p>
-            )}
-          </section>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+
+      <main className="flex-1 min-w-0 space-y-10">
+        {/* INPUT */}
+        <section className="space-y-4">
+          <h1 className="text-2xl font-semibold">Deep Research Agent</h1>
+
+          <textarea
+            className="w-full border rounded p-3"
+            rows={3}
+            placeholder="Goal"
+            value={goal}
+            onChange={(e) => setGoal(e.target.value)}
+          />
+
+          <textarea
+            className="w-full border rounded p-3"
+            rows={3}
+            placeholder="Decision"
+            value={decision}
+            onChange={(e) => setDecision(e.target.value)}
+          />
+
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              className="border rounded p-2"
+              value={outputLanguage}
+              onChange={(e) => setOutputLanguage(e.target.value as OutputLanguage)}
+            >
+              <option value="nl">Nederlands</option>
+              <option value="en">English</option>
+              <option value="de">Deutsch</option>
+              <option value="fr">Français</option>
+            </select>
+
+            <select
+              className="border rounded p-2"
+              value={searchSource}
+              onChange={(e) => setSearchSource(e.target.value as SearchSource)}
+            >
+              <option value="web">Web</option>
+              <option value="local">Local documents</option>
+              <option value="both">Web + local</option>
+            </select>
+
+            <select
+              className="border rounded p-2"
+              value={riskTolerance}
+              onChange={(e) => setRiskTolerance(e.target.value as RiskTolerance)}
+            >
+              <option value="low">Low risk tolerance</option>
+              <option value="medium">Medium risk tolerance</option>
+              <option value="high">High risk tolerance</option>
+            </select>
+
+            <select
+              className="border rounded p-2"
+              value={timeHorizon}
+              onChange={(e) => setTimeHorizon(e.target.value as TimeHorizon)}
+            >
+              <option value="now">Decide now</option>
+              <option value="quarter">This quarter</option>
+              <option value="year">This year</option>
+            </select>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={debug}
+                onChange={(e) => setDebug(e.target.checked)}
+              />
+              Debug
+            </label>
+
+            <button
+              onClick={submit}
+              disabled={loading}
+              className="ml-auto rounded bg-black px-4 py-2 text-white disabled:opacity-50"
+            >
+              {loading ? "Running…" : "Run research"}
+            </button>
+          </div>
+
+          {error && <p className="text-red-600">{error}</p>}
+        </section>
 
-          {/* 1. SUMMARY BULLETS */}
-          <section className="space-y-3">
-            <h2 className="text-xl font-semibold">Summary</h2>
-            <ul className="list-disc pl-5 space-y-1">
-              {data.report.summaryBullets.map((b, i) => (
-                <li key={i}>{b}</li>
+        {/* PROGRESS */}
+        {loading && (progress.length > 0 || partialSources.length > 0) && (
+          <section className="space-y-3 border rounded p-4">
+            <ul className="text-sm text-gray-700 space-y-1">
+              {progress.map((p, i) => (
+                <li key={i}>{p}</li>
               ))}
             </ul>
+            {partialSources.length > 0 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-gray-600">
+                  {partialSources.length} sources found so far
+                </summary>
+                <ul className="list-disc pl-5 mt-2 space-y-1">
+                  {partialSources.map((s) => (
+                    <li key={s.url}>
+                      <a href={s.url} target="_blank" rel="noreferrer" className="text-blue-600 underline">
+                        {s.title || s.url}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
           </section>
+        )}
+
+        {/* OUTPUT */}
+        {data && (
+          <section className="space-y-10">
+            {/* HEADER / ACTIONS */}
+            <section className="space-y-3 border rounded p-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="text-sm text-gray-700">
+                  Decision status: <strong>{data.decisionStatus}</strong>
+                </div>
+                <div className="ml-auto flex flex-wrap gap-2">
+                  <button
+                    onClick={copyMarkdown}
+                    disabled={data.output?.format !== "markdown" && (!data.runId || data.saved === false)}
+                    className="rounded border px-3 py-1 text-sm disabled:opacity-50"
+                  >
+                    Copy report
+                  </button>
+                  {data.runId &&
+                    data.saved !== false &&
+                    DOWNLOAD_FORMATS.map((d) => (
+                      <a
+                        key={d.format}
+                        href={reportUrl(data.runId!, d.format)}
+                        download
+                        className="rounded border px-3 py-1 text-sm"
+                      >
+                        Download {d.label}
+                      </a>
+                    ))}
+                </div>
+              </div>
+              {data.saved === false && (
+                <p className="text-sm text-amber-700">
+                  This run could not be saved to the history, so it cannot be downloaded or reopened later.
+                </p>
+              )}
+              {data.meta?.reportGeneration?.status === "degraded" && (
+                <p className="text-sm text-amber-700">
+                  The written report could not be generated; showing the research results without a narrative.
+                </p>
+              )}
+              {data.meta?.usage?.limitHit && (
+                <p className="text-sm text-amber-700">
+                  Usage limit {data.meta.usage.limitHit.limit} reached during {data.meta.usage.limitHit.stage}; later
+                  searches and model calls were skipped.
+                </p>
+              )}
+              {data.citations && (
+                <details className="text-sm text-gray-600">
+                  <summary className="cursor-pointer">
+                    Citations: {data.citations.counts.supported} supported · {data.citations.counts.weak} weak ·{" "}
+                    {data.citations.counts.unsupported} unsupported
+                    {data.citations.counts.invalidCitations > 0
+                      ? ` · ${data.citations.counts.invalidCitations} invalid removed`
+                      : ""}
+                  </summary>
+                  <ul className="list-disc pl-5 mt-2 space-y-1">
+                    {data.citations.claims
+                      .filter((c) => c.status !== "supported")
+                      .map((c, i) => (
+                        <li key={i}>
+                          <span className={c.status === "unsupported" ? "text-red-600" : "text-amber-600"}>
+                            {c.status}
+                          </span>{" "}
+                          ({c.location}): {c.sentence}
+                        </li>
+                      ))}
+                  </ul>
+                </details>
+              )}
+              {data.confidenceOverview && (
+                <p className="text-sm text-gray-600">
+                  Confidence: {Math.round(data.confidenceOverview.overall * 100)}% — {data.confidenceOverview.rationale}
+                </p>
+              )}
+            </section>
 
-          {/* 2. SUMMARY TEXT */}
-          <section className="space-y-3">
-            <p className="whitespace-pre-line">{data.report.summaryText}</p>
-          </section>
-
-          {/* 3. RECOMMENDATION */}
-          <section className="space-y-6">
-            <h2 className="text-xl font-semibold">Recommendation</h2>
-
-            <div>
-              <h3 className="font-medium">Choice</h3>
-              <p>{data.report.recommendation.choice}</p>
-            </div>
-
-            <div>
-              <h3 className="font-medium">Why</h3>
+            {/* 1. SUMMARY BULLETS */}
+            <section className="space-y-3">
+              <h2 className="text-xl font-semibold">Summary</h2>
               <ul className="list-disc pl-5 space-y-1">
-                {data.report.recommendation.why.map((w, i) => (
-                  <li
-                    key={i}
-                    dangerouslySetInnerHTML={{ __html: linkifyCitationsToHtml(w) }}
-                  />
+                {data.report.summaryBullets.map((b, i) => (
+                  <li key={i}>{b}</li>
                 ))}
               </ul>
-            </div>
+            </section>
+
+            {/* 2. SUMMARY TEXT */}
+            <section className="space-y-3">
+              <p className="whitespace-pre-line">{data.report.summaryText}</p>
+            </section>
+
+            {/* 3. RECOMMENDATION */}
+            <section className="space-y-6">
+              <h2 className="text-xl font-semibold">Recommendation</h2>
+
+              <div>
+                <h3 className="font-medium">Choice</h3>
+                <p>{data.report.recommendation.choice}</p>
+              </div>
 
-            <div>
-              <h3 className="font-medium">Conditions</h3>
-              {data.report.recommendation.conditions.length === 0 ? (
-                <p className="text-sm text-gray-600">—</p>
-              ) : (
+              <div>
+                <h3 className="font-medium">Why</h3>
                 <ul className="list-disc pl-5 space-y-1">
-                  {data.report.recommendation.conditions.map((c, i) => (
-                    <li key={i}>{c}</li>
+                  {data.report.recommendation.why.map((w, i) => (
+                    <li
+                      key={i}
+                      dangerouslySetInnerHTML={{ __html: linkifyCitationsToHtml(w) }}
+                    />
                   ))}
                 </ul>
-              )}
-            </div>
+              </div>
 
-            <div>
-              <h3 className="font-medium">Uncertainties</h3>
-              <ul className="list-disc pl-5 space-y-1">
-                {data.report.recommendation.uncertainties.map((u, i) => (
-                  <li key={i}>{u}</li>
-                ))}
-              </ul>
-            </div>
-          </section>
+              <div>
+                <h3 className="font-medium">Conditions</h3>
+                {data.report.recommendation.conditions.length === 0 ? (
+                  <p className="text-sm text-gray-600">—</p>
+                ) : (
+                  <ul className="list-disc pl-5 space-y-1">
+                    {data.report.recommendation.conditions.map((c, i) => (
+                      <li key={i}>{c}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
 
-          {/* 4. RESEARCH */}
-          <section className="space-y-4">
-            <div className="flex flex-wrap items-center gap-3">
-              <h2 className="text-xl font-semibold">Research</h2>
-              <div className="ml-auto flex gap-2">
-                <button onClick={openAll} className="rounded border px-3 py-1 text-sm">
-                  Open all
-                </button>
-                <button onClick={closeAll} className="rounded border px-3 py-1 text-sm">
-                  Close all
-                </button>
+              <div>
+                <h3 className="font-medium">Uncertainties</h3>
+                <ul className="list-disc pl-5 space-y-1">
+                  {data.report.recommendation.uncertainties.map((u, i) => (
+                    <li key={i}>{u}</li>
+                  ))}
+                </ul>
               </div>
-            </div>
-
-            <div className="space-y-3">
-              {data.report.research.map((sec, i) => {
-                const isOpen = Boolean(openSections[i]);
-                return (
-                  <article key={i} className="border rounded">
-                    <button
-                      onClick={() => toggleSection(i)}
-                      className="w-full text-left px-4 py-3 flex items-center gap-3"
-                    >
-                      <span className="text-sm text-gray-600">
-                        {i + 1}
-                      </span>
-                      <span className="font-medium">{sec.title}</span>
-                      <span className="ml-auto text-sm text-gray-600">
-                        {isOpen ? "Hide" : "Show"}
-                      </span>
-                    </button>
-
-                    {isOpen && (
-                      <div className="px-4 pb-4 space-y-3">
-                        <p className="italic text-gray-700">{sec.intro}</p>
-
-                        <p
-                          className="whitespace-pre-line"
-                          dangerouslySetInnerHTML={{
-                            __html: linkifyCitationsToHtml(sec.content),
-                          }}
-                        />
-
-                        <p className="font-medium">{sec.conclusion}</p>
-                      </div>
-                    )}
-                  </article>
-                );
-              })}
-            </div>
-          </section>
 
-          {/* 5. SOURCES */}
-          <section className="space-y-4">
-            <h2 className="text-xl font-semibold">Sources</h2>
-            <ol className="list-decimal pl-5 space-y-3">
-              {data.report.sources.map((s) => (
-                <li key={s.sourceNumber} id={`source-${s.sourceNumber}`}>
-                  <div className="text-sm">
-                    <strong>
-                      [{s.sourceNumber}] {s.title}
-                    </strong>
-                  </div>
-                  <a
-                    href={s.url}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="text-sm text-blue-600 underline"
-                  >
-                    {s.url}
-                  </a>
-                  {(s.publishedDate || s.provider || typeof s.score === "number") && (
-                    <div className="text-xs text-gray-600 mt-1">
-                      {s.publishedDate ? <span>{s.publishedDate}</span> : null}
-                      {s.provider ? <span>{s.publishedDate ? " · " : ""}{s.provider}</span> : null}
-                      {typeof s.score === "number" ? (
-                        <span>{(s.publishedDate || s.provider) ? " · " : ""}score: {s.score}</span>
-                      ) : null}
+              {data.decisionStage && (
+                <div className="space-y-2 border rounded p-3">
+                  <h3 className="font-medium">
+                    Decision check: {data.decisionStage.decision.confidence} confidence
+                    {data.decisionStage.crossCheck.confidenceCapped
+                      ? ` (model said ${data.decisionStage.crossCheck.modelConfidence})`
+                      : ""}
+                  </h3>
+                  <p className="text-sm">{data.decisionStage.decision.rationale}</p>
+                  {data.decisionStage.decision.risks.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium">Risks</h4>
+                      <ul className="list-disc pl-5 space-y-1 text-sm">
+                        {data.decisionStage.decision.risks.map((r, i) => (
+                          <li key={i} dangerouslySetInnerHTML={{ __html: linkifyCitationsToHtml(r) }} />
+                        ))}
+                      </ul>
                     </div>
                   )}
-                </li>
-              ))}
-            </ol>
+                  {data.decisionStage.crossCheck.issues.length > 0 && (
+                    <ul className="list-disc pl-5 space-y-1 text-sm text-amber-700">
+                      {data.decisionStage.crossCheck.issues.map((issue, i) => (
+                        <li key={i}>{issue}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </section>
+
+            {/* 4. RESEARCH */}
+            <section className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <h2 className="text-xl font-semibold">Research</h2>
+                <div className="ml-auto flex gap-2">
+                  <button onClick={openAll} className="rounded border px-3 py-1 text-sm">
+                    Open all
+                  </button>
+                  <button onClick={closeAll} className="rounded border px-3 py-1 text-sm">
+                    Close all
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {data.report.research.map((sec, i) => {
+                  const isOpen = Boolean(openSections[i]);
+                  return (
+                    <article key={i} className="border rounded">
+                      <button
+                        onClick={() => toggleSection(i)}
+                        className="w-full text-left px-4 py-3 flex items-center gap-3"
+                      >
+                        <span className="text-sm text-gray-600">
+                          {i + 1}
+                        </span>
+                        <span className="font-medium">{sec.title}</span>
+                        <span className="ml-auto text-sm text-gray-600">
+                          {isOpen ? "Hide" : "Show"}
+                        </span>
+                      </button>
+
+                      {isOpen && (
+                        <div className="px-4 pb-4 space-y-3">
+                          <p className="italic text-gray-700">{sec.intro}</p>
+
+                          <p
+                            className="whitespace-pre-line"
+                            dangerouslySetInnerHTML={{
+                              __html: linkifyCitationsToHtml(sec.content),
+                            }}
+                          />
+
+                          <p className="font-medium">{sec.conclusion}</p>
+                        </div>
+                      )}
+                    </article>
+                  );
+                })}
+              </div>
+            </section>
+
+            {/* 5. SOURCES */}
+            <section className="space-y-4">
+              <h2 className="text-xl font-semibold">Sources</h2>
+              <ol className="list-decimal pl-5 space-y-3">
+                {data.report.sources.map((s) => (
+                  <li key={s.sourceNumber} id={`source-${s.sourceNumber}`}>
+                    <div className="text-sm">
+                      <strong>
+                        [{s.sourceNumber}] {s.title}
+                      </strong>
+                    </div>
+                    <a
+                      href={s.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-sm text-blue-600 underline"
+                    >
+                      {s.url}
+                    </a>
+                    {(s.publishedDate || s.provider || typeof s.score === "number") && (
+                      <div className="text-xs text-gray-600 mt-1">
+                        {s.publishedDate ? <span>{s.publishedDate}</span> : null}
+                        {s.provider ? <span>{s.publishedDate ? " · " : ""}{s.provider}</span> : null}
+                        {typeof s.score === "number" ? (
+                          <span>{(s.publishedDate || s.provider) ? " · " : ""}score: {s.score}</span>
+                        ) : null}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </section>
           </section>
-        </section>
-      )}
-    </main>
+        )}
+      </main>
+    </div>
   );
 }
@@ -1,9 +1,18 @@
+// src/config/openai.ts
 import OpenAI from "openai";
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("Missing OPENAI_API_KEY in environment");
-}
+let client: OpenAI | undefined;
 
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+/**
+ * Created on first use, so importing this module never requires OPENAI_API_KEY
+ * (local and fake LLM backends run without it).
+ */
+export function getOpenAI(): OpenAI {
+  if (!client) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("Missing OPENAI_API_KEY in environment");
+    }
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
+}
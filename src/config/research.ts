@@ -8,6 +8,149 @@ export const RESEARCH_CONFIG = {
     includeRawContent: "text" as const,
   },
 
+  extraction: {
+    enabled: true,
+    // alleen de best scorende bronnen volledig ophalen
+    topN: 6,
+    timeoutMs: 8000,
+    maxBytes: 2_000_000,
+    maxChars: 20_000,
+    userAgent: "DeepResearchAgent/1.0 (+research bot)",
+    // elke redirect-hop opnieuw langs robots.txt en de host-controle
+    maxRedirects: 3,
+  },
+
+  llm: {
+    // per taak een model; te overschrijven met LLM_MODEL_<TAAK> of LLM_MODEL
+    models: {
+      translate: "gpt-4.1-mini",
+      report: "gpt-4.1-mini",
+      decision: "gpt-4.1-mini",
+      plan: "gpt-4.1-mini",
+    },
+    // alleen voor openai-compatible (lokale) servers; lokale modellen zijn traag
+    timeoutMs: 120_000,
+  },
+
+  usage: {
+    // geschatte prijzen in USD; onbekende modellen en gratis providers tellen als 0
+    pricing: {
+      // per zoekcall (Tavily advanced = 2 credits à $0.008)
+      search: { tavily: 0.016, brave: 0.005, searxng: 0, local: 0 } as Record<string, number>,
+      // per miljoen tokens
+      models: {
+        "gpt-4.1": { input: 2, output: 8 },
+        "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+        "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+        "gpt-4o": { input: 2.5, output: 10 },
+        "gpt-4o-mini": { input: 0.15, output: 0.6 },
+      } as Record<string, { input: number; output: number }>,
+    },
+    // tokenschatting als de backend geen usage teruggeeft
+    charsPerToken: 4,
+  },
+
+  search: {
+    // queries die binnen één pass tegelijk lopen
+    concurrency: 3,
+    // per poging; een hangende provider houdt de pass niet op
+    timeoutMs: 20_000,
+    // extra pogingen bij 408/425/429/5xx, timeouts en netwerkfouten
+    retries: 2,
+    // wachttijd verdubbelt per poging (met jitter), tot maxDelayMs
+    baseDelayMs: 500,
+    maxDelayMs: 8_000,
+  },
+
+  loop: {
+    // wie de vervolgqueries kiest: "deterministic" of "llm" (valt terug op deterministic)
+    planner: "deterministic" as "deterministic" | "llm",
+    maxIterations: 3,
+    // zoekbudget per run, inclusief seed- en subvraag-queries (elke query is een betaalde zoekcall)
+    maxQueries: 30,
+    maxMs: 120_000,
+    queriesPerIteration: 6,
+  },
+
+  recency: {
+    // per tijdshorizon (zie TimeHorizonSchema); versheidsscore halveert elke halfLifeDays
+    halfLifeDays: { now: 180, quarter: 365, year: 730 },
+    // telt als recent voor de gate-regel minRecentSources
+    recentDays: { now: 180, quarter: 365, year: 730 },
+    // ouder dan dit telt als verouderd in de rapportnotitie
+    staleDays: { now: 365, quarter: 730, year: 1095 },
+    // alleen bij horizon "now" afgedwongen
+    minRecentSources: 3,
+  },
+
+  risk: {
+    // vermenigvuldigt de gate-drempels: lage risicotolerantie = strengere gate
+    gateFactor: { low: 1.25, medium: 1, high: 0.8 },
+  },
+
+  dedupe: {
+    // geschatte Jaccard-overlap (MinHash) vanaf waar twee bronnen als dezelfde tekst gelden
+    nearDuplicateThreshold: 0.8,
+    // woorden per shingle
+    shingleSize: 3,
+    numHashes: 64,
+    // te korte teksten niet vergelijken: een paar gedeelde zinnen is nog geen kopie
+    minShingles: 20,
+    // alleen het begin van de tekst; kopieën wijken vooral onderaan af (reacties, footer)
+    maxChars: 5000,
+  },
+
+  corroboration: {
+    // zinnen per bron die als claim worden meegenomen (cijfers gaan voor)
+    maxClaimsPerSource: 8,
+    minWords: 6,
+    maxWords: 45,
+    // woordoverlap (Jaccard) vanaf waar twee zinnen dezelfde claim zijn
+    claimSimilarity: 0.5,
+    // aantal onafhankelijke organisaties dat een claim "bevestigd" maakt
+    minIndependentSources: 2,
+    // alleen bij lage risicotolerantie een gate-regel (zie gateRulesFor)
+    minCorroboratedClaims: 2,
+    // domeinen van dezelfde organisatie; subdomeinen tellen al als één
+    sisterSites: [
+      ["bbc.com", "bbc.co.uk"],
+      ["theguardian.com", "guardian.co.uk"],
+      ["nytimes.com", "nyt.com"],
+      ["amazon.com", "amazonaws.com", "aboutamazon.com"],
+      ["microsoft.com", "azure.com", "office.com", "live.com"],
+      ["google.com", "blog.google", "withgoogle.com", "youtube.com"],
+      ["meta.com", "facebook.com", "fb.com", "instagram.com"],
+      ["ft.com", "ftadviser.com"],
+      ["wsj.com", "barrons.com", "marketwatch.com"],
+    ],
+  },
+
+  contradictions: {
+    // woordoverlap vanaf waar twee claims over hetzelfde gaan
+    topicSimilarity: 0.5,
+    // cijfers die minder dan 10% verschillen gelden als gelijk (afronding)
+    numericTolerance: 0.1,
+    maxConflicts: 10,
+    // hoogstens zoveel conflictnotities in recommendation.uncertainties (zoals de brief er 3 toont)
+    maxNotes: 3,
+    // confidence-aftrek per onopgelost conflict, met een plafond
+    confidencePenalty: 0.05,
+    maxConfidencePenalty: 0.2,
+  },
+
+  report: {
+    // totaal aantal model-calls: 1 generatie + herstelpogingen met de zod-fouten
+    maxAttempts: 3,
+  },
+
+  cache: {
+    // één werkdag: herhaald onderzoek op dezelfde beslissing hergebruikt resultaten
+    ttlMs: 8 * 60 * 60 * 1000,
+    maxEntries: 500,
+    // ook naar schijf schrijven (RESEARCH_CACHE_DIR, default .research/cache)
+    disk: true,
+  },
+
   gates: {
     minSources: 4,
     minUniqueDomains: 3,
@@ -25,6 +168,28 @@ export const RESEARCH_CONFIG = {
       "github.com",
       "npmjs.com",
     ],
+    // overheid, onderwijs en internationale organisaties
+    highTrustSuffixes: [".gov", ".edu", ".int", ".europa.eu"],
     lowTrustContains: ["medium.com", "substack.com", "blogspot.", "wordpress.", "wixsite."],
+    // bronnen van deze domeinen worden altijd weggelaten
+    denyDomains: [] as string[],
+    // kandidaten voor site:-queries; topics bepalen welke bij de beslissing passen
+    authoritySites: [
+      { domain: "nist.gov", topics: ["security", "cryptograph", "standard", "cloud", "identity", "privacy"] },
+      { domain: "owasp.org", topics: ["security", "web app", "api", "vulnerab", "auth"] },
+      { domain: "europa.eu", topics: ["regulation", "gdpr", "compliance", "eu ", "europe", "policy"] },
+      { domain: "who.int", topics: ["health", "medical", "disease", "clinical", "patient"] },
+      { domain: "nejm.org", topics: ["clinical", "treatment", "medical", "drug", "trial"] },
+      { domain: "oecd.org", topics: ["economy", "education", "tax", "labour", "labor", "policy"] },
+      { domain: "imf.org", topics: ["inflation", "monetary", "finance", "currency", "economy"] },
+      { domain: "worldbank.org", topics: ["development", "poverty", "infrastructure", "economy"] },
+      { domain: "arxiv.org", topics: ["machine learning", "model", "llm", "algorithm", " ai "] },
+      { domain: "developer.mozilla.org", topics: ["javascript", "browser", "css", "html", "web api"] },
+      { domain: "github.com", topics: ["open source", "library", "framework", "sdk", "repository"] },
+      { domain: "nature.com", topics: ["study", "research", "science", "climate"] },
+      { domain: "sciencedirect.com", topics: ["study", "research", "engineering"] },
+      { domain: "wikipedia.org", topics: [] },
+      { domain: "gov", topics: [] },
+    ],
   },
 };
@@ -0,0 +1,55 @@
+// src/lib/research/cache.test.ts
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { Source } from "@/types/research";
+import { createSearchCache, scopeSearchCache } from "@/lib/research/cache";
+
+const src = (url: string): Source => ({ url, title: url, snippet: "", content: "", provider: "tavily" });
+
+describe("createSearchCache", () => {
+  it("expires entries after the TTL", async () => {
+    let t = 0;
+    const cache = createSearchCache({ ttlMs: 100, maxEntries: 10, now: () => t });
+
+    await cache.set("k", [src("https://a.com")]);
+    t = 100;
+    expect(await cache.get("k")).toHaveLength(1);
+    t = 101;
+    expect(await cache.get("k")).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", async () => {
+    const cache = createSearchCache({ ttlMs: 1000, maxEntries: 2 });
+
+    await cache.set("a", []);
+    await cache.set("b", []);
+    await cache.get("a"); // a is now most recent
+    await cache.set("c", []);
+
+    expect(await cache.get("a")).toEqual([]);
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toEqual([]);
+  });
+
+  it("persists to disk so a fresh cache instance can serve hits", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "search-cache-"));
+    try {
+      const first = scopeSearchCache(createSearchCache({ ttlMs: 1000, maxEntries: 2, dir }), "tavily");
+      await first.set("fnv1a32:0000abcd", [src("https://a.com")]);
+      await first.set("fnv1a32:0000abce", []);
+      await first.set("fnv1a32:0000abcf", []);
+
+      expect((await readdir(dir)).length).toBe(2);
+
+      const second = scopeSearchCache(createSearchCache({ ttlMs: 1000, maxEntries: 2, dir }), "tavily");
+      expect(await second.get("fnv1a32:0000abcf")).toEqual([]);
+
+      const otherScope = scopeSearchCache(createSearchCache({ ttlMs: 1000, maxEntries: 2, dir }), "brave");
+      expect(await otherScope.get("fnv1a32:0000abcf")).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,110 @@
+// src/lib/research/cache.ts
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Source } from "@/types/research";
+
+/**
+ * Search result cache, keyed by the normalized-query hash the pipeline already
+ * computes (`fnv1a32:...`). Misses return undefined; an empty array is a valid hit.
+ */
+export type SearchCache = {
+  get: (key: string) => Promise<Source[] | undefined>;
+  set: (key: string, sources: Source[]) => Promise<void>;
+};
+
+export type SearchCacheOptions = {
+  ttlMs: number;
+  maxEntries: number;
+  // When set, entries are also written to (and read back from) this directory.
+  dir?: string;
+  now?: () => number;
+};
+
+type Entry = { storedAt: number; sources: Source[] };
+
+export function createSearchCache(opts: SearchCacheOptions): SearchCache {
+  const now = opts.now ?? Date.now;
+  // Map iteration order doubles as LRU order: re-inserted on every hit.
+  const memory = new Map<string, Entry>();
+
+  const fresh = (e: Entry) => now() - e.storedAt <= opts.ttlMs;
+  const fileFor = (key: string) => path.join(opts.dir as string, `${key.replace(/[^a-zA-Z0-9._-]/g, "_")}.json`);
+
+  function remember(key: string, entry: Entry) {
+    memory.delete(key);
+    memory.set(key, entry);
+    while (memory.size > opts.maxEntries) {
+      const oldest = memory.keys().next().value as string;
+      memory.delete(oldest);
+    }
+  }
+
+  async function readDisk(key: string): Promise<Entry | undefined> {
+    if (!opts.dir) return undefined;
+    try {
+      const entry = JSON.parse(await readFile(fileFor(key), "utf8")) as Entry;
+      if (fresh(entry)) return entry;
+      await rm(fileFor(key), { force: true });
+    } catch {
+      // missing or unreadable: treat as miss
+    }
+    return undefined;
+  }
+
+  async function writeDisk(key: string, entry: Entry) {
+    if (!opts.dir) return;
+    await mkdir(opts.dir, { recursive: true });
+    await writeFile(fileFor(key), JSON.stringify(entry), "utf8");
+    await pruneDisk(opts.dir, opts.maxEntries);
+  }
+
+  return {
+    async get(key) {
+      const inMemory = memory.get(key);
+      if (inMemory && fresh(inMemory)) {
+        remember(key, inMemory);
+        return inMemory.sources;
+      }
+      memory.delete(key);
+
+      const onDisk = await readDisk(key);
+      if (!onDisk) return undefined;
+      remember(key, onDisk);
+      return onDisk.sources;
+    },
+
+    async set(key, sources) {
+      const entry: Entry = { storedAt: now(), sources };
+      remember(key, entry);
+      try {
+        await writeDisk(key, entry);
+      } catch {
+        // disk is an optimization; the in-memory entry still serves this process
+      }
+    },
+  };
+}
+
+/**
+ * Prefixes keys, so results from different provider sets never share entries.
+ */
+export function scopeSearchCache(cache: SearchCache, namespace: string): SearchCache {
+  return {
+    get: (key) => cache.get(`${namespace}:${key}`),
+    set: (key, sources) => cache.set(`${namespace}:${key}`, sources),
+  };
+}
+
+async function pruneDisk(dir: string, maxEntries: number) {
+  const files = (await readdir(dir)).filter((f) => f.endsWith(".json"));
+  if (files.length <= maxEntries) return;
+
+  const withTimes = await Promise.all(
+    files.map(async (f) => ({ f, mtime: (await stat(path.join(dir, f))).mtimeMs }))
+  );
+  withTimes.sort((a, b) => a.mtime - b.mtime);
+
+  for (const { f } of withTimes.slice(0, files.length - maxEntries)) {
+    await rm(path.join(dir, f), { force: true });
+  }
+}
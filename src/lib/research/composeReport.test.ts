@@ -0,0 +1,94 @@
+// src/lib/research/composeReport.test.ts
+import { describe, it, expect } from "vitest";
+import type { Report } from "@/lib/research/report.Schema";
+import { composeReport, isReportFormat, type ComposeInput } from "@/lib/research/composeReport";
+import { crc32 } from "@/lib/research/docx";
+
+const report: Report = {
+  summaryBullets: ["One", "Two", "Three", "Four", "Five", "Six"],
+  summaryText: "Option A is cheaper <and> faster [1].",
+  recommendation: {
+    choice: "Choose option A",
+    why: ["Lower cost [1]", "Faster rollout [2]", "Vendor support", "Fourth reason"],
+    conditions: [],
+    uncertainties: ["Pricing may change"],
+  },
+  research: [
+    {
+      title: "Cost",
+      intro: "What does each option cost?",
+      content: "A costs less than B [1].\n\nB has hidden fees [2].",
+      conclusion: "A is cheaper.",
+    },
+  ],
+  sources: [
+    { sourceNumber: 1, title: "Price list", url: "https://a.com/prices", publishedDate: "2026-01-02" },
+    { sourceNumber: 2, title: "Review", url: "https://b.com/review" },
+  ],
+};
+
+const input: ComposeInput = {
+  report,
+  decisionStatus: "EVIDENCE_SUFFICIENT",
+  confidence: { overall: 0.72, rationale: "Consistent sources" },
+  decision: "A or B?",
+  lang: "en",
+};
+
+describe("composeReport", () => {
+  it("knows which formats it renders", () => {
+    expect(isReportFormat("docx")).toBe(true);
+    expect(isReportFormat("structured")).toBe(false);
+    expect(isReportFormat("pdf")).toBe(false);
+  });
+
+  it("renders markdown with labels in the output language", () => {
+    const en = composeReport(input, "markdown");
+    expect(en.contentType).toBe("text/markdown; charset=utf-8");
+    expect(en.body).toContain("**Confidence:** 72% — Consistent sources");
+    expect(en.body).toContain("**Conditions:**\n- —");
+    expect(en.body).toContain("1. Price list (published 2026-01-02)\n   https://a.com/prices");
+
+    const nl = composeReport({ ...input, lang: "nl" }, "markdown");
+    expect(nl.body).toContain("## Aanbeveling");
+  });
+
+  it("renders standalone, escaped HTML with citation anchors", () => {
+    const html = composeReport(input, "html").body as string;
+    expect(html.startsWith("<!doctype html>")).toBe(true);
+    expect(html).toContain("cheaper &lt;and&gt; faster <a href=\"#source-1\">[1]</a>");
+    expect(html).toContain('<li id="source-2" value="2">Review');
+    expect(html).not.toMatch(/<link|<script/);
+  });
+
+  it("keeps the brief to the top items", () => {
+    const brief = composeReport(input, "brief");
+    expect(brief.extension).toBe("brief.md");
+    expect(brief.body).toContain("**Decision status:** EVIDENCE_SUFFICIENT · Confidence: 72%");
+    expect(brief.body).not.toContain("Fourth reason");
+    expect(brief.body).not.toContain("- Six");
+    expect(brief.body).not.toContain("**Conditions:**");
+  });
+
+  it("renders JSON with the report and its context", () => {
+    const json = JSON.parse(composeReport(input, "json").body as string);
+    expect(json).toMatchObject({ decision: "A or B?", decisionStatus: "EVIDENCE_SUFFICIENT", language: "en" });
+    expect(json.report.sources).toHaveLength(2);
+  });
+
+  it("packs a DOCX zip with the document text", () => {
+    const docx = composeReport(input, "docx");
+    expect(docx.extension).toBe("docx");
+    const bytes = docx.body as Uint8Array;
+    const text = new TextDecoder().decode(bytes);
+    expect(text.slice(0, 2)).toBe("PK");
+    expect(text).toContain("[Content_Types].xml");
+    expect(text).toContain("word/document.xml");
+    expect(text).toContain('<w:t xml:space="preserve">Option A is cheaper &lt;and&gt; faster [1].</w:t>');
+    expect(text).toContain("B has hidden fees [2].");
+  });
+
+  it("computes the zip checksum", () => {
+    expect(crc32(new TextEncoder().encode("hello"))).toBe(0x3610a686);
+  });
+});
@@ -0,0 +1,307 @@
+// src/lib/research/composeReport.ts
+import type { OutputFormat, OutputLanguage } from "@/types/research";
+import type { Report } from "@/lib/research/report.Schema";
+import type { ResearchRun } from "@/lib/research/history";
+import { buildDocx, DOCX_CONTENT_TYPE, type DocxBlock } from "@/lib/research/docx";
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage, messages, type Messages } from "@/lib/research/i18n";
+
+// Every outputFormat except "structured" (the plain API response) has a renderer.
+export type ReportFormat = Exclude<OutputFormat, "structured">;
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ["markdown", "html", "json", "docx", "brief"];
+
+export type ComposeInput = {
+  report: Report;
+  decisionStatus: "EVIDENCE_SUFFICIENT" | "INSUFFICIENT_EVIDENCE";
+  confidence?: { overall: number; rationale: string };
+  goal?: string;
+  decision?: string;
+  createdAt?: string;
+  lang: OutputLanguage;
+};
+
+export type ComposedReport = {
+  format: ReportFormat;
+  contentType: string;
+  extension: string;
+  // docx is binary; every other format is UTF-8 text
+  body: string | Uint8Array;
+};
+
+// the executive brief keeps to one page
+const BRIEF_LIMITS = { summary: 5, why: 3, conditions: 3, uncertainties: 3, sources: 5 } as const;
+
+type Labels = Messages["labels"];
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Renders a finished report in the requested format. Pure: the same input
+ * always yields the same bytes, so stored runs can be re-rendered on demand.
+ */
+export function composeReport(input: ComposeInput, format: ReportFormat): ComposedReport {
+  switch (format) {
+    case "markdown":
+      return { format, contentType: "text/markdown; charset=utf-8", extension: "md", body: renderMarkdown(input) };
+    case "html":
+      return { format, contentType: "text/html; charset=utf-8", extension: "html", body: renderHtml(input) };
+    case "json":
+      return { format, contentType: "application/json; charset=utf-8", extension: "json", body: renderJson(input) };
+    case "docx":
+      return { format, contentType: DOCX_CONTENT_TYPE, extension: "docx", body: buildDocx(docxBlocks(input)) };
+    case "brief":
+      return { format, contentType: "text/markdown; charset=utf-8", extension: "brief.md", body: renderBrief(input) };
+  }
+}
+
+export function composeInputFromRun(run: ResearchRun): ComposeInput {
+  return {
+    report: run.report,
+    decisionStatus: run.output.decisionStatus,
+    confidence: run.output.confidenceOverview,
+    goal: run.goal,
+    decision: run.decision,
+    createdAt: run.createdAt,
+    lang: isOutputLanguage(run.inputs.outputLanguage) ? run.inputs.outputLanguage : DEFAULT_OUTPUT_LANGUAGE,
+  };
+}
+
+function confidenceLine(input: ComposeInput): string | undefined {
+  if (!input.confidence) return undefined;
+  return `${Math.round(input.confidence.overall * 100)}% — ${input.confidence.rationale}`;
+}
+
+function sourceLine(s: Report["sources"][number], t: Labels): string {
+  return s.publishedDate ? `${s.title} (${t.published} ${s.publishedDate})` : s.title;
+}
+
+// ============================
+// Markdown
+// ============================
+function renderMarkdown(input: ComposeInput): string {
+  const { report } = input;
+  const t = messages(input.lang).labels;
+  const lines: string[] = [`# ${t.title}`, ""];
+
+  if (input.goal) lines.push(`**${t.goal}:** ${input.goal}`, "");
+  if (input.decision) lines.push(`**${t.decision}:** ${input.decision}`, "");
+  lines.push(`**${t.status}:** ${input.decisionStatus}`);
+  const confidence = confidenceLine(input);
+  if (confidence) lines.push("", `**${t.confidence}:** ${confidence}`);
+
+  lines.push("", `## ${t.summary}`, "");
+  for (const b of report.summaryBullets) lines.push(`- ${b}`);
+  lines.push("", report.summaryText.trim(), "");
+
+  lines.push(`## ${t.recommendation}`, "", `**${t.choice}:** ${report.recommendation.choice}`, "");
+  lines.push(...markdownList(t.why, report.recommendation.why), "");
+  lines.push(...markdownList(t.conditions, report.recommendation.conditions), "");
+  lines.push(...markdownList(t.uncertainties, report.recommendation.uncertainties));
+
+  lines.push("", `## ${t.research}`, "");
+  report.research.forEach((sec, idx) => {
+    lines.push(`### ${idx + 1}. ${sec.title}`, "");
+    lines.push(`_${t.intro}:_ ${sec.intro.trim()}`, "");
+    lines.push(sec.content.trim(), "");
+    lines.push(`**${t.conclusion}:** ${sec.conclusion.trim()}`, "");
+  });
+
+  lines.push(`## ${t.sources}`, "");
+  for (const s of report.sources) {
+    lines.push(`${s.sourceNumber}. ${sourceLine(s, t)}`);
+    lines.push(`   ${s.url}`);
+  }
+
+  return lines.join("\n");
+}
+
+function markdownList(label: string, items: string[]): string[] {
+  return [`**${label}:**`, ...(items.length ? items.map((i) => `- ${i}`) : ["- —"])];
+}
+
+// ============================
+// Executive brief (one page)
+// ============================
+function renderBrief(input: ComposeInput): string {
+  const { report } = input;
+  const t = messages(input.lang).labels;
+  const rec = report.recommendation;
+  const lines: string[] = [`# ${t.brief}`, ""];
+
+  if (input.decision) lines.push(`**${t.decision}:** ${input.decision}`, "");
+  const confidence = input.confidence ? ` · ${t.confidence}: ${Math.round(input.confidence.overall * 100)}%` : "";
+  lines.push(`**${t.status}:** ${input.decisionStatus}${confidence}`, "");
+
+  lines.push(`## ${t.recommendation}`, "", rec.choice.trim(), "");
+  lines.push(...markdownList(t.why, rec.why.slice(0, BRIEF_LIMITS.why)), "");
+  if (rec.conditions.length) {
+    lines.push(...markdownList(t.conditions, rec.conditions.slice(0, BRIEF_LIMITS.conditions)), "");
+  }
+  lines.push(...markdownList(t.uncertainties, rec.uncertainties.slice(0, BRIEF_LIMITS.uncertainties)), "");
+
+  lines.push(`## ${t.summary}`, "");
+  for (const b of report.summaryBullets.slice(0, BRIEF_LIMITS.summary)) lines.push(`- ${b}`);
+
+  lines.push("", `## ${t.keySources}`, "");
+  for (const s of report.sources.slice(0, BRIEF_LIMITS.sources)) {
+    lines.push(`${s.sourceNumber}. [${s.title}](${s.url})`);
+  }
+
+  return lines.join("\n");
+}
+
+// ============================
+// JSON
+// ============================
+function renderJson(input: ComposeInput): string {
+  return JSON.stringify(
+    {
+      goal: input.goal,
+      decision: input.decision,
+      createdAt: input.createdAt,
+      language: input.lang,
+      decisionStatus: input.decisionStatus,
+      confidence: input.confidence,
+      report: input.report,
+    },
+    null,
+    2
+  );
+}
+
+// ============================
+// HTML (standalone, no external assets)
+// ============================
+const HTML_STYLE = [
+  "body{font-family:system-ui,-apple-system,Segoe UI,sans-serif;max-width:820px;margin:2rem auto;padding:0 1rem;",
+  "line-height:1.55;color:#111}",
+  "h1{font-size:1.8rem}h2{margin-top:2rem;border-bottom:1px solid #ddd;padding-bottom:.25rem}",
+  ".meta{color:#555}.muted{color:#555;font-style:italic}a{color:#1d4ed8}",
+  "ol.sources li{margin-bottom:.4rem;word-break:break-word}",
+].join("");
+
+function renderHtml(input: ComposeInput): string {
+  const { report } = input;
+  const t = messages(input.lang).labels;
+  const rec = report.recommendation;
+  const parts: string[] = [];
+
+  parts.push(`<h1>${escapeHtml(t.title)}</h1>`);
+  if (input.goal) parts.push(`<p class="meta"><strong>${t.goal}:</strong> ${escapeHtml(input.goal)}</p>`);
+  if (input.decision) parts.push(`<p class="meta"><strong>${t.decision}:</strong> ${escapeHtml(input.decision)}</p>`);
+  parts.push(`<p class="meta"><strong>${t.status}:</strong> ${escapeHtml(input.decisionStatus)}</p>`);
+  const confidence = confidenceLine(input);
+  if (confidence) parts.push(`<p class="meta"><strong>${t.confidence}:</strong> ${escapeHtml(confidence)}</p>`);
+
+  parts.push(`<h2>${t.summary}</h2>`, htmlList(report.summaryBullets));
+  parts.push(`<p>${withCitationLinks(report.summaryText)}</p>`);
+
+  parts.push(`<h2>${t.recommendation}</h2>`);
+  parts.push(`<p><strong>${t.choice}:</strong> ${withCitationLinks(rec.choice)}</p>`);
+  parts.push(`<h3>${t.why}</h3>`, htmlList(rec.why));
+  parts.push(`<h3>${t.conditions}</h3>`, htmlList(rec.conditions));
+  parts.push(`<h3>${t.uncertainties}</h3>`, htmlList(rec.uncertainties));
+
+  parts.push(`<h2>${t.research}</h2>`);
+  report.research.forEach((sec, idx) => {
+    parts.push(`<h3>${idx + 1}. ${escapeHtml(sec.title)}</h3>`);
+    parts.push(`<p class="muted">${withCitationLinks(sec.intro.trim())}</p>`);
+    for (const para of sec.content.trim().split(/\n{2,}/)) parts.push(`<p>${withCitationLinks(para)}</p>`);
+    parts.push(`<p><strong>${t.conclusion}:</strong> ${withCitationLinks(sec.conclusion.trim())}</p>`);
+  });
+
+  parts.push(`<h2>${t.sources}</h2>`, `<ol class="sources">`);
+  for (const s of report.sources) {
+    const url = escapeHtml(s.url);
+    const date = s.publishedDate ? ` <span class="meta">(${t.published} ${escapeHtml(s.publishedDate)})</span>` : "";
+    parts.push(
+      `<li id="source-${s.sourceNumber}" value="${s.sourceNumber}">${escapeHtml(s.title)}${date}<br/>` +
+        `<a href="${url}" rel="noreferrer">${url}</a></li>`
+    );
+  }
+  parts.push(`</ol>`);
+
+  return [
+    "<!doctype html>",
+    `<html lang="${input.lang}">`,
+    "<head>",
+    `<meta charset="utf-8"/>`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1"/>`,
+    `<title>${escapeHtml(input.decision || t.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...parts,
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+function htmlList(items: string[]): string {
+  if (!items.length) return "<ul><li>—</li></ul>";
+  return `<ul>${items.map((i) => `<li>${withCitationLinks(i)}</li>`).join("")}</ul>`;
+}
+
+// [n] becomes a link to the numbered source at the bottom of the page
+function withCitationLinks(text: string): string {
+  return escapeHtml(text || "")
+    .replace(/\[(\d+)\]/g, (_m, n) => `<a href="#source-${n}">[${n}]</a>`)
+    .replace(/\n/g, "<br/>");
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+// ============================
+// DOCX
+// ============================
+function docxBlocks(input: ComposeInput): DocxBlock[] {
+  const { report } = input;
+  const t = messages(input.lang).labels;
+  const rec = report.recommendation;
+  const blocks: DocxBlock[] = [{ kind: "heading", level: 1, text: t.title }];
+
+  if (input.goal) blocks.push({ kind: "paragraph", text: `${t.goal}: ${input.goal}` });
+  if (input.decision) blocks.push({ kind: "paragraph", text: `${t.decision}: ${input.decision}` });
+  blocks.push({ kind: "paragraph", text: `${t.status}: ${input.decisionStatus}`, bold: true });
+  const confidence = confidenceLine(input);
+  if (confidence) blocks.push({ kind: "paragraph", text: `${t.confidence}: ${confidence}` });
+
+  blocks.push({ kind: "heading", level: 2, text: t.summary });
+  for (const b of report.summaryBullets) blocks.push({ kind: "bullet", text: b });
+  blocks.push({ kind: "paragraph", text: report.summaryText.trim() });
+
+  blocks.push({ kind: "heading", level: 2, text: t.recommendation });
+  blocks.push({ kind: "paragraph", text: `${t.choice}: ${rec.choice}`, bold: true });
+  const lists: Array<[string, string[]]> = [
+    [t.why, rec.why],
+    [t.conditions, rec.conditions],
+    [t.uncertainties, rec.uncertainties],
+  ];
+  for (const [label, items] of lists) {
+    blocks.push({ kind: "heading", level: 3, text: label });
+    for (const i of items.length ? items : ["—"]) blocks.push({ kind: "bullet", text: i });
+  }
+
+  blocks.push({ kind: "heading", level: 2, text: t.research });
+  report.research.forEach((sec, idx) => {
+    blocks.push({ kind: "heading", level: 3, text: `${idx + 1}. ${sec.title}` });
+    blocks.push({ kind: "paragraph", text: sec.intro.trim(), italic: true });
+    blocks.push({ kind: "paragraph", text: sec.content.trim() });
+    blocks.push({ kind: "paragraph", text: `${t.conclusion}: ${sec.conclusion.trim()}`, bold: true });
+  });
+
+  blocks.push({ kind: "heading", level: 2, text: t.sources });
+  for (const s of report.sources) {
+    blocks.push({ kind: "paragraph", text: `[${s.sourceNumber}] ${sourceLine(s, t)} — ${s.url}` });
+  }
+  return blocks;
+}
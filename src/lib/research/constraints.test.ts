@@ -0,0 +1,150 @@
+// src/lib/research/constraints.test.ts
+import { describe, it, expect } from "vitest";
+import type { Source } from "@/types/research";
+import { ResearchConstraintsSchema } from "@/lib/research/schema";
+import { runResearchPipeline } from "@/lib/research/pipeline";
+import {
+  capPerDomain,
+  classifySourceType,
+  constraintQuerySuffix,
+  filterByConstraints,
+} from "@/lib/research/constraints";
+import { detectLanguage } from "@/lib/research/i18n";
+
+function src(url: string, over: Partial<Source> = {}): Source {
+  return { url, title: url, snippet: "", content: "", provider: "tavily", ...over };
+}
+
+describe("ResearchConstraintsSchema", () => {
+  it("normalizes domains and reads a plain string as notes", () => {
+    expect(ResearchConstraintsSchema.parse({ includeDomains: [" NIST.gov "] })).toEqual({
+      includeDomains: ["nist.gov"],
+    });
+    expect(ResearchConstraintsSchema.parse("EU only")).toEqual({ notes: "EU only" });
+  });
+
+  it("rejects malformed fields and unknown keys", () => {
+    const bad = ResearchConstraintsSchema.safeParse({
+      excludeDomains: ["https://x.com/path"],
+      dateRange: { from: "2025-01-01", to: "2024-01-01" },
+      maxPerDomain: 0,
+      sourceTypes: ["podcast"],
+      region: "EU",
+    });
+    expect(bad.success).toBe(false);
+    const paths = bad.error!.issues.map((i) => i.path.join(".") || i.code);
+    expect(paths).toEqual(
+      expect.arrayContaining(["excludeDomains.0", "dateRange", "maxPerDomain", "sourceTypes.0", "unrecognized_keys"])
+    );
+  });
+});
+
+describe("filterByConstraints", () => {
+  it("drops sources with the first violated constraint as reason", () => {
+    const english = "The study shows that the results for this group are stable and the effect is clear.";
+    const dutch = "De resultaten van het onderzoek laten zien dat de groep niet groeit en dat het effect klein is.";
+    const { kept, dropped } = filterByConstraints(
+      [
+        src("https://www.nist.gov/a", { snippet: english, publishedDate: "2024-05-01" }),
+        src("https://spam.nist.gov/b"),
+        src("https://example.com/c"),
+        src("https://csrc.nist.gov/old", { publishedDate: "2019-03-02T10:00:00Z" }),
+        src("https://nvd.nist.gov/nl", { snippet: dutch }),
+        src("https://nist.gov/undated"),
+      ],
+      {
+        includeDomains: ["nist.gov"],
+        excludeDomains: ["spam.nist.gov"],
+        dateRange: { from: "2023-01-01" },
+        languages: ["en"],
+        sourceTypes: ["government"],
+      }
+    );
+    expect(kept.map((s) => s.url)).toEqual(["https://www.nist.gov/a", "https://nist.gov/undated"]);
+    expect(dropped).toEqual([
+      { url: "https://spam.nist.gov/b", reason: "excluded-domain", detail: "spam.nist.gov" },
+      { url: "https://example.com/c", reason: "domain-not-included", detail: "example.com" },
+      { url: "https://csrc.nist.gov/old", reason: "outside-date-range", detail: "2019-03-02" },
+      { url: "https://nvd.nist.gov/nl", reason: "language", detail: "nl" },
+    ]);
+  });
+
+  it("keeps the first sources per domain up to the cap", () => {
+    const { kept, dropped } = capPerDomain(
+      [src("https://a.com/1"), src("https://www.a.com/2"), src("https://b.com/1"), src("https://a.com/3")],
+      2
+    );
+    expect(kept.map((s) => s.url)).toEqual(["https://a.com/1", "https://www.a.com/2", "https://b.com/1"]);
+    expect(dropped).toEqual([{ url: "https://a.com/3", reason: "max-per-domain", detail: "a.com" }]);
+  });
+
+  it("treats mobile, AMP and www hosts as the site itself", () => {
+    const capped = capPerDomain([src("https://a.com/1"), src("https://m.a.com/2"), src("https://amp.a.com/3")], 1);
+    expect(capped.kept.map((s) => s.url)).toEqual(["https://a.com/1"]);
+    expect(capped.dropped.map((d) => d.detail)).toEqual(["a.com", "a.com"]);
+
+    const { kept, dropped } = filterByConstraints([src("https://m.nist.gov/a"), src("https://amp.example.com/b")], {
+      includeDomains: ["www.nist.gov"],
+    });
+    expect(kept.map((s) => s.url)).toEqual(["https://m.nist.gov/a"]);
+    expect(dropped).toEqual([{ url: "https://amp.example.com/b", reason: "domain-not-included", detail: "example.com" }]);
+  });
+});
+
+describe("classification helpers", () => {
+  it("classifies sources by URL and detects common languages", () => {
+    expect(classifySourceType(src("https://www.cdc.gov/x"))).toBe("government");
+    expect(classifySourceType(src("https://arxiv.org/abs/1"))).toBe("academic");
+    expect(classifySourceType(src("https://docs.python.org/3/"))).toBe("documentation");
+    expect(classifySourceType(src("https://stackoverflow.com/q/1"))).toBe("forum");
+    expect(classifySourceType(src("https://example.com/about"))).toBeUndefined();
+
+    const german = "Der Bericht zeigt, dass die Kosten für das Projekt nicht mit der Planung übereinstimmen.";
+    expect(detectLanguage(`${german} Die Risiken steigen.`)).toBe("de");
+    expect(detectLanguage("too short to tell")).toBeUndefined();
+  });
+
+  it("builds search operators from the domain constraints", () => {
+    expect(constraintQuerySuffix(undefined)).toBe("");
+    expect(
+      constraintQuerySuffix({
+        includeDomains: ["nist.gov", "owasp.org"],
+        excludeDomains: ["reddit.com"],
+        sourceTypes: ["academic"],
+      })
+    ).toBe("(site:nist.gov OR site:owasp.org) -site:reddit.com peer-reviewed study");
+  });
+});
+
+describe("constraints in the pipeline", () => {
+  it("appends the operators to every query and reports dropped sources", async () => {
+    const queries: string[] = [];
+    const out = await runResearchPipeline(
+      {
+        goal: "Test",
+        decision: "Pick option A vs B",
+        outputFormat: "structured",
+        constraints: { excludeDomains: ["bad.com"], maxPerDomain: 1 },
+      },
+      {
+        searcher: async (q) => {
+          queries.push(q);
+          const n = queries.length;
+          return [src(`https://bad.com/${n}`), src(`https://ok.com/${n}`)];
+        },
+        includeDebug: true,
+        budget: { maxIterations: 0 },
+      }
+    );
+
+    expect(queries.every((q) => q.endsWith(" -site:bad.com"))).toBe(true);
+    expect(out.sources.map((s) => s.url)).toEqual(["https://ok.com/1"]);
+    expect(out.debug?.passes[0].dropped?.[0]).toEqual({
+      url: "https://bad.com/1",
+      reason: "excluded-domain",
+      detail: "bad.com",
+    });
+    expect(out.debug?.poolDropped?.every((d) => d.reason === "max-per-domain")).toBe(true);
+    expect(out.debug?.poolDropped).toHaveLength(queries.length - 1);
+  });
+});
@@ -0,0 +1,186 @@
+// src/lib/research/constraints.ts
+import type { ResearchConstraints, Source, SourceType } from "@/types/research";
+import { canonicalHost } from "@/lib/research/dedupe";
+import { hostMatches } from "@/lib/research/domainPolicy";
+import { detectLanguage } from "@/lib/research/i18n";
+import { normalizePublishedDate } from "@/lib/research/recency";
+import { hostOf } from "@/lib/research/util";
+
+export type ConstraintViolation =
+  | "excluded-domain"
+  | "domain-not-included"
+  | "outside-date-range"
+  | "language"
+  | "source-type"
+  | "max-per-domain";
+
+export type DroppedSource = { url: string; reason: ConstraintViolation; detail?: string };
+
+const SOURCE_TYPE_HINTS: Record<SourceType, string> = {
+  academic: "peer-reviewed study",
+  government: "official government publication",
+  news: "news report",
+  documentation: "official documentation",
+  blog: "practitioner blog",
+  forum: "community discussion",
+};
+
+/**
+ * Search operators and wording appended to every query, so the providers
+ * already favour sources the post-retrieval filter will keep.
+ */
+export function constraintQuerySuffix(constraints: ResearchConstraints | undefined): string {
+  if (!constraints) return "";
+  const parts: string[] = [];
+
+  const include = constraints.includeDomains ?? [];
+  if (include.length === 1) parts.push(`site:${include[0]}`);
+  else if (include.length > 1) parts.push(`(${include.map((d) => `site:${d}`).join(" OR ")})`);
+
+  for (const d of constraints.excludeDomains ?? []) parts.push(`-site:${d}`);
+
+  const types = constraints.sourceTypes ?? [];
+  if (types.length === 1) parts.push(SOURCE_TYPE_HINTS[types[0]]);
+
+  return parts.join(" ");
+}
+
+/**
+ * Per-source checks (domains, dates, language, type). Sources without a
+ * published date or with an unrecognised language are kept: absence of
+ * metadata is not evidence of a violation.
+ */
+export function filterByConstraints(
+  sources: Source[],
+  constraints: ResearchConstraints | undefined
+): { kept: Source[]; dropped: DroppedSource[] } {
+  if (!constraints) return { kept: sources, dropped: [] };
+  const kept: Source[] = [];
+  const dropped: DroppedSource[] = [];
+  for (const s of sources) {
+    const violation = checkSource(s, constraints);
+    if (violation) dropped.push({ url: s.url, ...violation });
+    else kept.push(s);
+  }
+  return { kept, dropped };
+}
+
+// www., m., amp. and mobile. hosts are the same site as the bare domain (see canonicalHost)
+function domainOf(url: string): string {
+  const host = hostOf(url);
+  return host && canonicalHost(host);
+}
+
+function inDomain(url: string, domain: string): boolean {
+  return hostMatches(url, domain) || hostMatches(url, canonicalHost(domain));
+}
+
+/**
+ * Keeps the first `max` sources per domain, in pool order.
+ */
+export function capPerDomain(sources: Source[], max: number | undefined): { kept: Source[]; dropped: DroppedSource[] } {
+  if (!max) return { kept: sources, dropped: [] };
+  const counts = new Map<string, number>();
+  const kept: Source[] = [];
+  const dropped: DroppedSource[] = [];
+  for (const s of sources) {
+    const domain = domainOf(s.url);
+    const n = counts.get(domain) ?? 0;
+    if (n >= max) {
+      dropped.push({ url: s.url, reason: "max-per-domain", detail: domain });
+      continue;
+    }
+    counts.set(domain, n + 1);
+    kept.push(s);
+  }
+  return { kept, dropped };
+}
+
+function checkSource(s: Source, c: ResearchConstraints): Omit<DroppedSource, "url"> | null {
+  const excluded = c.excludeDomains?.find((d) => inDomain(s.url, d));
+  if (excluded) return { reason: "excluded-domain", detail: excluded };
+
+  if (c.includeDomains?.length && !c.includeDomains.some((d) => inDomain(s.url, d))) {
+    return { reason: "domain-not-included", detail: domainOf(s.url) };
+  }
+
+  if (c.dateRange && s.publishedDate) {
+    const day = normalizePublishedDate(s.publishedDate);
+    if (day && ((c.dateRange.from && day < c.dateRange.from) || (c.dateRange.to && day > c.dateRange.to))) {
+      return { reason: "outside-date-range", detail: day };
+    }
+  }
+
+  if (c.languages?.length) {
+    const lang = detectLanguage(`${s.title} ${s.snippet} ${s.content.slice(0, 2000)}`);
+    if (lang && !c.languages.includes(lang)) return { reason: "language", detail: lang };
+  }
+
+  if (c.sourceTypes?.length) {
+    const type = classifySourceType(s);
+    if (!type || !c.sourceTypes.includes(type)) return { reason: "source-type", detail: type ?? "unknown" };
+  }
+
+  return null;
+}
+
+const GOVERNMENT = [".gov", ".int", ".europa.eu", ".overheid.nl", ".gov.uk", ".gouv.fr", ".bund.de"];
+const ACADEMIC = [
+  ".edu",
+  ".ac.uk",
+  "arxiv.org",
+  "doi.org",
+  "ncbi.nlm.nih.gov",
+  "nature.com",
+  "sciencedirect.com",
+  "springer.com",
+  "wiley.com",
+  "ieee.org",
+  "acm.org",
+  "jstor.org",
+  "researchgate.net",
+  "scholar.google.com",
+];
+const NEWS = [
+  "reuters.com",
+  "apnews.com",
+  "bbc.co.uk",
+  "bbc.com",
+  "nytimes.com",
+  "theguardian.com",
+  "ft.com",
+  "wsj.com",
+  "bloomberg.com",
+  "economist.com",
+  "nos.nl",
+  "nu.nl",
+  "techcrunch.com",
+  "theverge.com",
+  "arstechnica.com",
+];
+const FORUM = [
+  "reddit.com",
+  "stackoverflow.com",
+  "stackexchange.com",
+  "news.ycombinator.com",
+  "quora.com",
+  "discourse.org",
+];
+const BLOG = ["medium.com", "substack.com", "blogspot.com", "wordpress.com", "dev.to", "hashnode.dev"];
+
+/**
+ * Coarse source type from the URL; undefined when nothing points one way.
+ */
+export function classifySourceType(source: Pick<Source, "url">): SourceType | undefined {
+  const is = (patterns: string[]) => patterns.some((p) => hostMatches(source.url, p));
+  if (is(GOVERNMENT)) return "government";
+  if (is(ACADEMIC)) return "academic";
+  if (is(FORUM)) return "forum";
+  if (is(NEWS)) return "news";
+  if (is(BLOG)) return "blog";
+
+  const url = source.url.toLowerCase();
+  if (/\/\/(docs|developer|developers|learn)\.|readthedocs\.io|\/docs?\//.test(url)) return "documentation";
+  if (/\/blog\/|\/\/blog\./.test(url)) return "blog";
+  return undefined;
+}
@@ -0,0 +1,99 @@
+// src/lib/research/contradictions.test.ts
+import { describe, it, expect } from "vitest";
+import type { GateMetrics, Source } from "@/types/research";
+import { NO_SIGNIFICANT_UNCERTAINTIES, type ReportContent } from "@/lib/research/report.Schema";
+import { buildCorroborationTable } from "@/lib/research/corroboration";
+import { findContradictions, withConflictNotes, type Conflict } from "@/lib/research/contradictions";
+import { confidenceFromMetrics, scoreSourcesAndGate } from "@/lib/research/scoring";
+
+function src(url: string, content: string): Source {
+  return { url, title: url, snippet: "", content, provider: "tavily" };
+}
+
+function conflictsOf(sources: Source[]) {
+  return findContradictions(buildCorroborationTable(sources), sources);
+}
+
+const share = (pct: number, year = 2025) =>
+  `In ${year} the survey found that ${pct}% of mid-sized firms use a hosted CRM platform.`;
+
+describe("findContradictions", () => {
+  it("groups different figures for one metric into one conflict with source numbers per side", () => {
+    const conflicts = conflictsOf([
+      src("https://a.com/1", share(64)),
+      src("https://b.com/2", share(81)),
+      src("https://c.com/3", share(64)),
+      src("https://d.com/4", share(40)),
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ id: 1, kind: "numeric", resolved: true });
+    expect(conflicts[0].sides.map((s) => s.sourceNumbers)).toEqual([[1, 3], [2], [4]]);
+    expect(conflicts[0].sides[0].numbers).toEqual(["2025", "64"]);
+  });
+
+  it("finds opposite conclusions and leaves them unresolved without a majority", () => {
+    const claim = "Independent tests show that the new engine improves query latency for analytics.";
+    const conflicts = conflictsOf([
+      src("https://a.com/1", claim),
+      src("https://b.com/2", claim.replace("improves", "does not improve")),
+    ]);
+    expect(conflicts).toEqual([expect.objectContaining({ kind: "polarity", resolved: false })]);
+  });
+
+  it("ignores close figures, different years and disagreement within one organisation", () => {
+    expect(conflictsOf([src("https://a.com/1", share(64)), src("https://b.com/2", share(66))])).toEqual([]);
+    expect(conflictsOf([src("https://a.com/1", share(64, 2023)), src("https://b.com/2", share(81))])).toEqual([]);
+    expect(conflictsOf([src("https://www.bbc.com/1", share(64)), src("https://bbc.co.uk/2", share(81))])).toEqual([]);
+  });
+
+  it("reads comma-grouped figures as whole numbers", () => {
+    const firms = (n: string) => `In 2025 the registry counted ${n} mid-sized firms using a hosted CRM platform.`;
+    expect(conflictsOf([src("https://a.com/1", firms("1,500")), src("https://b.com/2", firms("1500"))])).toEqual([]);
+    expect(
+      conflictsOf([src("https://a.com/1", firms("2,500,000")), src("https://b.com/2", firms("2.5 million"))])
+    ).toEqual([]);
+
+    const conflicts = conflictsOf([src("https://a.com/1", firms("1,500")), src("https://b.com/2", firms("2,500"))]);
+    expect(conflicts).toEqual([expect.objectContaining({ kind: "numeric" })]);
+    expect(conflicts[0].sides.map((s) => s.numbers)).toEqual([["2025", "1500"], ["2025", "2500"]]);
+  });
+});
+
+describe("conflicts in the report and confidence", () => {
+  it("adds unresolved conflicts to the uncertainties and lowers the confidence", () => {
+    const sources = [src("https://a.com/1", share(64)), src("https://b.com/2", share(81))];
+    const { conflicts, metrics } = scoreSourcesAndGate(sources);
+    expect(metrics.unresolvedConflicts).toBe(1);
+
+    const report = {
+      recommendation: { choice: "A", why: [], conditions: [], uncertainties: [NO_SIGNIFICANT_UNCERTAINTIES.en] },
+    } as unknown as ReportContent;
+    const noted = withConflictNotes(report, conflicts, "en");
+    const [note, ...rest] = noted.recommendation.uncertainties;
+    expect(rest).toEqual([]);
+    expect(note).toMatch(/^Sources disagree: “In 2025 .*” \[1\] versus “.*” \[2\]\.$/);
+    expect(withConflictNotes(noted, conflicts, "en")).toBe(noted);
+
+    const many: Conflict[] = [1, 2, 3, 4, 5].map((id) => ({
+      id,
+      kind: "numeric",
+      resolved: false,
+      sides: [64, 81 + (id % 4)].map((pct, i) => ({
+        claim: share(pct),
+        numbers: [String(pct)],
+        sourceNumbers: [i + 1],
+        organizations: 1,
+      })),
+    }));
+    const capped = withConflictNotes(report, many, "en").recommendation.uncertainties;
+    expect(capped).toHaveLength(3);
+    expect(new Set(capped).size).toBe(3);
+
+    const base: GateMetrics = { ...metrics, top3AvgScore: 0.6, avgScore: 0.5, unresolvedConflicts: 0 };
+    const calm = confidenceFromMetrics(base, true);
+    const contested = confidenceFromMetrics({ ...base, unresolvedConflicts: 2 }, true);
+    expect(contested).toBeLessThan(calm);
+    expect(contested).toBeGreaterThanOrEqual(0.6);
+  });
+});
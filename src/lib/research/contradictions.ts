@@ -0,0 +1,144 @@
+// src/lib/research/contradictions.ts
+import type { OutputLanguage, Source } from "@/types/research";
+import { NO_SIGNIFICANT_UNCERTAINTIES, type ReportContent } from "@/lib/research/report.Schema";
+import { RESEARCH_CONFIG } from "@/config/research";
+import { messages } from "@/lib/research/i18n";
+import {
+  claimKey,
+  claimSimilarity,
+  measuredFigures,
+  type ClaimKey,
+  type CorroboratedClaim,
+  type CorroborationTable,
+} from "@/lib/research/corroboration";
+
+export type ConflictSide = {
+  claim: string;
+  numbers: string[];
+  // 1-based positions in the source list the conflicts were built from
+  sourceNumbers: number[];
+  organizations: number;
+};
+
+export type Conflict = {
+  id: number;
+  // numeric: different figures for the same thing; polarity: one side says the opposite
+  kind: "numeric" | "polarity";
+  // strongest side first
+  sides: ConflictSide[];
+  // one side is corroborated and every other side rests on a single organisation
+  resolved: boolean;
+};
+
+type Candidate = { claim: CorroboratedClaim; key: ClaimKey };
+
+/**
+ * Pairs of claims about the same thing (by wording) that disagree: different
+ * figures from the same period, or opposite polarity. Connected pairs form one
+ * conflict, so three different figures for one metric are a single entry.
+ * `sources` must be the list the table was built from; its order gives the
+ * source numbers.
+ */
+export function findContradictions(table: CorroborationTable, sources: Source[]): Conflict[] {
+  const { topicSimilarity, maxConflicts } = RESEARCH_CONFIG.contradictions;
+  const numberOf = new Map(sources.map((s, i) => [s.url, i + 1]));
+  const candidates: Candidate[] = table.claims.map((claim) => ({ claim, key: claimKey(claim.claim) }));
+
+  // union-find over conflicting claims
+  const parent = candidates.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const kinds = new Map<number, Conflict["kind"]>();
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      if (claimSimilarity(a.key, b.key) < topicSimilarity) continue;
+      if (!fromDifferentOrganizations(a.claim, b.claim)) continue;
+      const kind = conflictKind(a.key, b.key);
+      if (!kind) continue;
+
+      const [ri, rj] = [root(i), root(j)];
+      const merged = kinds.get(ri) === "numeric" || kinds.get(rj) === "numeric" || kind === "numeric";
+      parent[rj] = ri;
+      kinds.delete(rj);
+      kinds.set(ri, merged ? "numeric" : "polarity");
+    }
+  }
+
+  const groups = new Map<number, Candidate[]>();
+  candidates.forEach((c, i) => {
+    const r = root(i);
+    if (!kinds.has(r)) return;
+    groups.set(r, [...(groups.get(r) ?? []), c]);
+  });
+
+  const { minIndependentSources } = RESEARCH_CONFIG.corroboration;
+  return [...groups.entries()]
+    .map(([r, members]) => {
+      const sides = members
+        .map(({ claim }) => ({
+          claim: claim.claim,
+          numbers: claim.numbers,
+          sourceNumbers: [...new Set(claim.support.map((s) => numberOf.get(s.url)))]
+            .filter((n): n is number => n !== undefined)
+            .sort((x, y) => x - y),
+          organizations: claim.independentSources,
+        }))
+        .sort((x, y) => y.organizations - x.organizations);
+      const resolved =
+        sides[0].organizations >= minIndependentSources && sides.slice(1).every((s) => s.organizations === 1);
+      return { kind: kinds.get(r)!, sides, resolved };
+    })
+    .filter((c) => c.sides.every((s) => s.sourceNumbers.length))
+    .sort((x, y) => Number(x.resolved) - Number(y.resolved))
+    .slice(0, maxConflicts)
+    .map((c, i) => ({ id: i + 1, ...c }));
+}
+
+function fromDifferentOrganizations(a: CorroboratedClaim, b: CorroboratedClaim): boolean {
+  const orgs = new Set([...a.support, ...b.support].map((s) => s.organization));
+  return orgs.size > 1;
+}
+
+function conflictKind(a: ClaimKey, b: ClaimKey): Conflict["kind"] | undefined {
+  if (a.negated !== b.negated) return "polarity";
+
+  const ma = measuredFigures(a);
+  const mb = measuredFigures(b);
+  if (!ma.length || !mb.length) return undefined;
+  // different years: a change over time, not a disagreement
+  const ya = a.numbers.filter((n) => !ma.includes(n));
+  const yb = b.numbers.filter((n) => !mb.includes(n));
+  if (ya.length && yb.length && !ya.some((y) => yb.includes(y))) return undefined;
+
+  const { numericTolerance } = RESEARCH_CONFIG.contradictions;
+  const close = (x: number, y: number) => Math.abs(x - y) <= numericTolerance * Math.max(Math.abs(x), Math.abs(y));
+  return ma.some((x) => mb.some((y) => close(Number(x), Number(y)))) ? undefined : "numeric";
+}
+
+export function unresolvedConflicts(conflicts: Conflict[]): Conflict[] {
+  return conflicts.filter((c) => !c.resolved);
+}
+
+/**
+ * Report uncertainty line for a conflict, citing the sources on each side.
+ */
+export function conflictNote(conflict: Conflict, lang: OutputLanguage): string {
+  const sides = conflict.sides.map((s) => `“${s.claim}” ${s.sourceNumbers.map((n) => `[${n}]`).join("")}`);
+  return messages(lang).conflicts.note(sides);
+}
+
+/**
+ * Adds a note per unresolved conflict to the report uncertainties (replacing
+ * the "no significant uncertainties" placeholder), unless the model already
+ * wrote the same note; at most `maxNotes` notes, strongest conflicts first.
+ */
+export function withConflictNotes<T extends ReportContent>(report: T, conflicts: Conflict[], lang: OutputLanguage): T {
+  const notes = [...new Set(unresolvedConflicts(conflicts).map((c) => conflictNote(c, lang)))]
+    .filter((n) => !report.recommendation.uncertainties.includes(n))
+    .slice(0, RESEARCH_CONFIG.contradictions.maxNotes);
+  if (!notes.length) return report;
+  const kept = report.recommendation.uncertainties.filter((u) => u !== NO_SIGNIFICANT_UNCERTAINTIES[lang]);
+  return { ...report, recommendation: { ...report.recommendation, uncertainties: [...kept, ...notes] } };
+}
@@ -0,0 +1,92 @@
+// src/lib/research/corroboration.test.ts
+import { describe, it, expect } from "vitest";
+import type { Source } from "@/types/research";
+import { buildCorroborationTable, claimKey, extractClaims, organizationOf } from "@/lib/research/corroboration";
+import { failedGateRules, gateRulesFor, scoreSourcesAndGate } from "@/lib/research/scoring";
+
+function src(url: string, content: string): Source {
+  return { url, title: url, snippet: "", content, provider: "tavily" };
+}
+
+const ADOPTION = "The survey found that 64% of mid-sized firms now use a hosted CRM platform.";
+const ADOPTION_REWORDED = "According to the annual survey, 64% of mid-sized firms use a hosted CRM platform today.";
+
+describe("organizationOf", () => {
+  it("reduces hosts to one organisation", () => {
+    expect(organizationOf("https://news.bbc.co.uk/a")).toBe("bbc.com");
+    expect(organizationOf("https://www.bbc.com/b")).toBe("bbc.com");
+    expect(organizationOf("https://blog.example.com/c")).toBe("example.com");
+    expect(organizationOf("https://www.marketwatch.com/d")).toBe("wsj.com");
+    expect(organizationOf("https://data.gov.uk/e")).toBe("data.gov.uk");
+    expect(organizationOf("nope")).toBe("");
+  });
+});
+
+describe("extractClaims", () => {
+  it("keeps declarative sentences of claim length and prefers figures", () => {
+    const outcome = "Most teams reported shorter sales cycles after the switch.";
+    const claims = extractClaims({
+      snippet: "",
+      content: `Pricing. Is a hosted CRM worth it for a small team? ${ADOPTION} ${outcome}`,
+    });
+    expect(claims).toEqual([ADOPTION, outcome]);
+  });
+});
+
+describe("claimKey", () => {
+  it("reads grouping separators, decimal marks and scale words", () => {
+    expect(claimKey("Costs rose from 1,000 to 2,500,000 (12,345.67 per seat).").numbers).toEqual([
+      "1000",
+      "2500000",
+      "12345.67",
+    ]);
+    expect(claimKey("Kosten: 2.500.000,5 euro, 3,14 per uur en 2.5 million users in 2019.").numbers).toEqual([
+      "2500000.5",
+      "3.14",
+      "2500000",
+      "2019",
+    ]);
+  });
+});
+
+describe("buildCorroborationTable", () => {
+  it("counts related sites once and keeps different figures apart", () => {
+    const table = buildCorroborationTable([
+      src("https://www.bbc.com/crm", ADOPTION),
+      src("https://news.bbc.co.uk/crm", ADOPTION_REWORDED),
+      src("https://analyst.io/crm", ADOPTION_REWORDED),
+      src("https://vendor.com/crm", "The survey found that 71% of mid-sized firms now use a hosted CRM platform."),
+    ]);
+
+    expect(table.claims[0]).toMatchObject({ claim: ADOPTION, numbers: ["64"], independentSources: 2 });
+    expect(table.claims[0].corroborated).toBe(true);
+    expect(table.claims[0].support.map((s) => s.organization)).toEqual(["bbc.com", "bbc.com", "analyst.io"]);
+    expect(table.claims[1]).toMatchObject({ numbers: ["71"], independentSources: 1, corroborated: false });
+    expect(table).toMatchObject({ corroborated: 1, singleSource: 1, organizations: 3 });
+  });
+
+  it("is not corroborated when only one organisation repeats a claim", () => {
+    const table = buildCorroborationTable([
+      src("https://www.bbc.com/crm", ADOPTION),
+      src("https://news.bbc.co.uk/crm", ADOPTION_REWORDED),
+    ]);
+    expect(table.claims).toHaveLength(1);
+    expect(table.claims[0]).toMatchObject({ independentSources: 1, corroborated: false });
+  });
+});
+
+describe("corroboration gate rule", () => {
+  it("only applies for low risk tolerance", () => {
+    const { metrics, corroboration } = scoreSourcesAndGate([
+      src("https://a.com/x", ADOPTION),
+      src("https://b.com/y", ADOPTION_REWORDED),
+    ]);
+    expect(metrics.corroboratedClaims).toBe(corroboration.corroborated);
+    expect(metrics.corroboratedClaims).toBe(1);
+
+    const rules = (riskTolerance: "low" | "medium") =>
+      failedGateRules(metrics, gateRulesFor({ riskTolerance })).map((f) => f.rule);
+    expect(rules("low")).toContain("minCorroboratedClaims");
+    expect(rules("medium")).not.toContain("minCorroboratedClaims");
+  });
+});
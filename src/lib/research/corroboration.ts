@@ -0,0 +1,220 @@
+// src/lib/research/corroboration.ts
+import type { Source } from "@/types/research";
+import { RESEARCH_CONFIG } from "@/config/research";
+import { hostOf, registrableDomain } from "@/lib/research/util";
+
+export type ClaimSupport = { url: string; organization: string; sentence: string };
+
+export type CorroboratedClaim = {
+  // 1-based, in table order
+  id: number;
+  // wording from the best-ranked source that makes the claim
+  claim: string;
+  numbers: string[];
+  // one entry per source
+  support: ClaimSupport[];
+  // distinct organisations among the supporting sources
+  independentSources: number;
+  corroborated: boolean;
+};
+
+export type CorroborationTable = {
+  claims: CorroboratedClaim[];
+  corroborated: number;
+  singleSource: number;
+  // distinct organisations across all sources
+  organizations: number;
+};
+
+let sisterIndex: Map<string, string> | undefined;
+
+/**
+ * Registrable domain of the URL, with known sister sites mapped onto one
+ * name: news.bbc.co.uk and bbc.com both belong to "bbc.com".
+ */
+export function organizationOf(url: string): string {
+  const host = hostOf(url);
+  if (!host) return "";
+  const domain = registrableDomain(host);
+
+  if (!sisterIndex) {
+    sisterIndex = new Map();
+    for (const group of RESEARCH_CONFIG.corroboration.sisterSites) {
+      for (const d of group) sisterIndex.set(d, group[0]);
+    }
+  }
+  return sisterIndex.get(domain) ?? sisterIndex.get(host) ?? domain;
+}
+
+const CLAIM_VERBS = new RegExp(
+  "\\b(is|are|was|were|has|have|had|shows?|showed|found|finds|reports?|reported|increase[sd]?|reduce[sd]?|" +
+    "costs?|requires?|supports?|improves?|outperforms?|leads?|causes?|results? in|grew|fell|rose)\\b",
+  "i"
+);
+
+/**
+ * Claim-like sentences from the source text: declarative, of reasonable
+ * length, with figures preferred. Questions and headings are skipped.
+ */
+export function extractClaims(source: Pick<Source, "snippet" | "content">): string[] {
+  const { maxClaimsPerSource, minWords, maxWords } = RESEARCH_CONFIG.corroboration;
+  const text = `${source.content || source.snippet || ""}`.slice(0, 8000).replace(/\s+/g, " ");
+
+  const candidates = text
+    .split(/(?<=[.!?])\s+(?=["“(]?[A-Z0-9])/)
+    .map((s) => s.trim())
+    .filter((s) => /[.!]$/.test(s))
+    .map((sentence, order) => {
+      const words = sentence.split(" ").length;
+      if (words < minWords || words > maxWords) return null;
+      const weight = (/\d/.test(sentence) ? 2 : 0) + (CLAIM_VERBS.test(sentence) ? 1 : 0);
+      return weight ? { sentence, order, weight } : null;
+    })
+    .filter((c): c is { sentence: string; order: number; weight: number } => c !== null);
+
+  return candidates
+    .sort((a, b) => b.weight - a.weight || a.order - b.order)
+    .slice(0, maxClaimsPerSource)
+    .sort((a, b) => a.order - b.order)
+    .map((c) => c.sentence);
+}
+
+const STOPWORDS = new Set(
+  (
+    "a an the and or but of to in on at for with by from as is are was were be been being has have had it its " +
+    "this that these those than then there their they we our you your he she his her which who whom what when " +
+    "where while also not no can could may might will would should about into over under more most less very"
+  ).split(" ")
+);
+
+export type ClaimKey = {
+  terms: Set<string>;
+  numbers: string[];
+  // odd number of negations ("not", "no", ...) and negative verbs ("decreased", "fell", ...)
+  negated: boolean;
+};
+
+const NEGATIONS = new Set(
+  ["not", "no", "never", "none", "cannot", "without", "doesn", "isn", "aren", "wasn", "didn", "don"]
+);
+// negative stem -> positive stem, so "costs fell" and "costs rose" share their terms
+const OPPOSITES: Record<string, string> = {
+  decreas: "increas",
+  declin: "increas",
+  reduc: "increas",
+  drop: "increas",
+  dropp: "increas",
+  fell: "ros",
+  fall: "ris",
+  lower: "higher",
+  wors: "better",
+  underperform: "outperform",
+  fail: "succeed",
+};
+
+// A grouped number (1,000 or 2.500.000, one separator kind) or a plain one, optionally with a scale word.
+const FIGURE = /(\d{1,3}(?:([.,])\d{3})(?:\2\d{3})*(?!\d)(?:[.,]\d+)?|\d+(?:[.,]\d+)?)(?:\s*(thousand|million|billion)\b)?/gi;
+const SCALE: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+/**
+ * Reads a figure as a plain decimal string: "2,500,000" and "2.5 million" both become "2500000".
+ * A separator before exactly three digits groups thousands, any other one is the decimal mark.
+ */
+function parseFigure(digits: string, grouping: string | undefined, scale: string | undefined): string {
+  let plain = digits;
+  if (grouping) {
+    const lastGroup = plain.lastIndexOf(grouping) + 4;
+    plain = plain.slice(0, lastGroup).split(grouping).join("") + plain.slice(lastGroup);
+  }
+  const value = Number(plain.replace(",", ".")) * (scale ? SCALE[scale.toLowerCase()] : 1);
+  return String(Number(value.toPrecision(12)));
+}
+
+// Content words (lightly stemmed), figures and polarity; two sentences with the same key say the same thing.
+export function claimKey(sentence: string): ClaimKey {
+  const figures = [...sentence.matchAll(FIGURE)].map((m) => parseFigure(m[1], m[2], m[3]));
+  const numbers = [...new Set(figures)];
+  const terms = new Set<string>();
+  let negated = false;
+  for (const word of sentence.toLowerCase().match(/\p{L}+/gu) ?? []) {
+    if (NEGATIONS.has(word)) negated = !negated;
+    if (word.length <= 2 || STOPWORDS.has(word) || NEGATIONS.has(word)) continue;
+    const stem = word.replace(/(ies|es|s|ed|ing)$/, "").replace(/e$/, "");
+    const positive = OPPOSITES[stem];
+    if (positive) negated = !negated;
+    terms.add(positive ?? stem);
+  }
+  return { terms, numbers, negated };
+}
+
+export function claimSimilarity(a: ClaimKey, b: ClaimKey): number {
+  if (!a.terms.size || !b.terms.size) return 0;
+  let shared = 0;
+  for (const t of a.terms) if (b.terms.has(t)) shared++;
+  return shared / (a.terms.size + b.terms.size - shared);
+}
+
+/**
+ * Clusters equivalent claims across sources and counts the independent
+ * organisations behind each. Sources are expected best first; the first
+ * source of a cluster supplies its wording. Claims with figures only match
+ * when they share a figure, so "grew 5%" and "grew 9%" stay apart, and a
+ * negated claim never matches its positive form.
+ */
+export function buildCorroborationTable(sources: Source[]): CorroborationTable {
+  const { claimSimilarity: threshold, minIndependentSources } = RESEARCH_CONFIG.corroboration;
+  const clusters: Array<{ key: ClaimKey; claim: string; support: ClaimSupport[] }> = [];
+
+  for (const s of sources) {
+    const organization = organizationOf(s.url);
+    for (const sentence of extractClaims(s)) {
+      const key = claimKey(sentence);
+      const match = clusters.find(
+        (c) =>
+          c.key.negated === key.negated &&
+          sameFigures(c.key, key) &&
+          claimSimilarity(c.key, key) >= threshold &&
+          !c.support.some((x) => x.url === s.url)
+      );
+      if (match) match.support.push({ url: s.url, organization, sentence });
+      else clusters.push({ key, claim: sentence, support: [{ url: s.url, organization, sentence }] });
+    }
+  }
+
+  const claims = clusters
+    .map((c) => {
+      const independentSources = new Set(c.support.map((x) => x.organization)).size;
+      return {
+        claim: c.claim,
+        numbers: c.key.numbers,
+        support: c.support,
+        independentSources,
+        corroborated: independentSources >= minIndependentSources,
+      };
+    })
+    .sort((a, b) => b.independentSources - a.independentSources || b.support.length - a.support.length)
+    .map((c, i) => ({ id: i + 1, ...c }));
+
+  return {
+    claims,
+    corroborated: claims.filter((c) => c.corroborated).length,
+    singleSource: claims.filter((c) => c.independentSources === 1).length,
+    organizations: new Set(sources.map((s) => organizationOf(s.url)).filter(Boolean)).size,
+  };
+}
+
+const YEAR = /^(19|20)\d\d$/;
+
+/**
+ * Figures of a claim without the years, which only say when it was measured.
+ */
+export function measuredFigures(key: Pick<ClaimKey, "numbers">): string[] {
+  return key.numbers.filter((n) => !YEAR.test(n));
+}
+
+function sameFigures(a: ClaimKey, b: ClaimKey): boolean {
+  const fa = measuredFigures(a);
+  const fb = measuredFigures(b);
+  if (!fa.length || !fb.length) return fa.length === fb.length;
+  return fa.some((n) => fb.includes(n));
+}
@@ -0,0 +1,102 @@
+// src/lib/research/decisionStage.test.ts
+import { describe, it, expect } from "vitest";
+import type { Report } from "@/lib/research/report.Schema";
+import type { OpenAIDecision } from "@/lib/research/openaiDecision";
+import { buildEvidenceSummary, confidenceLevelFor, reconcileDecision } from "@/lib/research/decisionStage";
+
+function mkReport(uncertainties: string[]): Report {
+  return {
+    summaryBullets: ["a", "b", "c", "d", "e"],
+    summaryText: "Summary.",
+    recommendation: { choice: "Adopt it", why: ["x", "y", "z"], conditions: [], uncertainties },
+    research: [{ title: "Section", intro: "i".repeat(20), content: "c".repeat(200), conclusion: "k".repeat(40) }],
+    sources: [{ sourceNumber: 1, title: "S", url: "https://a.com" }],
+  };
+}
+
+function mkDecision(over: Partial<OpenAIDecision> = {}): OpenAIDecision {
+  return {
+    recommendation: "Adopt it",
+    rationale: "Because [1].",
+    risks: ["Vendor lock-in"],
+    unknowns: [],
+    confidence: "medium",
+    ...over,
+  };
+}
+
+describe("buildEvidenceSummary", () => {
+  it("lists gate outcome, coverage and the best sources first", () => {
+    const summary = buildEvidenceSummary({
+      goal: "Pick a database",
+      research: {
+        decisionStatus: "EVIDENCE_SUFFICIENT",
+        confidenceOverview: { overall: 0.72, rationale: "" },
+        gateMetrics: { sources: 14, uniqueDomains: 8, avgScore: 0.5, topSourceScore: 0.9, top3AvgScore: 0.8, lowInfoRatio: 0.1, lowTrustRatio: 0, recentSources: 0, corroboratedClaims: 0, unresolvedConflicts: 0, searchCoverage: 1 },
+        buckets: [
+          { bucket: "OptionsLandscape", sources: 3, uniqueDomains: 3, outcome: "positive", subquestions: [] },
+          { bucket: "RisksEdgeCases", sources: 0, uniqueDomains: 0, outcome: "negative", subquestions: [] },
+        ],
+      },
+      sources: [
+        { sourceNumber: 1, title: "Low", url: "https://low.com/x", snippet: "low snippet", score: 0.2 },
+        { sourceNumber: 2, title: "High", url: "https://www.high.org/y", snippet: "ignored", passages: ["the passage"], score: 0.9 },
+      ],
+    });
+
+    expect(summary).toContain("Evidence gate: EVIDENCE_SUFFICIENT (confidence 72%)");
+    expect(summary).toContain("OptionsLandscape: 3 sources (positive); RisksEdgeCases: 0 sources (negative)");
+    expect(summary.indexOf("[2] (score 0.90, high.org) High")).toBeLessThan(summary.indexOf("[1] (score 0.20"));
+    expect(summary).toContain("    the passage");
+  });
+});
+
+describe("confidenceLevelFor", () => {
+  it("maps pipeline confidence to a level", () => {
+    expect(confidenceLevelFor(0.3)).toBe("low");
+    expect(confidenceLevelFor(0.65)).toBe("medium");
+    expect(confidenceLevelFor(0.85)).toBe("high");
+  });
+});
+
+describe("reconcileDecision", () => {
+  it("replaces the no-uncertainties sentence with the decision's unknowns", () => {
+    const out = reconcileDecision({
+      decision: mkDecision({ unknowns: ["Pricing after the first year is not published"] }),
+      report: mkReport(["No significant uncertainties identified."]),
+      overallConfidence: 0.7,
+      lang: "en",
+    });
+
+    expect(out.report.recommendation.uncertainties).toEqual(["Pricing after the first year is not published"]);
+    expect(out.crossCheck.addedUncertainties).toHaveLength(1);
+    expect(out.crossCheck.issues[0]).toMatch(/no significant uncertainties/);
+  });
+
+  it("merges both lists without duplicating items that are already mentioned", () => {
+    const out = reconcileDecision({
+      decision: mkDecision({ unknowns: ["Long-term pricing is unclear", "Migration effort unknown"] }),
+      report: mkReport(["Pricing beyond year one is unclear [2].", "Support quality in Europe"]),
+      overallConfidence: 0.7,
+      lang: "en",
+    });
+
+    expect(out.crossCheck.addedUncertainties).toEqual(["Migration effort unknown"]);
+    expect(out.crossCheck.addedUnknowns).toEqual(["Support quality in Europe"]);
+    expect(out.report.recommendation.uncertainties).toHaveLength(3);
+    expect(out.decision.unknowns).toHaveLength(3);
+  });
+
+  it("caps the model's confidence at what the evidence supports", () => {
+    const out = reconcileDecision({
+      decision: mkDecision({ confidence: "high" }),
+      report: mkReport(["Geen significante onzekerheden geïdentificeerd."]),
+      overallConfidence: 0.35,
+      lang: "nl",
+    });
+
+    expect(out.decision.confidence).toBe("low");
+    expect(out.crossCheck).toMatchObject({ modelConfidence: "high", confidenceCapped: true });
+    expect(out.report.recommendation.uncertainties).toEqual(["Geen significante onzekerheden geïdentificeerd."]);
+  });
+});
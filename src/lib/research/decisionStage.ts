@@ -0,0 +1,167 @@
+// src/lib/research/decisionStage.ts
+import type { OutputLanguage } from "@/types/research";
+import type { PipelineOutput } from "@/lib/research/pipeline";
+import type { OpenAIDecision } from "@/lib/research/openaiDecision";
+import { NO_SIGNIFICANT_UNCERTAINTIES, type Report } from "@/lib/research/report.Schema";
+import { hostOf } from "@/lib/research/util";
+
+export type ConfidenceLevel = OpenAIDecision["confidence"];
+
+export type DecisionCrossCheck = {
+  // decision unknowns the report did not mention; appended to recommendation.uncertainties
+  addedUncertainties: string[];
+  // report uncertainties the decision did not mention; appended to decision.unknowns
+  addedUnknowns: string[];
+  // what the model answered before capping to what the evidence gate supports
+  modelConfidence: ConfidenceLevel;
+  confidenceCapped: boolean;
+  issues: string[];
+};
+
+export type DecisionStage = {
+  decision: OpenAIDecision;
+  crossCheck: DecisionCrossCheck;
+};
+
+export type EvidenceSource = {
+  sourceNumber: number;
+  title: string;
+  url: string;
+  snippet: string;
+  passages?: string[];
+  score?: number;
+};
+
+const LEVELS: ConfidenceLevel[] = ["low", "medium", "high"];
+
+/**
+ * Compact, numbered evidence for the decision stage: gate outcome, bucket
+ * coverage and the best sources with one passage (or snippet) each.
+ */
+export function buildEvidenceSummary(args: {
+  goal: string;
+  research: Pick<PipelineOutput, "decisionStatus" | "confidenceOverview" | "gateMetrics" | "buckets">;
+  sources: EvidenceSource[];
+  maxSources?: number;
+}): string {
+  const { research } = args;
+  const m = research.gateMetrics;
+
+  const coverage = research.buckets
+    .map((b) => `${b.bucket}: ${b.sources} sources (${b.outcome})`)
+    .join("; ");
+
+  const top = [...args.sources]
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, args.maxSources ?? 12)
+    .map((s) => {
+      const evidence = (s.passages?.[0] ?? s.snippet ?? "").replace(/\s+/g, " ").trim();
+      const clipped = evidence.length > 400 ? `${evidence.slice(0, 399)}…` : evidence;
+      return `[${s.sourceNumber}] (score ${(s.score ?? 0).toFixed(2)}, ${hostOf(s.url) || "unknown"}) ${s.title}\n    ${clipped}`;
+    });
+
+  return [
+    `Goal: ${args.goal}`,
+    `Evidence gate: ${research.decisionStatus} (confidence ${Math.round(research.confidenceOverview.overall * 100)}%)`,
+    `Gate metrics: ${m.sources} sources, ${m.uniqueDomains} domains, avg score ${m.avgScore.toFixed(2)}, top-3 avg ${m.top3AvgScore.toFixed(2)}, low-info ratio ${m.lowInfoRatio.toFixed(2)}, low-trust ratio ${m.lowTrustRatio.toFixed(2)}`,
+    `Coverage: ${coverage || "n/a"}`,
+    "",
+    "Top sources:",
+    ...(top.length ? top : ["(none)"]),
+  ].join("\n");
+}
+
+/**
+ * Highest confidence the evidence gate supports. A failed gate never exceeds "low".
+ */
+export function confidenceLevelFor(overall: number): ConfidenceLevel {
+  if (overall >= 0.8) return "high";
+  if (overall >= 0.6) return "medium";
+  return "low";
+}
+
+/**
+ * Makes the decision stage and the report agree: each side gets the other's
+ * unknowns/uncertainties it did not mention, the "no significant uncertainties"
+ * sentence is dropped when there are some, and the model's confidence is capped
+ * at what the pipeline's confidence supports.
+ */
+export function reconcileDecision(args: {
+  decision: OpenAIDecision;
+  report: Report;
+  overallConfidence: number;
+  lang: OutputLanguage;
+}): { decision: OpenAIDecision; report: Report; crossCheck: DecisionCrossCheck } {
+  const { decision, report } = args;
+  const issues: string[] = [];
+  const sentinels = new Set<string>(Object.values(NO_SIGNIFICANT_UNCERTAINTIES));
+
+  const reportUncertainties = report.recommendation.uncertainties.filter((u) => !sentinels.has(u.trim()));
+  const saidNone = reportUncertainties.length < report.recommendation.uncertainties.length;
+
+  const addedUncertainties = decision.unknowns.filter((u) => !mentions(reportUncertainties, u));
+  const addedUnknowns = reportUncertainties.filter((u) => !mentions(decision.unknowns, u));
+
+  if (saidNone && (reportUncertainties.length || addedUncertainties.length)) {
+    issues.push("Report stated no significant uncertainties, but uncertainties were identified.");
+  }
+  if (addedUncertainties.length) {
+    issues.push(`Decision unknowns missing from the report's uncertainties: ${addedUncertainties.length}.`);
+  }
+  if (addedUnknowns.length) {
+    issues.push(`Report uncertainties missing from the decision's unknowns: ${addedUnknowns.length}.`);
+  }
+
+  const allowed = confidenceLevelFor(args.overallConfidence);
+  const confidenceCapped = LEVELS.indexOf(decision.confidence) > LEVELS.indexOf(allowed);
+  if (confidenceCapped) {
+    issues.push(
+      `Decision confidence "${decision.confidence}" exceeds what the evidence supports ("${allowed}"); capped.`
+    );
+  }
+
+  const uncertainties = [...reportUncertainties, ...addedUncertainties];
+
+  return {
+    decision: {
+      ...decision,
+      unknowns: [...decision.unknowns, ...addedUnknowns],
+      confidence: confidenceCapped ? allowed : decision.confidence,
+    },
+    report: {
+      ...report,
+      recommendation: {
+        ...report.recommendation,
+        uncertainties: uncertainties.length ? uncertainties : [NO_SIGNIFICANT_UNCERTAINTIES[args.lang]],
+      },
+    },
+    crossCheck: {
+      addedUncertainties,
+      addedUnknowns,
+      modelConfidence: decision.confidence,
+      confidenceCapped,
+      issues,
+    },
+  };
+}
+
+// An item counts as mentioned when one entry shares at least half of its key terms.
+function mentions(list: string[], item: string): boolean {
+  const terms = keyTerms(item);
+  if (!terms.length) return list.some((l) => l.trim().toLowerCase() === item.trim().toLowerCase());
+  return list.some((l) => {
+    const other = new Set(keyTerms(l));
+    return terms.filter((t) => other.has(t)).length / terms.length >= 0.5;
+  });
+}
+
+function keyTerms(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((w) => w.length >= 4)
+    )
+  );
+}
@@ -0,0 +1,113 @@
+// src/lib/research/dedupe.test.ts
+import { describe, it, expect } from "vitest";
+import type { Source } from "@/types/research";
+import { canonicalizeUrl, dedupeSources, estimateJaccard, minhashSignature } from "@/lib/research/dedupe";
+import { scoreSourcesAndGate } from "@/lib/research/scoring";
+import { runResearchPipeline } from "@/lib/research/pipeline";
+
+const ARTICLE =
+  "The central bank raised its policy rate by a quarter point on Tuesday, citing persistent inflation in services " +
+  "and a labour market that remains tighter than expected. Officials signalled that further increases are possible " +
+  "if wage growth does not slow in the coming months, while several members argued for a pause to assess the impact " +
+  "of earlier hikes on lending and housing.";
+
+function src(url: string, over: Partial<Source> = {}): Source {
+  return { url, title: url, snippet: "", content: "", provider: "tavily", ...over };
+}
+
+describe("canonicalizeUrl", () => {
+  it("maps scheme, mirror hosts, AMP, tracking parameters and trailing slashes to one key", () => {
+    const key = "https://example.com/news/story?id=7";
+    expect(canonicalizeUrl("http://www.example.com/news/story/?utm_source=x&id=7#top")).toBe(key);
+    expect(canonicalizeUrl("https://m.example.com/news/story/amp?id=7&fbclid=abc")).toBe(key);
+    expect(canonicalizeUrl("https://amp.example.com/amp/news/story?id=7")).toBe(key);
+    expect(canonicalizeUrl("https://www.google.com/amp/s/example.com/news/story?id=7")).toBe(key);
+    expect(canonicalizeUrl("https://example.com/a?b=2&a=1")).toBe("https://example.com/a?a=1&b=2");
+    expect(canonicalizeUrl("https://example.com")).toBe("https://example.com/");
+    expect(canonicalizeUrl("not a url")).toBe("not a url");
+  });
+
+  it("keeps query parameters that select content", () => {
+    const base = "https://example.com/data";
+    expect(canonicalizeUrl(`${base}?output=csv&ref=v2`)).toBe(`${base}?output=csv&ref=v2`);
+    expect(canonicalizeUrl(`${base}?outputType=amp&amp=1&gclid=x`)).toBe(base);
+    expect(canonicalizeUrl(`${base}?outputType=json`)).toBe(`${base}?outputType=json`);
+  });
+
+  it("never strips a mirror label that belongs to the registrable domain", () => {
+    expect(canonicalizeUrl("https://amp.dev/documentation")).toBe("https://amp.dev/documentation");
+    expect(canonicalizeUrl("https://www.mobile.de/auto")).toBe("https://mobile.de/auto");
+    expect(canonicalizeUrl("https://m.www.example.com/")).toBe("https://example.com/");
+    expect(canonicalizeUrl("https://m.bbc.co.uk/news")).toBe("https://bbc.co.uk/news");
+    expect(canonicalizeUrl("https://amp.co.uk/")).toBe("https://amp.co.uk/");
+  });
+});
+
+describe("minhash", () => {
+  it("estimates high similarity for lightly edited copies and none for short text", () => {
+    const a = minhashSignature(ARTICLE)!;
+    const b = minhashSignature(`${ARTICLE} Reporting by Jane Doe.`)!;
+    const c = minhashSignature(ARTICLE.split(" ").reverse().join(" "))!;
+    expect(estimateJaccard(a, b)).toBeGreaterThan(0.8);
+    expect(estimateJaccard(a, c)).toBeLessThan(0.2);
+    expect(minhashSignature("too short to compare")).toBeNull();
+  });
+});
+
+describe("dedupeSources", () => {
+  it("merges URL variants and syndicated copies into the first source", () => {
+    const { sources, merges } = dedupeSources([
+      src("https://news.com/rates", { content: ARTICLE, publishedDate: "2026-03-04" }),
+      src("http://www.news.com/rates/?utm_medium=social", { snippet: "Rates up" }),
+      src("https://wire.org/story/123", { content: `${ARTICLE} (Syndicated)`, publishedDate: "2026-03-03" }),
+      src("https://other.com/unrelated", { content: ARTICLE.split(" ").reverse().join(" ") }),
+    ]);
+
+    expect(sources.map((s) => s.url)).toEqual(["https://news.com/rates", "https://other.com/unrelated"]);
+    expect(sources[0]).toMatchObject({
+      snippet: "Rates up",
+      publishedDate: "2026-03-03",
+      alternateUrls: ["http://www.news.com/rates/?utm_medium=social", "https://wire.org/story/123"],
+    });
+    expect(merges.map((m) => m.reason)).toEqual(["canonical-url", "near-duplicate"]);
+    expect(merges[1].similarity).toBeGreaterThan(0.8);
+  });
+
+  it("counts merged copies once in the gate metrics", () => {
+    const copies = ["https://a.com/x", "https://b.com/x", "https://c.com/x"].map((u) => src(u, { content: ARTICLE }));
+    const { metrics } = scoreSourcesAndGate(dedupeSources(copies).sources);
+    expect(metrics).toMatchObject({ sources: 1, uniqueDomains: 1 });
+  });
+
+  it("counts mirror hosts of one site as one domain", () => {
+    const pages = ["https://example.com/a", "https://m.example.com/b", "https://amp.example.com/c", "https://amp.dev/d"];
+    const { metrics } = scoreSourcesAndGate(pages.map((u, i) => src(u, { content: `Topic ${i} ${"x".repeat(i * 50)}` })));
+    expect(metrics).toMatchObject({ sources: 4, uniqueDomains: 2 });
+  });
+});
+
+describe("dedupe in the pipeline", () => {
+  it("records merges per pass and keeps one source per page", async () => {
+    let n = 0;
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      {
+        searcher: async () => {
+          n++;
+          return [src(`https://site${n}.com/a`), src(`http://www.site${n}.com/a/`), src("https://same.com/x")];
+        },
+        includeDebug: true,
+        budget: { maxIterations: 0 },
+      }
+    );
+
+    expect(out.sources.filter((s) => s.url.includes("same.com"))).toHaveLength(1);
+    expect(out.debug?.passes[0].merged?.[0]).toEqual({
+      url: "http://www.site1.com/a/",
+      into: "https://site1.com/a",
+      reason: "canonical-url",
+    });
+    const site1 = out.sources.find((s) => s.url === "https://site1.com/a");
+    expect(site1?.alternateUrls).toEqual(["http://www.site1.com/a/"]);
+  });
+});
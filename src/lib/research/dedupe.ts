@@ -0,0 +1,218 @@
+// src/lib/research/dedupe.ts
+import type { Source } from "@/types/research";
+import { RESEARCH_CONFIG } from "@/config/research";
+import { registrableDomain } from "@/lib/research/util";
+
+export type DuplicateMerge = {
+  url: string;
+  // URL of the source it was merged into
+  into: string;
+  reason: "canonical-url" | "near-duplicate";
+  // estimated Jaccard similarity, near-duplicates only
+  similarity?: number;
+};
+
+export type DedupeResult = { sources: Source[]; merges: DuplicateMerge[] };
+
+// click ids and campaign tags only; generic names like `ref` or `output` often select content
+const TRACKING_PARAM = new RegExp(
+  "^(utm_\\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|mc_cid|mc_eid|igshid|_ga|_gl|" +
+    "ref_src|spm|cmpid|ocid|at_medium|at_campaign)$",
+  "i"
+);
+
+// `?amp` / `?amp=1`, and `outputType=amp`: the AMP rendering of the same page
+function isAmpParam(key: string, value: string): boolean {
+  return /^amp$/i.test(key) || (/^outputtype$/i.test(key) && /^amp$/i.test(value));
+}
+
+// mobile, AMP and www hosts serve the same page as the bare domain (see canonicalHost)
+const MIRROR_HOST = /^(www\d*|m|mobile|amp)\./;
+
+/**
+ * One key per page: https, no mirror host prefix, no AMP path, no tracking
+ * parameters, sorted query, no fragment or trailing slash. Non-http(s) and
+ * unparseable URLs are returned trimmed.
+ */
+export function canonicalizeUrl(raw: string): string {
+  let u: URL;
+  try {
+    u = new URL(raw.trim());
+  } catch {
+    return raw.trim();
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return raw.trim();
+
+  // Google AMP cache: https://www.google.com/amp/s/example.com/story
+  const ampCache = /^\/amp\/s\/(.+)$/.exec(u.pathname);
+  if (ampCache && /(^|\.)google\.[a-z.]+$/.test(u.hostname)) {
+    return canonicalizeUrl(`https://${ampCache[1]}${u.search}`);
+  }
+
+  const host = canonicalHost(u.hostname);
+
+  let path = u.pathname
+    .replace(/\/{2,}/g, "/")
+    .replace(/\/amp(\.html)?\/?$/i, "")
+    .replace(/^\/amp\//i, "/")
+    .replace(/\/index\.(html?|php)$/i, "/");
+  if (path.length > 1) path = path.replace(/\/+$/, "");
+
+  const params = [...u.searchParams]
+    .filter(([k, v]) => !TRACKING_PARAM.test(k) && !isAmpParam(k, v))
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+  const query = params.length ? `?${new URLSearchParams(params)}` : "";
+
+  return `https://${host}${u.port ? `:${u.port}` : ""}${path || "/"}${query}`;
+}
+
+/**
+ * Host name without mirror prefixes: m.example.com and amp.example.com become
+ * example.com. A prefix is only stripped above the registrable domain, so
+ * amp.dev and mobile.de stay as they are.
+ */
+export function canonicalHost(hostname: string): string {
+  let host = hostname.toLowerCase();
+  const minLabels = Math.max(2, registrableDomain(host).split(".").length);
+  while (MIRROR_HOST.test(host) && host.split(".").length > minLabels) host = host.replace(MIRROR_HOST, "");
+  return host;
+}
+
+/**
+ * Merges sources that are the same page (same canonical URL) or the same text
+ * (MinHash over snippet + content, e.g. syndicated copies). The first source
+ * in input order stays; the others become its `alternateUrls`.
+ */
+export function dedupeSources(sources: Source[]): DedupeResult {
+  const { nearDuplicateThreshold } = RESEARCH_CONFIG.dedupe;
+  const kept: Source[] = [];
+  const byCanonical = new Map<string, number>();
+  const signatures: Array<Uint32Array | null> = [];
+  const merges: DuplicateMerge[] = [];
+
+  for (const s of sources) {
+    if (!s?.url) continue;
+
+    const key = canonicalizeUrl(s.url);
+    const sameUrl = byCanonical.get(key);
+    if (sameUrl !== undefined) {
+      if (s.url !== kept[sameUrl].url && !kept[sameUrl].alternateUrls?.includes(s.url)) {
+        merges.push({ url: s.url, into: kept[sameUrl].url, reason: "canonical-url" });
+      }
+      kept[sameUrl] = mergeSources(kept[sameUrl], s);
+      continue;
+    }
+
+    const signature = signatureOf(s);
+    let match = -1;
+    let similarity = 0;
+    if (signature) {
+      signatures.forEach((other, i) => {
+        if (!other) return;
+        const sim = estimateJaccard(signature, other);
+        if (sim >= nearDuplicateThreshold && sim > similarity) {
+          match = i;
+          similarity = sim;
+        }
+      });
+    }
+
+    if (match >= 0) {
+      merges.push({ url: s.url, into: kept[match].url, reason: "near-duplicate", similarity: round2(similarity) });
+      kept[match] = mergeSources(kept[match], s);
+      byCanonical.set(key, match);
+      continue;
+    }
+
+    byCanonical.set(key, kept.length);
+    for (const alt of s.alternateUrls ?? []) byCanonical.set(canonicalizeUrl(alt), kept.length);
+    kept.push(s);
+    signatures.push(signature);
+  }
+
+  return { sources: kept, merges };
+}
+
+// Keeps the primary's identity; takes the richer text and the earliest date from either.
+function mergeSources(primary: Source, dup: Source): Source {
+  const longer = (a?: string, b?: string) => ((b?.length ?? 0) > (a?.length ?? 0) ? b : a);
+  const alternates = new Set([...(primary.alternateUrls ?? []), dup.url, ...(dup.alternateUrls ?? [])]);
+  alternates.delete(primary.url);
+
+  const dates = [primary.publishedDate, dup.publishedDate].filter((d): d is string => !!d).sort();
+  return {
+    ...primary,
+    snippet: longer(primary.snippet, dup.snippet) ?? "",
+    content: longer(primary.content, dup.content) ?? "",
+    ...(primary.rawContent || dup.rawContent ? { rawContent: longer(primary.rawContent, dup.rawContent) } : {}),
+    ...(dates.length ? { publishedDate: dates[0] } : {}),
+    bucket: primary.bucket ?? dup.bucket,
+    ...(alternates.size ? { alternateUrls: [...alternates] } : {}),
+  };
+}
+
+// ============================
+// MinHash
+// ============================
+// signatures are reused across passes for the same source object
+const signatureCache = new WeakMap<Source, Uint32Array | null>();
+
+function signatureOf(source: Source): Uint32Array | null {
+  const cached = signatureCache.get(source);
+  if (cached !== undefined) return cached;
+  const { maxChars } = RESEARCH_CONFIG.dedupe;
+  const signature = minhashSignature(`${source.snippet ?? ""} ${(source.content ?? "").slice(0, maxChars)}`);
+  signatureCache.set(source, signature);
+  return signature;
+}
+
+/**
+ * MinHash over word shingles; null when the text is too short to compare.
+ */
+export function minhashSignature(text: string): Uint32Array | null {
+  const { shingleSize, numHashes, minShingles } = RESEARCH_CONFIG.dedupe;
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const shingles = new Set<number>();
+  for (let i = 0; i + shingleSize <= words.length; i++) {
+    shingles.add(fnv1a32(words.slice(i, i + shingleSize).join(" ")));
+  }
+  if (shingles.size < minShingles) return null;
+
+  const signature = new Uint32Array(numHashes).fill(0xffffffff);
+  for (const h of shingles) {
+    for (let i = 0; i < numHashes; i++) {
+      const v = fmix32(h ^ Math.imul(i + 1, 0x9e3779b9));
+      if (v < signature[i]) signature[i] = v;
+    }
+  }
+  return signature;
+}
+
+export function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return a.length ? same / a.length : 0;
+}
+
+function fnv1a32(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// murmur3 finalizer: spreads the seeded shingle hash over all 32 bits
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,85 @@
+// src/lib/research/degradedReport.ts
+import type { PipelineOutput } from "@/lib/research/pipeline";
+import type { OutputLanguage } from "@/types/research";
+import type { Report } from "@/lib/research/report.Schema";
+import { messages } from "@/lib/research/i18n";
+
+type NumberedSource = Report["sources"][number] & { snippet?: string };
+
+/**
+ * Report built from the pipeline output alone, used when the model's report
+ * cannot be validated. Satisfies ReportSchema, so the UI renders it as usual.
+ */
+export function buildDegradedReport(
+  research: PipelineOutput,
+  sources: NumberedSource[],
+  lang: OutputLanguage
+): Report {
+  const t = messages(lang).degraded;
+  const m = research.gateMetrics;
+  const sufficient = research.decisionStatus === "EVIDENCE_SUFFICIENT";
+  const clip = (s: string, n = 120) => (s.length > n ? `${s.slice(0, n - 1)}…` : s);
+
+  const lines = research.recommendationOrSafeDefault
+    .split("\n")
+    .map((l) => l.replace(/^-\s*/, "").trim())
+    .filter(Boolean);
+
+  const top = sources.slice(0, 10);
+  const missingBuckets = research.buckets.filter((b) => b.sources === 0).map((b) => b.bucket);
+
+  const summaryBullets = [
+    t.generationFailed,
+    t.decisionStatus(research.decisionStatus),
+    t.confidence(Math.round(research.confidenceOverview.overall * 100)),
+    t.sourcesAcross(m.sources, m.uniqueDomains),
+    top[0] ? t.topSource(top[0].title, top[0].sourceNumber) : t.noSourcesFound,
+  ].map((b) => clip(b));
+
+  const summaryText = lines.join(" ").split(/\s+/).slice(0, 240).join(" ");
+
+  const evidence = top.length
+    ? top.map((s) => `- ${s.title} [${s.sourceNumber}]: ${(s.snippet ?? "").replace(/\s+/g, " ").trim()}`).join("\n")
+    : `- ${t.noSourcesRetrieved}`;
+
+  const contentNote = t.contentNote;
+
+  const why = [
+    research.confidenceOverview.rationale,
+    t.scores(m.sources, m.avgScore.toFixed(2), m.top3AvgScore.toFixed(2)),
+    ...lines.slice(1, 5),
+  ];
+  if (why.length < 3) why.push(contentNote);
+
+  const firstLine = lines[0] ?? "";
+
+  return {
+    summaryBullets,
+    summaryText,
+    recommendation: {
+      choice: firstLine.length >= 5 ? firstLine : sufficient ? t.choiceRecommendation : t.choiceSafeDefault,
+      why: why.slice(0, 6),
+      conditions: [],
+      uncertainties: [
+        t.readSources,
+        ...(missingBuckets.length ? [messages(lang).noEvidenceFor(missingBuckets.join(", "))] : []),
+      ],
+    },
+    research: [
+      {
+        title: t.sectionTitle,
+        intro: t.sectionIntro,
+        content: `${contentNote}\n\n${evidence}`,
+        conclusion: firstLine.length >= 40 ? firstLine : contentNote,
+      },
+    ],
+    sources: sources.map((s) => ({
+      sourceNumber: s.sourceNumber,
+      title: s.title,
+      url: s.url,
+      publishedDate: s.publishedDate,
+      provider: s.provider,
+      score: s.score,
+    })),
+  };
+}
@@ -0,0 +1,117 @@
+// src/lib/research/domainPolicy.test.ts
+import { describe, it, expect } from "vitest";
+import type { Source } from "@/types/research";
+import { scoreSourcesAndGate } from "@/lib/research/scoring";
+import { runResearchPipeline } from "@/lib/research/pipeline";
+import { DomainPolicyOverridesSchema } from "@/lib/research/schema";
+import {
+  domainPolicyFromConfig,
+  evaluateDomain,
+  pickAuthoritySites,
+  withDomainOverrides,
+  type DomainPolicy,
+} from "@/lib/research/domainPolicy";
+
+const policy: DomainPolicy = {
+  rules: [
+    { action: "boost", pattern: "docs.example.com" },
+    { action: "boost", pattern: ".gov", mode: "suffix" },
+    { action: "penalize", pattern: "blogspot.", mode: "contains" },
+    { action: "deny", pattern: "spam.example" },
+  ],
+  authoritySites: [
+    { domain: "wikipedia.org", topics: [] },
+    { domain: "who.int", topics: ["health", "clinical"] },
+    { domain: "nist.gov", topics: ["security", "cryptograph"] },
+  ],
+};
+
+function src(url: string): Source {
+  return { url, title: url, snippet: "s".repeat(300), content: "c".repeat(2500), provider: "tavily" };
+}
+
+describe("evaluateDomain", () => {
+  it("matches domains with subdomains, suffixes and substrings", () => {
+    expect(evaluateDomain(policy, "https://www.docs.example.com/a").adjustment).toBeCloseTo(0.15);
+    expect(evaluateDomain(policy, "https://api.docs.example.com/a").adjustment).toBeCloseTo(0.15);
+    expect(evaluateDomain(policy, "https://example.com/a").adjustment).toBe(0);
+    expect(evaluateDomain(policy, "https://data.cdc.gov/x").adjustment).toBeCloseTo(0.15);
+    expect(evaluateDomain(policy, "https://govtrack.us/x").adjustment).toBe(0);
+    expect(evaluateDomain(policy, "https://foo.blogspot.com/x").adjustment).toBeCloseTo(-0.15);
+    expect(evaluateDomain(policy, "https://cdn.spam.example/x").allowed).toBe(false);
+  });
+
+  it("lets request rules override config deny rules and clamps the adjustment", () => {
+    const p = withDomainOverrides(policy, {
+      allow: ["spam.example"],
+      boost: ["cdc.gov", "data.cdc.gov"],
+    });
+    expect(evaluateDomain(p, "https://spam.example/x").allowed).toBe(true);
+    // .gov + two request boosts = 0.45, capped at 0.3
+    expect(evaluateDomain(p, "https://data.cdc.gov/x").adjustment).toBeCloseTo(0.3);
+
+    const denied = withDomainOverrides(domainPolicyFromConfig(), { deny: ["GitHub.com"] });
+    expect(evaluateDomain(denied, "https://github.com/org/repo").allowed).toBe(false);
+  });
+
+  it("prefers the more specific pattern among config allow/deny rules", () => {
+    const p: DomainPolicy = {
+      ...policy,
+      rules: [...policy.rules, { action: "allow", pattern: "good.spam.example", origin: "config" }],
+    };
+    expect(evaluateDomain(p, "https://good.spam.example/x").allowed).toBe(true);
+    expect(evaluateDomain(p, "https://bad.spam.example/x").allowed).toBe(false);
+  });
+});
+
+describe("DomainPolicyOverridesSchema", () => {
+  it("accepts rule lists and rejects anything else", () => {
+    expect(DomainPolicyOverridesSchema.parse({ deny: ["A.com"], boost: [] })).toEqual({ deny: ["a.com"], boost: [] });
+    expect(DomainPolicyOverridesSchema.safeParse(["a.com"]).success).toBe(false);
+    expect(DomainPolicyOverridesSchema.safeParse({ block: ["a.com"] }).success).toBe(false);
+    expect(DomainPolicyOverridesSchema.safeParse({ allow: "a.com" }).success).toBe(false);
+  });
+});
+
+describe("pickAuthoritySites", () => {
+  it("ranks sites by topic relevance and skips denied ones", () => {
+    expect(pickAuthoritySites(policy, "Which cryptography library meets security audits?")).toEqual([
+      "nist.gov",
+      "wikipedia.org",
+      "who.int",
+    ]);
+    const p = withDomainOverrides(policy, { deny: ["nist.gov"] });
+    expect(pickAuthoritySites(p, "security")).toEqual(["wikipedia.org", "who.int"]);
+  });
+});
+
+describe("policy in scoring and the pipeline", () => {
+  it("shifts scores and reports the low-trust share", () => {
+    const { scored, metrics } = scoreSourcesAndGate(
+      [src("https://a.blogspot.com/1"), src("https://b.blogspot.com/2"), src("https://www.nih.gov/3")],
+      { policy }
+    );
+    const byUrl = (url: string) => scored.find((s) => s.url === url);
+    expect(byUrl("https://a.blogspot.com/1")?.scoreBreakdown?.trust).toBeCloseTo(-0.15);
+    expect(byUrl("https://a.blogspot.com/1")?.score).toBeCloseTo(0.85);
+    expect(byUrl("https://www.nih.gov/3")?.scoreBreakdown?.trust).toBeCloseTo(0.15);
+    expect(byUrl("https://www.nih.gov/3")?.score).toBe(1);
+    expect(metrics.lowTrustRatio).toBeCloseTo(2 / 3);
+
+    expect(scoreSourcesAndGate([src("https://a.blogspot.com/1")]).scored[0].score).toBe(1);
+  });
+
+  it("drops denied sources and records them per pass", async () => {
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      {
+        searcher: async (q) => [src(`https://spam.example/${encodeURIComponent(q)}`), src("https://ok.example/1")],
+        includeDebug: true,
+        policy,
+        budget: { maxIterations: 0 },
+      }
+    );
+    expect(out.sources.map((s) => s.url)).toEqual(["https://ok.example/1"]);
+    expect(out.debug?.passes[0].denied?.[0]).toMatchObject({ rule: "spam.example" });
+  });
+});
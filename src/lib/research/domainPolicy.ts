@@ -0,0 +1,141 @@
+// src/lib/research/domainPolicy.ts
+import { RESEARCH_CONFIG } from "@/config/research";
+import type { Source } from "@/types/research";
+import { hostOf } from "@/lib/research/util";
+
+export type DomainRuleAction = "allow" | "deny" | "boost" | "penalize";
+
+/**
+ * Pattern forms:
+ * - "example.com"  the domain and all its subdomains
+ * - ".gov", ".ac.uk"  any host ending in that suffix (TLDs, public suffixes)
+ * - mode "contains"  any host containing the text ("blogspot.")
+ */
+export type DomainRule = {
+  action: DomainRuleAction;
+  pattern: string;
+  mode?: "domain" | "suffix" | "contains";
+  // score adjustment for boost/penalize; defaults to ±DEFAULT_WEIGHT
+  weight?: number;
+  // request rules take precedence over config rules
+  origin?: "config" | "request";
+};
+
+export type AuthoritySite = { domain: string; topics: string[] };
+
+export type DomainPolicy = {
+  rules: DomainRule[];
+  authoritySites: AuthoritySite[];
+};
+
+export type DomainVerdict = {
+  allowed: boolean;
+  // summed boost/penalize weights, clamped to ±MAX_ADJUSTMENT
+  adjustment: number;
+  matched: DomainRule[];
+};
+
+export type DomainPolicyOverrides = Partial<Record<DomainRuleAction, string[]>>;
+
+const DEFAULT_WEIGHT = 0.15;
+const MAX_ADJUSTMENT = 0.3;
+
+export function domainPolicyFromConfig(quality = RESEARCH_CONFIG.quality): DomainPolicy {
+  return {
+    rules: [
+      ...quality.highTrustDomains.map((pattern): DomainRule => ({ action: "boost", pattern })),
+      ...quality.highTrustSuffixes.map((pattern): DomainRule => ({ action: "boost", pattern, mode: "suffix" })),
+      ...quality.lowTrustContains.map((pattern): DomainRule => ({ action: "penalize", pattern, mode: "contains" })),
+      ...quality.denyDomains.map((pattern): DomainRule => ({ action: "deny", pattern })),
+    ].map((r) => ({ ...r, origin: "config" as const })),
+    authoritySites: quality.authoritySites,
+  };
+}
+
+/**
+ * Adds per-request rules on top of a base policy.
+ */
+export function withDomainOverrides(policy: DomainPolicy, overrides: DomainPolicyOverrides | undefined): DomainPolicy {
+  if (!overrides) return policy;
+  const extra: DomainRule[] = [];
+  for (const action of ["allow", "deny", "boost", "penalize"] as const) {
+    for (const pattern of overrides[action] ?? []) {
+      if (pattern.trim()) extra.push({ action, pattern: pattern.trim().toLowerCase(), origin: "request" });
+    }
+  }
+  return { ...policy, rules: [...policy.rules, ...extra] };
+}
+
+/**
+ * allow/deny: request rules first, then the most specific (longest) matching
+ * pattern; allow wins a tie. boost/penalize weights add up.
+ */
+export function evaluateDomain(policy: DomainPolicy, url: string): DomainVerdict {
+  const host = hostOf(url);
+  const matched = host ? policy.rules.filter((r) => ruleMatches(r, host)) : [];
+
+  const gates = matched
+    .filter((r) => r.action === "allow" || r.action === "deny")
+    .sort(
+      (a, b) =>
+        Number(b.origin === "request") - Number(a.origin === "request") ||
+        b.pattern.length - a.pattern.length ||
+        Number(b.action === "allow") - Number(a.action === "allow")
+    );
+  const allowed = gates.length ? gates[0].action === "allow" : true;
+
+  const sum = matched.reduce((n, r) => {
+    if (r.action === "boost") return n + (r.weight ?? DEFAULT_WEIGHT);
+    if (r.action === "penalize") return n - Math.abs(r.weight ?? DEFAULT_WEIGHT);
+    return n;
+  }, 0);
+
+  return { allowed, adjustment: Math.max(-MAX_ADJUSTMENT, Math.min(MAX_ADJUSTMENT, sum)), matched };
+}
+
+/**
+ * Splits sources into those the policy allows and those a deny rule removes.
+ */
+export function applyDomainPolicy(
+  policy: DomainPolicy,
+  sources: Source[]
+): { kept: Source[]; denied: Array<{ url: string; rule: string }> } {
+  const kept: Source[] = [];
+  const denied: Array<{ url: string; rule: string }> = [];
+  for (const s of sources) {
+    const verdict = evaluateDomain(policy, s.url);
+    if (verdict.allowed) kept.push(s);
+    else denied.push({ url: s.url, rule: verdict.matched.find((r) => r.action === "deny")?.pattern ?? "deny" });
+  }
+  return { kept, denied };
+}
+
+/**
+ * Authority sites for `site:` queries, most relevant to the topic first
+ * (topic keywords found in the decision text); denied domains are skipped.
+ * Sites without a topic match keep their configured order at the end.
+ */
+export function pickAuthoritySites(policy: DomainPolicy, topicText: string): string[] {
+  const text = ` ${topicText.toLowerCase()} `;
+  return policy.authoritySites
+    .filter((site) => evaluateDomain(policy, `https://${site.domain.replace(/^\./, "")}`).allowed)
+    .map((site, i) => ({ site, i, hits: site.topics.filter((t) => text.includes(t.toLowerCase())).length }))
+    .sort((a, b) => b.hits - a.hits || a.i - b.i)
+    .map((r) => r.site.domain);
+}
+
+/**
+ * Same pattern forms as rules: "example.com" (with subdomains) or ".gov" (suffix).
+ */
+export function hostMatches(url: string, pattern: string): boolean {
+  const host = hostOf(url);
+  return !!host && ruleMatches({ action: "allow", pattern }, host);
+}
+
+function ruleMatches(rule: DomainRule, host: string): boolean {
+  const pattern = rule.pattern.toLowerCase();
+  const mode = rule.mode ?? (pattern.startsWith(".") ? "suffix" : "domain");
+  if (mode === "contains") return host.includes(pattern);
+  if (mode === "suffix") return host.endsWith(pattern.startsWith(".") ? pattern : `.${pattern}`);
+  return host === pattern || host.endsWith(`.${pattern}`);
+}
@@ -0,0 +1,191 @@
+// src/lib/research/fetchContent.test.ts
+import { describe, it, expect } from "vitest";
+import type { Source } from "@/types/research";
+import {
+  createContentExtractor,
+  extractReadableText,
+  isAllowedByRobots,
+  isReservedAddress,
+  selectPassages,
+} from "@/lib/research/fetchContent";
+
+const ARTICLE = `<html><body>
+  <nav><a href="/">Home</a><a href="/about">About</a></nav>
+  <header>Site header with a long enough tagline to survive length filters</header>
+  <article>
+    <h1>Pricing study</h1>
+    <p>Vendor A charges a flat monthly fee per seat, which was the cheapest option in our comparison of six vendors over twelve months.</p>
+    <p>Vendor B uses usage-based pricing, which became more expensive beyond a few thousand requests.</p>
+    <div class="share-buttons">Share on social networks with your friends and followers today</div>
+  </article>
+  <footer>Copyright footer text that is definitely boilerplate and long enough</footer>
+</body></html>`;
+
+function src(url: string, extra: Partial<Source> = {}): Source {
+  return { url, title: url, snippet: "", content: "", provider: "tavily", ...extra };
+}
+
+type FakePage = { body: string; type?: string; status?: number } | { redirect: string };
+
+function fakeFetch(pages: Record<string, FakePage>): typeof fetch {
+  return (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    const page = pages[url];
+    if (!page) return new Response("not found", { status: 404 });
+    if ("redirect" in page) return new Response(null, { status: 302, headers: { location: page.redirect } });
+    return new Response(page.body, {
+      status: page.status ?? 200,
+      headers: { "content-type": page.type ?? "text/html; charset=utf-8" },
+    });
+  }) as typeof fetch;
+}
+
+const baseOpts = {
+  topN: 3,
+  timeoutMs: 1000,
+  maxBytes: 10_000,
+  maxChars: 5000,
+  userAgent: "DeepResearchAgent/1.0",
+  // every test host is public unless it is named "intranet"
+  lookup: async (host: string) => [host.startsWith("intranet.") ? "10.0.0.7" : "93.184.216.34"],
+};
+
+describe("extractReadableText", () => {
+  it("keeps the article body and drops navigation, header, footer and share widgets", () => {
+    const text = extractReadableText(ARTICLE);
+    expect(text).toContain("Vendor A charges a flat monthly fee");
+    expect(text).toContain("usage-based pricing");
+    expect(text).not.toContain("Home");
+    expect(text).not.toContain("Copyright");
+    expect(text).not.toContain("Share on social");
+  });
+});
+
+describe("isAllowedByRobots", () => {
+  const robots = [
+    "User-agent: *",
+    "Disallow: /private",
+    "Allow: /private/public",
+    "",
+    "User-agent: DeepResearchAgent",
+    "Disallow: /no-bots/*.html$",
+  ].join("\n");
+
+  it("applies the most specific user-agent group and longest matching rule", () => {
+    expect(isAllowedByRobots(robots, "/private/x", "OtherBot/1.0")).toBe(false);
+    expect(isAllowedByRobots(robots, "/private/public/x", "OtherBot/1.0")).toBe(true);
+    // our own group replaces the * group entirely
+    expect(isAllowedByRobots(robots, "/private/x", "DeepResearchAgent/1.0")).toBe(true);
+    expect(isAllowedByRobots(robots, "/no-bots/page.html", "DeepResearchAgent/1.0")).toBe(false);
+    expect(isAllowedByRobots(robots, "/no-bots/page.html?x=1", "DeepResearchAgent/1.0")).toBe(true);
+  });
+});
+
+describe("createContentExtractor", () => {
+  it("fills rawContent for the top sources and records why others were skipped", async () => {
+    const extract = createContentExtractor({
+      ...baseOpts,
+      fetch: fakeFetch({
+        "https://a.com/robots.txt": { body: "User-agent: *\nDisallow:", type: "text/plain" },
+        "https://a.com/study": { body: ARTICLE },
+        "https://b.com/robots.txt": { body: "User-agent: *\nDisallow: /", type: "text/plain" },
+        "https://c.com/report.pdf": { body: "%PDF", type: "application/pdf" },
+        "https://d.com/big": { body: `<article><p>${"x".repeat(20_000)}</p></article>` },
+      }),
+    });
+
+    const { sources, stats } = await extract([
+      src("https://a.com/study"),
+      src("https://b.com/blocked"),
+      src("https://c.com/report.pdf"),
+      src("https://d.com/big"), // beyond topN
+    ]);
+
+    expect(sources[0].rawContent).toContain("Vendor B uses usage-based pricing");
+    expect(sources.slice(1).every((s) => s.rawContent === undefined)).toBe(true);
+    expect(stats).toEqual({
+      attempted: 3,
+      extracted: 1,
+      skipped: [
+        { url: "https://b.com/blocked", reason: "disallowed by robots.txt" },
+        { url: "https://c.com/report.pdf", reason: "unsupported content-type application/pdf" },
+      ],
+    });
+  });
+
+  it("enforces the byte limit and leaves sources that already have raw content alone", async () => {
+    const extract = createContentExtractor({
+      ...baseOpts,
+      fetch: fakeFetch({ "https://d.com/big": { body: `<article><p>${"x".repeat(20_000)}</p></article>` } }),
+    });
+
+    const { sources, stats } = await extract([src("https://d.com/big"), src("https://e.com/x", { rawContent: "kept" })]);
+
+    expect(stats.attempted).toBe(1);
+    expect(stats.skipped[0].reason).toBe("larger than 10000 bytes");
+    expect(sources[1].rawContent).toBe("kept");
+  });
+});
+
+describe("redirects and host checks", () => {
+  it("checks robots.txt of every hop and never reaches private hosts", async () => {
+    const extract = createContentExtractor({
+      ...baseOpts,
+      topN: 6,
+      fetch: fakeFetch({
+        "https://a.com/moved": { redirect: "https://b.com/blocked" },
+        "https://b.com/robots.txt": { body: "User-agent: *\nDisallow: /", type: "text/plain" },
+        "https://a.com/short": { redirect: "/study" },
+        "https://a.com/study": { body: ARTICLE },
+        "https://a.com/admin": { redirect: "http://127.0.0.1:8080/admin" },
+        "https://a.com/loop": { redirect: "https://a.com/loop" },
+      }),
+    });
+
+    const { sources, stats } = await extract([
+      src("https://a.com/moved"),
+      src("https://a.com/short"),
+      src("https://a.com/admin"),
+      src("http://[::1]/"),
+      src("https://intranet.example.com/wiki"),
+      src("https://a.com/loop"),
+    ]);
+
+    expect(sources[1].rawContent).toContain("Vendor A charges");
+    expect(stats.skipped).toEqual([
+      { url: "https://a.com/moved", reason: "disallowed by robots.txt" },
+      { url: "https://a.com/admin", reason: "private or reserved host" },
+      { url: "http://[::1]/", reason: "private or reserved host" },
+      { url: "https://intranet.example.com/wiki", reason: "private or reserved host" },
+      { url: "https://a.com/loop", reason: "more than 3 redirects" },
+    ]);
+  });
+
+  it("recognizes loopback, private, link-local and reserved addresses", () => {
+    for (const ip of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0", "::1"]) {
+      expect(isReservedAddress(ip)).toBe(true);
+    }
+    expect(isReservedAddress("fd00::1")).toBe(true);
+    expect(isReservedAddress("fe80::1")).toBe(true);
+    expect(isReservedAddress("::ffff:192.168.0.1")).toBe(true);
+    expect(isReservedAddress("93.184.216.34")).toBe(false);
+    expect(isReservedAddress("172.32.0.1")).toBe(false);
+    expect(isReservedAddress("2606:4700::1111")).toBe(false);
+  });
+});
+
+describe("selectPassages", () => {
+  it("returns the paragraphs that match the focus, in document order", () => {
+    const text = [
+      "Unrelated introduction about the company history and its founders in detail.",
+      "Usage-based pricing became more expensive than flat pricing beyond a few thousand requests.",
+      "Another unrelated paragraph about office locations and the team culture overall.",
+      "Flat pricing per seat was the cheapest option in the comparison of the two vendors.",
+    ].join("\n");
+
+    expect(selectPassages(text, "flat or usage-based pricing")).toEqual([
+      "Usage-based pricing became more expensive than flat pricing beyond a few thousand requests.",
+      "Flat pricing per seat was the cheapest option in the comparison of the two vendors.",
+    ]);
+  });
+});
@@ -0,0 +1,381 @@
+// src/lib/research/fetchContent.ts
+import { lookup as dnsLookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import type { Source } from "@/types/research";
+import { htmlToText } from "@/lib/research/local/extract";
+
+export type ExtractionSkip = { url: string; reason: string };
+
+export type ExtractionStats = {
+  attempted: number;
+  extracted: number;
+  skipped: ExtractionSkip[];
+};
+
+/**
+ * Fills `rawContent` for the top sources (input order = ranking).
+ * Never throws for a single URL; failures end up in `stats.skipped`.
+ */
+export type ContentExtractor = (sources: Source[]) => Promise<{ sources: Source[]; stats: ExtractionStats }>;
+
+export type ContentExtractorOptions = {
+  topN: number;
+  timeoutMs: number;
+  maxBytes: number;
+  maxChars: number;
+  userAgent: string;
+  // redirects are followed by hand so every hop gets the host and robots.txt checks (default 3)
+  maxRedirects?: number;
+  fetch?: typeof fetch;
+  // addresses of a host name; hosts on private or reserved addresses are never fetched
+  lookup?: (hostname: string) => Promise<string[]>;
+};
+
+export function createContentExtractor(opts: ContentExtractorOptions): ContentExtractor {
+  const doFetch = opts.fetch ?? fetch;
+  const lookup = opts.lookup ?? (async (host: string) => (await dnsLookup(host, { all: true })).map((a) => a.address));
+  const maxRedirects = opts.maxRedirects ?? 3;
+  // robots.txt per origin and the public/private verdict per host, shared across all sources of one run
+  const robotsCache = new Map<string, Promise<string | null>>();
+  const hostCache = new Map<string, Promise<boolean>>();
+
+  function isPublicHost(hostname: string): Promise<boolean> {
+    let p = hostCache.get(hostname);
+    if (!p) {
+      p = isPublicTarget(hostname, lookup);
+      hostCache.set(hostname, p);
+    }
+    return p;
+  }
+
+  /**
+   * GETs `start`, following up to `maxRedirects` redirects; `check` runs before
+   * every hop and returns a skip reason to stop there.
+   */
+  async function fetchFollowing(
+    start: string,
+    accept: string,
+    check: (url: URL) => Promise<string | undefined>
+  ): Promise<LimitedResponse | { skip: string }> {
+    let target = start;
+    for (let hop = 0; ; hop++) {
+      let url: URL;
+      try {
+        url = new URL(target);
+      } catch {
+        return { skip: "invalid url" };
+      }
+      if (url.protocol !== "http:" && url.protocol !== "https:") return { skip: "not a web url" };
+      if (!(await isPublicHost(url.hostname))) return { skip: "private or reserved host" };
+      const skip = await check(url);
+      if (skip) return { skip };
+
+      const res = await fetchLimited(doFetch, target, opts, { accept });
+      if (!res.location) return res;
+      if (hop >= maxRedirects) return { skip: `more than ${maxRedirects} redirects` };
+      target = new URL(res.location, url).href;
+    }
+  }
+
+  async function getRobots(origin: string): Promise<string | null> {
+    let p = robotsCache.get(origin);
+    if (!p) {
+      p = fetchFollowing(`${origin}/robots.txt`, "text/plain", async () => undefined)
+        .then((r) => ("skip" in r || !r.ok ? null : r.text))
+        .catch(() => null);
+      robotsCache.set(origin, p);
+    }
+    return p;
+  }
+
+  async function extractOne(source: Source): Promise<{ rawContent?: string; skip?: string }> {
+    const res = await fetchFollowing(source.url, "text/html,text/plain;q=0.9", async (url) => {
+      const robots = await getRobots(url.origin);
+      if (robots && !isAllowedByRobots(robots, `${url.pathname}${url.search}`, opts.userAgent)) {
+        return "disallowed by robots.txt";
+      }
+      return undefined;
+    });
+    if ("skip" in res) return res;
+    if (!res.ok) return { skip: `http ${res.status}` };
+    if (res.truncated) return { skip: `larger than ${opts.maxBytes} bytes` };
+
+    const isHtml = /html/i.test(res.contentType);
+    if (!isHtml && !/^text\/plain/i.test(res.contentType)) return { skip: `unsupported content-type ${res.contentType || "(none)"}` };
+
+    const text = (isHtml ? extractReadableText(res.text) : res.text).trim();
+    if (text.length < 200) return { skip: "no readable text" };
+
+    return { rawContent: text.slice(0, opts.maxChars) };
+  }
+
+  return async (sources) => {
+    const stats: ExtractionStats = { attempted: 0, extracted: 0, skipped: [] };
+
+    const targets = sources.slice(0, opts.topN).filter((s) => !s.rawContent);
+    stats.attempted = targets.length;
+
+    const results = await Promise.all(
+      targets.map(async (s) => {
+        try {
+          return { url: s.url, ...(await extractOne(s)) };
+        } catch (err) {
+          return { url: s.url, skip: err instanceof Error ? err.message : String(err) };
+        }
+      })
+    );
+
+    const byUrl = new Map<string, string>();
+    for (const r of results) {
+      if (r.rawContent) {
+        byUrl.set(r.url, r.rawContent);
+        stats.extracted++;
+      } else {
+        stats.skipped.push({ url: r.url, reason: r.skip ?? "unknown" });
+      }
+    }
+
+    return {
+      sources: sources.map((s) => (byUrl.has(s.url) ? { ...s, rawContent: byUrl.get(s.url) } : s)),
+      stats,
+    };
+  };
+}
+
+/**
+ * Drops page chrome (nav, header, footer, asides, forms) and prefers the
+ * <article>/<main> element when the page has one.
+ */
+export function extractReadableText(html: string): string {
+  const cleaned = html
+    .replace(/<(script|style|noscript|template|svg|iframe)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<(nav|header|footer|aside|form)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+(?:class|id)="[^"]*(?:cookie|banner|newsletter|share|related|sidebar|comments?)[^"]*"[^>]*>[\s\S]*?<\/[a-z0-9]+>/gi, " ");
+
+  const main =
+    cleaned.match(/<article[^>]*>([\s\S]*?)<\/article>/i)?.[1] ??
+    cleaned.match(/<main[^>]*>([\s\S]*?)<\/main>/i)?.[1] ??
+    cleaned.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1] ??
+    cleaned;
+
+  // drop very short lines (menus, button labels) that survived the element filters
+  return htmlToText(main)
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => l.length >= 40 || /[.!?:]$/.test(l))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * Minimal robots.txt evaluation: the most specific matching user-agent group
+ * (falling back to `*`), longest matching rule wins, Allow wins ties.
+ */
+export function isAllowedByRobots(robotsTxt: string, pathAndQuery: string, userAgent: string): boolean {
+  const groups: Array<{ agents: string[]; rules: Array<{ allow: boolean; pattern: string }> }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const m = line.match(/^([a-z-]+)\s*:\s*(.*)$/i);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (key === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+    if (key === "allow" || key === "disallow") {
+      // empty Disallow means "allow everything"
+      if (value) current.rules.push({ allow: key === "allow", pattern: value });
+    }
+  }
+
+  const ua = userAgent.toLowerCase().split("/")[0];
+  const specific = groups.filter((g) => g.agents.some((a) => a !== "*" && ua.includes(a)));
+  const applicable = specific.length ? specific : groups.filter((g) => g.agents.includes("*"));
+
+  let best: { allow: boolean; length: number } | null = null;
+  for (const rule of applicable.flatMap((g) => g.rules)) {
+    if (!robotsPatternMatches(rule.pattern, pathAndQuery)) continue;
+    const length = rule.pattern.length;
+    if (!best || length > best.length || (length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length };
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+function robotsPatternMatches(pattern: string, target: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const re = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${re}${anchored ? "$" : ""}`).test(target);
+}
+
+/**
+ * Host names that resolve to loopback, private, link-local or otherwise reserved
+ * addresses are not fetched: search results must not reach internal services.
+ * A host that does not resolve fails the same way.
+ */
+async function isPublicTarget(hostname: string, lookup: (hostname: string) => Promise<string[]>): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isIP(host)) return !isReservedAddress(host);
+  if (host === "localhost" || /\.(localhost|local|internal)$/.test(host)) return false;
+  try {
+    const addresses = await lookup(host);
+    return addresses.length > 0 && !addresses.some(isReservedAddress);
+  } catch {
+    return false;
+  }
+}
+
+const RESERVED_V4: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 3],
+];
+
+function v4ToInt(ip: string): number {
+  return ip.split(".").reduce((n, part) => n * 256 + Number(part), 0);
+}
+
+export function isReservedAddress(ip: string): boolean {
+  if (isIP(ip) === 4) {
+    const n = v4ToInt(ip);
+    return RESERVED_V4.some(([base, bits]) => {
+      const block = 2 ** (32 - bits);
+      return Math.floor(n / block) === Math.floor(v4ToInt(base) / block);
+    });
+  }
+  const v6 = ip.toLowerCase();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(v6);
+  if (mapped) return isReservedAddress(mapped[1]);
+  // unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10), multicast, documentation
+  return v6 === "::" || v6 === "::1" || /^(f[cd]|fe[89ab]|ff)/.test(v6) || v6.startsWith("2001:db8:");
+}
+
+type LimitedResponse = {
+  ok: boolean;
+  status: number;
+  contentType: string;
+  text: string;
+  truncated: boolean;
+  // target of a 3xx response; redirects are never followed implicitly
+  location?: string;
+};
+
+/**
+ * GET with a timeout and a byte cap; stops reading once `maxBytes` is exceeded.
+ */
+async function fetchLimited(
+  doFetch: typeof fetch,
+  url: string,
+  opts: Pick<ContentExtractorOptions, "timeoutMs" | "maxBytes" | "userAgent">,
+  headers: { accept: string }
+): Promise<LimitedResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), opts.timeoutMs);
+
+  try {
+    const res = await doFetch(url, {
+      headers: { "User-Agent": opts.userAgent, Accept: headers.accept },
+      redirect: "manual",
+      signal: controller.signal,
+    });
+    const contentType = res.headers.get("content-type") ?? "";
+    const declared = Number(res.headers.get("content-length") ?? "0");
+
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      await res.body?.cancel().catch(() => undefined);
+      return { ok: false, status: res.status, contentType, text: "", truncated: false, location };
+    }
+
+    if (!res.ok || !res.body || declared > opts.maxBytes) {
+      await res.body?.cancel().catch(() => undefined);
+      return { ok: res.ok, status: res.status, contentType, text: "", truncated: declared > opts.maxBytes };
+    }
+
+    const reader = res.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > opts.maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        return { ok: true, status: res.status, contentType, text: "", truncated: true };
+      }
+      chunks.push(value);
+    }
+
+    const text = new TextDecoder().decode(Buffer.concat(chunks));
+    return { ok: true, status: res.status, contentType, text, truncated: false };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Picks the paragraphs of `text` that share the most terms with `focus`,
+ * returned in document order, so the report can quote real passages.
+ */
+export function selectPassages(text: string, focus: string, maxChars = 1200): string[] {
+  const terms = new Set(
+    (focus || "")
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((t) => t.length >= 4)
+  );
+
+  const paragraphs = (text || "")
+    .split(/\n+/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter((p) => p.length >= 60);
+
+  const ranked = paragraphs
+    .map((p, i) => {
+      const words = p.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+      const hits = words.filter((w) => terms.has(w)).length;
+      return { p, i, hits };
+    })
+    .filter((r) => r.hits > 0)
+    .sort((a, b) => b.hits - a.hits || a.i - b.i);
+
+  const picked: Array<{ p: string; i: number }> = [];
+  let used = 0;
+  for (const r of ranked) {
+    const p = r.p.length > maxChars ? `${r.p.slice(0, maxChars - 1)}…` : r.p;
+    if (used + p.length > maxChars && picked.length) break;
+    picked.push({ p, i: r.i });
+    used += p.length;
+  }
+
+  return picked.sort((a, b) => a.i - b.i).map((r) => r.p);
+}
@@ -0,0 +1,120 @@
+// src/lib/research/gapPlanner.test.ts
+import { describe, it, expect } from "vitest";
+import { buildResearchPlan, type BucketCoverage } from "@/lib/research/plan";
+import { createFakeLlmClient } from "@/lib/research/llm/fake";
+import {
+  createLlmGapPlanner,
+  describeGap,
+  detectGaps,
+  deterministicGapPlanner,
+  type GapContext,
+} from "@/lib/research/gapPlanner";
+
+const decision = "Pick option A vs B";
+const plan = buildResearchPlan({ goal: "Test", decision });
+
+function bucket(name: BucketCoverage["bucket"], sources: number, outcome: BucketCoverage["outcome"]): BucketCoverage {
+  return { bucket: name, sources, uniqueDomains: sources, outcome, subquestions: [] };
+}
+
+function mkContext(over: Partial<GapContext> = {}): GapContext {
+  return {
+    goal: "Test",
+    decision,
+    iteration: 1,
+    gaps: [],
+    plan,
+    sources: [],
+    askedQueries: plan.map((sq) => sq.query),
+    maxQueries: 6,
+    authoritySites: ["nist.gov", "owasp.org", "wikipedia.org", "gov"],
+    ...over,
+  };
+}
+
+describe("detectGaps", () => {
+  it("lists empty and inconclusive buckets before failed gate rules", () => {
+    const gaps = detectGaps(
+      [{ rule: "minUniqueDomains", actual: 3, required: 6 }],
+      [
+        bucket("DecisionCriteria", 4, "positive"),
+        bucket("OptionsLandscape", 1, "inconclusive"),
+        bucket("EvidenceBenchmarks", 3, "positive"),
+        bucket("RisksEdgeCases", 0, "negative"),
+      ]
+    );
+
+    expect(gaps.map(describeGap)).toEqual([
+      "inconclusive-bucket: OptionsLandscape",
+      "missing-bucket: RisksEdgeCases",
+      "minUniqueDomains: 3 (needs 6)",
+    ]);
+  });
+});
+
+describe("deterministicGapPlanner", () => {
+  it("interleaves bucket, authority and expansion queries", async () => {
+    const queries = await deterministicGapPlanner.plan(
+      mkContext({
+        gaps: [
+          { kind: "missing-bucket", bucket: "RisksEdgeCases" },
+          { kind: "gate-rule", rule: "minUniqueDomains", actual: 2, required: 6 },
+          { kind: "gate-rule", rule: "minAvgScore", actual: 0.2, required: 0.45 },
+        ],
+      })
+    );
+
+    expect(queries.map((q) => q.query).slice(0, 3)).toEqual([
+      "Pick option A vs B risks lock-in compliance operational pitfalls case study",
+      "Pick option A vs B authoritative sources guidelines consensus",
+      "Pick option A vs B comparative analysis",
+    ]);
+    expect(queries[0].bucket).toBe("RisksEdgeCases");
+    expect(queries[1].reason).toBe("minUniqueDomains: 2 (needs 6)");
+    expect(queries.length).toBe(6);
+  });
+
+  it("rewords bucket queries per iteration and never repeats an asked query", async () => {
+    const gaps = [{ kind: "inconclusive-bucket" as const, bucket: "OptionsLandscape" as const }];
+    const first = await deterministicGapPlanner.plan(mkContext({ gaps }));
+    const again = await deterministicGapPlanner.plan(
+      mkContext({ gaps, askedQueries: [...plan.map((sq) => sq.query), first[0].query] })
+    );
+    const next = await deterministicGapPlanner.plan(mkContext({ gaps, iteration: 2 }));
+
+    expect(first[0].query).toBe("Pick option A vs B alternatives options categories overview case study");
+    expect(again).toEqual([]);
+    expect(next[0].query).toBe("Pick option A vs B alternatives options categories overview independent review");
+  });
+});
+
+describe("createLlmGapPlanner", () => {
+  it("uses the model's queries and bucket hints", async () => {
+    const llm = createFakeLlmClient(() =>
+      JSON.stringify({
+        queries: [
+          { query: "option B vendor lock-in incidents", bucket: "RisksEdgeCases", reason: "no risk evidence" },
+          { query: "option A vs B total cost of ownership study", bucket: null, reason: "weak scores" },
+        ],
+      })
+    );
+
+    const queries = await createLlmGapPlanner(llm).plan(
+      mkContext({ gaps: [{ kind: "missing-bucket", bucket: "RisksEdgeCases" }] })
+    );
+
+    expect(queries).toEqual([
+      { query: "option B vendor lock-in incidents", bucket: "RisksEdgeCases", reason: "no risk evidence" },
+      { query: "option A vs B total cost of ownership study", reason: "weak scores" },
+    ]);
+    expect(llm.calls[0].task).toBe("plan");
+    expect(llm.calls[0].input).toContain("missing-bucket: RisksEdgeCases");
+  });
+
+  it("falls back to the deterministic plan on unusable output", async () => {
+    const ctx = mkContext({ gaps: [{ kind: "missing-bucket", bucket: "RisksEdgeCases" }] });
+    const fromModel = await createLlmGapPlanner(createFakeLlmClient(() => "not json")).plan(ctx);
+
+    expect(fromModel).toEqual(await deterministicGapPlanner.plan(ctx));
+  });
+});
@@ -0,0 +1,238 @@
+// src/lib/research/gapPlanner.ts
+import { z } from "zod";
+import type { ResearchBucket, Source } from "@/types/research";
+import type { BucketCoverage, PlannedSubQuestion } from "@/lib/research/plan";
+import type { GateRuleFailure } from "@/lib/research/scoring";
+import type { SearchOptions } from "@/lib/research/providers/types";
+import type { LlmClient } from "@/lib/research/llm/types";
+import { nullsToUndefined, strictTextFormat } from "@/lib/research/jsonSchema";
+import { extractKeywordsDeterministic, hostOf, normalizeQuery, queryKey } from "@/lib/research/util";
+
+export type EvidenceGap =
+  | { kind: "missing-bucket"; bucket: ResearchBucket }
+  | { kind: "inconclusive-bucket"; bucket: ResearchBucket }
+  | ({ kind: "gate-rule" } & GateRuleFailure);
+
+export type FollowUpQuery = {
+  query: string;
+  // results count as evidence for this bucket (like a subquestion query)
+  bucket?: ResearchBucket;
+  reason: string;
+  // restricts results to recent publications (providers that support it)
+  timeRange?: SearchOptions["timeRange"];
+};
+
+export type GapContext = {
+  goal: string;
+  decision: string;
+  // 1-based follow-up iteration
+  iteration: number;
+  gaps: EvidenceGap[];
+  plan: PlannedSubQuestion[];
+  // merged sources so far, best first
+  sources: Source[];
+  askedQueries: string[];
+  maxQueries: number;
+  // `site:` candidates, most relevant to the topic first (see pickAuthoritySites)
+  authoritySites: string[];
+};
+
+/**
+ * Decides which follow-up queries should close the current evidence gaps.
+ * Returning no queries ends the loop.
+ */
+export type GapPlanner = {
+  id: "deterministic" | "llm";
+  plan: (ctx: GapContext) => Promise<FollowUpQuery[]>;
+};
+
+// A different angle per iteration, so a bucket that stayed empty gets new wording.
+const BUCKET_ANGLES = ["case study", "independent review", "survey data", "expert guidance"];
+
+const SCORE_RULES = new Set(["minSources", "minAvgScore", "minTopSourceScore", "minTop3AvgScore", "maxLowInfoRatio"]);
+
+export function detectGaps(failed: GateRuleFailure[], buckets: BucketCoverage[]): EvidenceGap[] {
+  const gaps: EvidenceGap[] = [];
+  for (const b of buckets) {
+    if (b.sources === 0) gaps.push({ kind: "missing-bucket", bucket: b.bucket });
+    else if (b.outcome === "inconclusive") gaps.push({ kind: "inconclusive-bucket", bucket: b.bucket });
+  }
+  for (const f of failed) gaps.push({ kind: "gate-rule", ...f });
+  return gaps;
+}
+
+export function describeGap(gap: EvidenceGap): string {
+  if (gap.kind === "gate-rule") {
+    const fmt = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(2));
+    return `${gap.rule}: ${fmt(gap.actual)} (needs ${fmt(gap.required)})`;
+  }
+  return `${gap.kind}: ${gap.bucket}`;
+}
+
+/**
+ * Bucket gaps get their subquestions re-asked from a new angle, thin breadth
+ * gets authority/site queries, weak scores get keyword-expanded queries and
+ * too few recent sources get time-restricted queries.
+ * Groups are interleaved so one gap cannot use the whole iteration.
+ */
+export const deterministicGapPlanner: GapPlanner = {
+  id: "deterministic",
+  async plan(ctx) {
+    const angle = BUCKET_ANGLES[(ctx.iteration - 1) % BUCKET_ANGLES.length];
+    const groups: FollowUpQuery[][] = [];
+
+    for (const gap of ctx.gaps) {
+      if (gap.kind === "gate-rule") continue;
+      const subquestions = ctx.plan.filter((sq) => sq.bucket === gap.bucket);
+      const picked = gap.kind === "missing-bucket" ? subquestions : subquestions.slice(0, 1);
+      groups.push(
+        picked.map((sq) => ({
+          query: `${ctx.decision} ${sq.searchTerms} ${angle}`,
+          bucket: gap.bucket,
+          reason: describeGap(gap),
+        }))
+      );
+    }
+
+    const failed = ctx.gaps.filter((g): g is Extract<EvidenceGap, { kind: "gate-rule" }> => g.kind === "gate-rule");
+    const breadth = failed.find(
+      (g) =>
+        g.rule === "minUniqueDomains" ||
+        g.rule === "minSources" ||
+        g.rule === "maxLowTrustRatio" ||
+        g.rule === "minCorroboratedClaims"
+    );
+    if (breadth) groups.push(buildAuthorityQueries(ctx, describeGap(breadth)));
+
+    const quality = failed.find((g) => SCORE_RULES.has(g.rule));
+    if (quality) groups.push(buildExpandQueries(ctx, describeGap(quality)));
+
+    const recency = failed.find((g) => g.rule === "minRecentSources");
+    if (recency) groups.push(buildRecencyQueries(ctx, describeGap(recency)));
+
+    return takeNew(interleave(groups), ctx);
+  },
+};
+
+const FollowUpPlanSchema = z.object({
+  queries: z
+    .array(
+      z.object({
+        query: z.string().min(3).max(300).describe("An English web search query."),
+        bucket: z
+          .enum(["DecisionCriteria", "OptionsLandscape", "EvidenceBenchmarks", "RisksEdgeCases"])
+          .optional()
+          .describe("The bucket this query gathers evidence for, if any."),
+        reason: z.string().describe("Which gap this query closes."),
+      })
+    )
+    .max(10),
+});
+
+const FOLLOW_UP_FORMAT = strictTextFormat("follow_up_queries", FollowUpPlanSchema);
+
+/**
+ * Asks the model for follow-up queries; falls back to `fallback` when the call
+ * fails or yields nothing new.
+ */
+export function createLlmGapPlanner(llm: LlmClient, fallback: GapPlanner = deterministicGapPlanner): GapPlanner {
+  return {
+    id: "llm",
+    async plan(ctx) {
+      try {
+        const raw = await llm.complete({ task: "plan", input: buildPlannerPrompt(ctx), format: FOLLOW_UP_FORMAT });
+        const parsed = FollowUpPlanSchema.parse(nullsToUndefined(JSON.parse(raw)));
+        const queries = takeNew(parsed.queries, ctx);
+        if (queries.length) return queries;
+      } catch {
+        // planner output is advisory; the deterministic plan still closes gaps
+      }
+      return fallback.plan(ctx);
+    },
+  };
+}
+
+function buildPlannerPrompt(ctx: GapContext): string {
+  const bucketGaps = ctx.gaps.filter((g) => g.kind !== "gate-rule").map((g) => g.bucket as ResearchBucket);
+  const subquestions = ctx.plan
+    .filter((sq) => bucketGaps.includes(sq.bucket))
+    .map((sq) => `- [${sq.bucket}] ${sq.researchObjective}`);
+  const top = ctx.sources.slice(0, 8).map((s) => `- ${s.title || s.url} (${hostOf(s.url)})`);
+
+  return [
+    "You plan follow-up web searches for a decision research run.",
+    `Return at most ${ctx.maxQueries} new English search queries that close the gaps below.`,
+    "Prefer primary, independent and authoritative sources; do not repeat earlier queries.",
+    "",
+    `Goal: ${ctx.goal}`,
+    `Decision: ${ctx.decision}`,
+    "",
+    "Gaps:",
+    ...ctx.gaps.map((g) => `- ${describeGap(g)}`),
+    ...(subquestions.length ? ["", "Open research objectives:", ...subquestions] : []),
+    "",
+    "Best sources so far:",
+    ...(top.length ? top : ["- (none)"]),
+    "",
+    "Earlier queries:",
+    ...ctx.askedQueries.slice(-30).map((q) => `- ${q}`),
+  ].join("\n");
+}
+
+function buildExpandQueries(ctx: GapContext, reason: string): FollowUpQuery[] {
+  const top = ctx.sources
+    .slice(0, 6)
+    .map((s) => `${s.title ?? ""} ${s.snippet ?? ""}`.trim())
+    .filter(Boolean);
+
+  const keywords = extractKeywordsDeterministic(top.join(" "), 10);
+
+  return [
+    `${ctx.decision} ${keywords.slice(0, 3).join(" ")} comparative analysis`,
+    `${ctx.decision} ${keywords.slice(3, 6).join(" ")} latest evidence`,
+    `${ctx.decision} ${keywords.slice(6, 10).join(" ")} failure modes`,
+  ].map((query) => ({ query, reason }));
+}
+
+function buildRecencyQueries(ctx: GapContext, reason: string): FollowUpQuery[] {
+  return [
+    `${ctx.decision} latest developments`,
+    `${ctx.decision} recent changes and updates`,
+    `${ctx.decision} current state news`,
+  ].map((query) => ({ query, reason, timeRange: "year" as const }));
+}
+
+function buildAuthorityQueries(ctx: GapContext, reason: string): FollowUpQuery[] {
+  // next three authority sites each iteration, most relevant first
+  const all = ctx.authoritySites;
+  const start = all.length ? ((ctx.iteration - 1) * 3) % all.length : 0;
+  const sites = [...all, ...all].slice(start, start + Math.min(3, all.length));
+  const siteQueries = sites.map((d) => ({ query: `${ctx.decision} site:${d} evidence`, reason }));
+
+  if (ctx.iteration > 1) return siteQueries;
+  return [{ query: `${ctx.decision} authoritative sources guidelines consensus`, reason }, ...siteQueries];
+}
+
+function interleave<T>(groups: T[][]): T[] {
+  const out: T[] = [];
+  const longest = Math.max(0, ...groups.map((g) => g.length));
+  for (let i = 0; i < longest; i++) {
+    for (const g of groups) if (i < g.length) out.push(g[i]);
+  }
+  return out;
+}
+
+// Drops queries that were already asked (this run or earlier in the list) and applies the cap.
+function takeNew(queries: FollowUpQuery[], ctx: GapContext): FollowUpQuery[] {
+  const seen = new Set(ctx.askedQueries.map(queryKey));
+  const out: FollowUpQuery[] = [];
+  for (const q of queries) {
+    const query = normalizeQuery(q.query);
+    const key = queryKey(query);
+    if (!query || seen.has(key)) continue;
+    seen.add(key);
+    out.push({ ...q, query });
+    if (out.length >= ctx.maxQueries) break;
+  }
+  return out;
+}
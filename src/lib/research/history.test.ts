@@ -0,0 +1,98 @@
+// src/lib/research/history.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { PipelineOutput } from "@/lib/research/pipeline";
+import type { Report } from "@/lib/research/report.Schema";
+import {
+  deleteRun,
+  getRun,
+  listRuns,
+  newRunId,
+  saveRun,
+  toResearchResponse,
+  type ResearchRun,
+} from "@/lib/research/history";
+
+function mkRun(createdAt: string, decision: string): ResearchRun {
+  const output = {
+    decisionStatus: "INSUFFICIENT_EVIDENCE",
+    recommendationOrSafeDefault: "safe default",
+    confidenceOverview: { overall: 0.2, rationale: "thin" },
+    sources: [],
+  } as unknown as PipelineOutput;
+
+  return {
+    id: newRunId(new Date(createdAt)),
+    createdAt,
+    goal: "Goal",
+    decision,
+    inputs: { outputLanguage: "en" },
+    output,
+    report: { summaryBullets: [], research: [], sources: [] } as unknown as Report,
+    meta: { outputLanguage: "en" },
+    timings: { translateMs: 1, pipelineMs: 2, reportMs: 3, totalMs: 6 },
+  };
+}
+
+describe("research run history", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "runs-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("saves, lists (newest first), fetches and deletes runs", async () => {
+    const older = mkRun("2026-01-01T10:00:00.000Z", "Older decision");
+    const newer = mkRun("2026-01-02T10:00:00.000Z", "Newer decision");
+    await saveRun(older, dir);
+    await saveRun(newer, dir);
+
+    const list = await listRuns(dir);
+    expect(list.map((r) => r.decision)).toEqual(["Newer decision", "Older decision"]);
+    expect(list[0]).toMatchObject({ decisionStatus: "INSUFFICIENT_EVIDENCE", confidence: 0.2 });
+
+    const fetched = await getRun(older.id, dir);
+    expect(fetched?.timings.totalMs).toBe(6);
+    expect(toResearchResponse(fetched!).meta).toMatchObject({ outputLanguage: "en", timings: { totalMs: 6 } });
+
+    expect(await deleteRun(older.id, dir)).toBe(true);
+    expect(await deleteRun(older.id, dir)).toBe(false);
+    expect((await listRuns(dir)).map((r) => r.id)).toEqual([newer.id]);
+  });
+
+  it("lists runs from their summary files and falls back to the run for older ones", async () => {
+    const summarized = mkRun("2026-01-02T10:00:00.000Z", "Summarized");
+    const legacy = mkRun("2026-01-01T10:00:00.000Z", "Legacy");
+    await saveRun(summarized, dir);
+    await writeFile(path.join(dir, `${legacy.id}.json`), JSON.stringify(legacy));
+
+    // listing must not depend on the full run file
+    await writeFile(path.join(dir, `${summarized.id}.json`), "{not json");
+
+    expect((await listRuns(dir)).map((r) => r.decision)).toEqual(["Summarized", "Legacy"]);
+    expect(await readdir(dir)).toContain(`${summarized.id}.summary.json`);
+
+    await saveRun(summarized, dir);
+    await deleteRun(summarized.id, dir);
+    expect(await readdir(dir)).toEqual([`${legacy.id}.json`]);
+  });
+
+  it("rejects ids that could escape the history directory and skips junk files", async () => {
+    await writeFile(path.join(dir, "not-a-run.txt"), "x");
+    await writeFile(path.join(dir, "broken-run-id.json"), "{not json");
+
+    expect(await getRun("../etc/passwd", dir)).toBeNull();
+    await expect(saveRun({ ...mkRun("2026-01-01T00:00:00.000Z", "x"), id: "../x" }, dir)).rejects.toThrow();
+    expect(await listRuns(dir)).toEqual([]);
+  });
+
+  it("returns an empty list when the directory does not exist yet", async () => {
+    expect(await listRuns(path.join(dir, "missing"))).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+// src/lib/research/history.ts
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import type { PipelineOutput } from "@/lib/research/pipeline";
+import type { Report } from "@/lib/research/report.Schema";
+import type { CitationVerification } from "@/lib/research/verifyCitations";
+import type { DecisionStage } from "@/lib/research/decisionStage";
+
+export type RunTimings = {
+  translateMs: number;
+  pipelineMs: number;
+  reportMs: number;
+  totalMs: number;
+};
+
+/**
+ * Everything needed to reopen a run without re-running research.
+ */
+export type ResearchRun = {
+  id: string;
+  createdAt: string;
+  goal: string;
+  decision: string;
+  inputs: Record<string, unknown>;
+  output: PipelineOutput;
+  report: Report;
+  citations?: CitationVerification;
+  // structured decision (risks, unknowns, confidence level), reconciled with the report
+  decisionStage?: DecisionStage;
+  meta: Record<string, unknown>;
+  timings: RunTimings;
+};
+
+export type ResearchRunSummary = {
+  id: string;
+  createdAt: string;
+  goal: string;
+  decision: string;
+  decisionStatus: PipelineOutput["decisionStatus"];
+  confidence: number;
+};
+
+const ID_RE = /^[a-z0-9-]{8,64}$/;
+
+// Runs are stored as one JSON file each: <dir>/<id>.json, with the list entry
+// alongside in <dir>/<id>.summary.json so listing never parses whole runs.
+export function historyDir(): string {
+  return process.env.RESEARCH_HISTORY_DIR || path.join(process.cwd(), ".research", "runs");
+}
+
+export function isRunId(id: string): boolean {
+  return ID_RE.test(id);
+}
+
+export function newRunId(now = new Date()): string {
+  // time-sortable prefix + random suffix
+  return `${now.getTime().toString(36)}-${randomUUID().slice(0, 8)}`;
+}
+
+function summaryOf(run: ResearchRun): ResearchRunSummary {
+  return {
+    id: run.id,
+    createdAt: run.createdAt,
+    goal: run.goal,
+    decision: run.decision,
+    decisionStatus: run.output.decisionStatus,
+    confidence: run.output.confidenceOverview.overall,
+  };
+}
+
+export async function saveRun(run: ResearchRun, dir = historyDir()): Promise<void> {
+  if (!isRunId(run.id)) throw new Error(`Invalid run id: ${run.id}`);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, `${run.id}.json`), JSON.stringify(run), "utf8");
+  await writeFile(path.join(dir, `${run.id}.summary.json`), JSON.stringify(summaryOf(run)), "utf8");
+}
+
+export async function getRun(id: string, dir = historyDir()): Promise<ResearchRun | null> {
+  if (!isRunId(id)) return null;
+  try {
+    return JSON.parse(await readFile(path.join(dir, `${id}.json`), "utf8")) as ResearchRun;
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteRun(id: string, dir = historyDir()): Promise<boolean> {
+  if (!(await getRun(id, dir))) return false;
+  await rm(path.join(dir, `${id}.summary.json`), { force: true });
+  await rm(path.join(dir, `${id}.json`), { force: true });
+  return true;
+}
+
+async function getSummary(id: string, dir: string): Promise<ResearchRunSummary | null> {
+  try {
+    return JSON.parse(await readFile(path.join(dir, `${id}.summary.json`), "utf8")) as ResearchRunSummary;
+  } catch {
+    // runs saved before summaries existed
+    const run = await getRun(id, dir);
+    return run && summaryOf(run);
+  }
+}
+
+/**
+ * Newest first, from the summary files. Unreadable files are skipped.
+ */
+export async function listRuns(dir = historyDir(), limit = 50): Promise<ResearchRunSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const ids = files
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.slice(0, -".json".length))
+    .filter(isRunId);
+
+  const summaries = await Promise.all(ids.map((id) => getSummary(id, dir)));
+
+  return summaries
+    .filter((r): r is ResearchRunSummary => r !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
+
+/**
+ * API response shape of `/api/research`; reopened runs use the same shape.
+ */
+export function toResearchResponse(run: ResearchRun) {
+  return {
+    runId: run.id,
+    createdAt: run.createdAt,
+    decisionStatus: run.output.decisionStatus,
+    confidenceOverview: run.output.confidenceOverview,
+    gateMetrics: run.output.gateMetrics,
+    buckets: run.output.buckets,
+    corroboration: run.output.corroboration,
+    conflicts: run.output.conflicts,
+    ...(run.output.usageLimited ? { usageLimited: run.output.usageLimited } : {}),
+    report: run.report,
+    citations: run.citations,
+    decisionStage: run.decisionStage,
+    // keep the rest for debugging/traceability and current UI compatibility
+    sources: run.output.sources,
+    debug: run.output.debug,
+    meta: { ...run.meta, timings: run.timings },
+  };
+}
@@ -0,0 +1,78 @@
+// src/lib/research/i18n/de.ts
+import type { Messages } from "@/lib/research/i18n/types";
+
+export const de: Messages = {
+  prompt: {
+    writeIn: "Schreibe auf Deutsch.",
+    evidenceSufficient: "Die Beweislage ist ausreichend. Gib eine klare Empfehlung.",
+    evidenceInsufficient:
+      "Die Beweislage ist unzureichend. Die Empfehlung muss das widerspiegeln (aufschieben/mehr Belege sammeln).",
+  },
+  gate: {
+    passed: "Prüfung bestanden",
+    failed: "Prüfung nicht bestanden",
+    summary: (head, m) =>
+      `${head}: ${m.sources} Quellen aus ${m.uniqueDomains} Domains; Ø-Score ${m.avgScore}, Top ${m.topSourceScore}, Top-3 Ø ${m.top3AvgScore}; ${m.lowInfoRatio} Quellen mit wenig Information.`,
+  },
+  noEvidenceFor: (buckets) => `Keine Belege für: ${buckets}.`,
+  recommendation: {
+    fromEvidence: (goal, decision, top) =>
+      `Empfehlung (auf Basis der gesammelten Belege):\n\nZiel: ${goal}\nEntscheidung: ${decision}\n\nWichtigste Quellen:\n${top}`,
+    safeDefault: (goal, decision) =>
+      `Unzureichende Belege für eine belastbare Empfehlung.\n\nSichere Standardwahl:\n- Explizite Entscheidungskriterien festlegen (Muss / Kann).\n- 3–5 zusätzliche primäre/maßgebliche Quellen sammeln.\n- Die Recherche mit engerem Umfang wiederholen.\n\nKontext:\nZiel: ${goal}\nEntscheidung: ${decision}`,
+  },
+  recency: {
+    undated: "Für keine Quelle ist das Veröffentlichungsdatum bekannt; unklar ist, ob die Belege aktuell sind.",
+    stale: (stale, dated, months, newest) =>
+      `Belege sind möglicherweise veraltet: ${stale} von ${dated} datierten Quellen sind älter als ${months} Monate (neueste: ${newest}).`,
+  },
+  conflicts: {
+    unresolved: (n) =>
+      n === 1
+        ? "1 ungelöster Widerspruch zwischen Quellen senkt die Konfidenz."
+        : `${n} ungelöste Widersprüche zwischen Quellen senken die Konfidenz.`,
+    note: (sides) => `Quellen widersprechen sich: ${sides.join(" gegenüber ")}.`,
+  },
+  reducedCoverage: (pct) => `${pct} der Suchanfragen sind fehlgeschlagen; die Abdeckung ist dadurch eingeschränkt.`,
+  usageLimited: (n) =>
+    n === 1
+      ? "Das Nutzungslimit hat die Recherche vorzeitig beendet; 1 geplante Suchanfrage wurde nicht ausgeführt."
+      : `Das Nutzungslimit hat die Recherche vorzeitig beendet; ${n} geplante Suchanfragen wurden nicht ausgeführt.`,
+  degraded: {
+    generationFailed: "Die automatische Berichterstellung ist fehlgeschlagen; dies ist das Ergebnis der Recherche-Pipeline.",
+    decisionStatus: (status) => `Entscheidungsstatus: ${status}`,
+    confidence: (pct) => `Konfidenz: ${pct}%`,
+    sourcesAcross: (sources, domains) => `${sources} Quellen aus ${domains} Domains`,
+    topSource: (title, n) => `Wichtigste Quelle: ${title} [${n}]`,
+    noSourcesFound: "Es wurden keine Quellen gefunden.",
+    noSourcesRetrieved: "Es wurden keine Quellen abgerufen.",
+    contentNote:
+      "Dies sind die am besten bewerteten Quellen der Pipeline mit ihren Such-Snippets. Sie wurden nicht zu einem Text verarbeitet, weil der Bericht die Validierung nicht bestanden hat.",
+    scores: (sources, avg, top3) => `${sources} Quellen, durchschnittlicher Score ${avg}, Top-3-Durchschnitt ${top3}.`,
+    readSources: "Der ausformulierte Bericht konnte nicht erstellt werden; lies die zitierten Quellen direkt.",
+    choiceRecommendation: "Empfehlung",
+    choiceSafeDefault: "Sichere Standardwahl",
+    sectionTitle: "Gesammelte Belege",
+    sectionIntro: "Überblick über die Quellen der Recherche-Pipeline, sortiert nach Score.",
+  },
+  labels: {
+    title: "Recherchebericht",
+    brief: "Management-Zusammenfassung",
+    status: "Entscheidungsstatus",
+    confidence: "Konfidenz",
+    goal: "Ziel",
+    decision: "Entscheidung",
+    summary: "Zusammenfassung",
+    recommendation: "Empfehlung",
+    choice: "Wahl",
+    why: "Begründung",
+    conditions: "Bedingungen",
+    uncertainties: "Unsicherheiten",
+    research: "Recherche",
+    intro: "Einleitung",
+    conclusion: "Fazit",
+    sources: "Quellen",
+    keySources: "Wichtigste Quellen",
+    published: "veröffentlicht",
+  },
+};
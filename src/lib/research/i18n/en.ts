@@ -0,0 +1,77 @@
+// src/lib/research/i18n/en.ts
+import type { Messages } from "@/lib/research/i18n/types";
+
+export const en: Messages = {
+  prompt: {
+    writeIn: "Write in English.",
+    evidenceSufficient: "Evidence is sufficient. Make a clear recommendation.",
+    evidenceInsufficient: "Evidence is insufficient. Recommendation must reflect this (delay/collect more evidence).",
+  },
+  gate: {
+    passed: "Gate passed",
+    failed: "Gate failed",
+    summary: (head, m) =>
+      `${head}: ${m.sources} sources across ${m.uniqueDomains} domains; avg score ${m.avgScore}, top ${m.topSourceScore}, top-3 avg ${m.top3AvgScore}; ${m.lowInfoRatio} low-information sources.`,
+  },
+  noEvidenceFor: (buckets) => `No evidence for: ${buckets}.`,
+  recommendation: {
+    fromEvidence: (goal, decision, top) =>
+      `Recommendation (based on collected evidence):\n\nGoal: ${goal}\nDecision: ${decision}\n\nTop sources:\n${top}`,
+    safeDefault: (goal, decision) =>
+      `Insufficient evidence to make a robust recommendation.\n\nSafe default:\n- Define explicit decision criteria (must-haves / nice-to-haves).\n- Collect 3–5 additional primary/authoritative sources.\n- Re-run the research with a tighter scope.\n\nContext:\nGoal: ${goal}\nDecision: ${decision}`,
+  },
+  recency: {
+    undated: "Publication dates are unknown for all sources, so it is unclear whether the evidence is current.",
+    stale: (stale, dated, months, newest) =>
+      `Evidence may be outdated: ${stale} of ${dated} dated sources are older than ${months} months (newest: ${newest}).`,
+  },
+  conflicts: {
+    unresolved: (n) =>
+      n === 1
+        ? "1 unresolved conflict between sources lowers the confidence."
+        : `${n} unresolved conflicts between sources lower the confidence.`,
+    note: (sides) => `Sources disagree: ${sides.join(" versus ")}.`,
+  },
+  reducedCoverage: (pct) => `${pct} of the searches failed, so coverage is reduced.`,
+  usageLimited: (n) =>
+    n === 1
+      ? "The usage limit stopped the research early; 1 planned search was not run."
+      : `The usage limit stopped the research early; ${n} planned searches were not run.`,
+  degraded: {
+    generationFailed: "Automatic report generation failed; this is the research pipeline result.",
+    decisionStatus: (status) => `Decision status: ${status}`,
+    confidence: (pct) => `Confidence: ${pct}%`,
+    sourcesAcross: (sources, domains) => `${sources} sources across ${domains} domains`,
+    topSource: (title, n) => `Top source: ${title} [${n}]`,
+    noSourcesFound: "No sources were found.",
+    noSourcesRetrieved: "No sources were retrieved.",
+    contentNote:
+      "These are the highest-scoring sources the pipeline retrieved, with their search snippets. They have not been synthesized into a narrative because report generation failed validation.",
+    scores: (sources, avg, top3) => `${sources} sources, average score ${avg}, top-3 average ${top3}.`,
+    readSources: "The narrative report could not be generated; read the cited sources directly.",
+    choiceRecommendation: "Recommendation",
+    choiceSafeDefault: "Safe default",
+    sectionTitle: "Collected evidence",
+    sectionIntro: "Overview of the sources found by the research pipeline, ordered by score.",
+  },
+  labels: {
+    title: "Deep Research Report",
+    brief: "Executive Brief",
+    status: "Decision status",
+    confidence: "Confidence",
+    goal: "Goal",
+    decision: "Decision",
+    summary: "Summary",
+    recommendation: "Recommendation",
+    choice: "Choice",
+    why: "Why",
+    conditions: "Conditions",
+    uncertainties: "Uncertainties",
+    research: "Research",
+    intro: "Intro",
+    conclusion: "Conclusion",
+    sources: "Sources",
+    keySources: "Key sources",
+    published: "published",
+  },
+};
@@ -0,0 +1,78 @@
+// src/lib/research/i18n/fr.ts
+import type { Messages } from "@/lib/research/i18n/types";
+
+export const fr: Messages = {
+  prompt: {
+    writeIn: "Rédige en français.",
+    evidenceSufficient: "Les preuves sont suffisantes. Formule une recommandation claire.",
+    evidenceInsufficient:
+      "Les preuves sont insuffisantes. La recommandation doit le refléter (reporter/recueillir davantage de preuves).",
+  },
+  gate: {
+    passed: "Contrôle réussi",
+    failed: "Contrôle échoué",
+    summary: (head, m) =>
+      `${head} : ${m.sources} sources sur ${m.uniqueDomains} domaines ; score moyen ${m.avgScore}, meilleur ${m.topSourceScore}, moyenne top 3 ${m.top3AvgScore} ; ${m.lowInfoRatio} de sources peu informatives.`,
+  },
+  noEvidenceFor: (buckets) => `Aucune preuve pour : ${buckets}.`,
+  recommendation: {
+    fromEvidence: (goal, decision, top) =>
+      `Recommandation (fondée sur les preuves recueillies) :\n\nObjectif : ${goal}\nDécision : ${decision}\n\nPrincipales sources :\n${top}`,
+    safeDefault: (goal, decision) =>
+      `Preuves insuffisantes pour une recommandation solide.\n\nChoix prudent par défaut :\n- Définir des critères de décision explicites (indispensables / souhaitables).\n- Recueillir 3 à 5 sources primaires/de référence supplémentaires.\n- Relancer la recherche avec un périmètre plus resserré.\n\nContexte :\nObjectif : ${goal}\nDécision : ${decision}`,
+  },
+  recency: {
+    undated: "La date de publication d'aucune source n'est connue ; on ne sait pas si les preuves sont à jour.",
+    stale: (stale, dated, months, newest) =>
+      `Les preuves sont peut-être dépassées : ${stale} des ${dated} sources datées ont plus de ${months} mois (la plus récente : ${newest}).`,
+  },
+  conflicts: {
+    unresolved: (n) =>
+      n === 1
+        ? "1 contradiction non résolue entre les sources réduit la confiance."
+        : `${n} contradictions non résolues entre les sources réduisent la confiance.`,
+    note: (sides) => `Les sources se contredisent : ${sides.join(" contre ")}.`,
+  },
+  reducedCoverage: (pct) => `${pct} des recherches ont échoué ; la couverture est donc réduite.`,
+  usageLimited: (n) =>
+    n === 1
+      ? "La limite d'utilisation a arrêté la recherche prématurément ; 1 recherche prévue n'a pas été lancée."
+      : `La limite d'utilisation a arrêté la recherche prématurément ; ${n} recherches prévues n'ont pas été lancées.`,
+  degraded: {
+    generationFailed: "La génération automatique du rapport a échoué ; voici le résultat du pipeline de recherche.",
+    decisionStatus: (status) => `Statut de la décision : ${status}`,
+    confidence: (pct) => `Confiance : ${pct} %`,
+    sourcesAcross: (sources, domains) => `${sources} sources sur ${domains} domaines`,
+    topSource: (title, n) => `Source principale : ${title} [${n}]`,
+    noSourcesFound: "Aucune source n'a été trouvée.",
+    noSourcesRetrieved: "Aucune source n'a été récupérée.",
+    contentNote:
+      "Voici les sources les mieux notées récupérées par le pipeline, avec leurs extraits de recherche. Elles n'ont pas été rédigées en texte suivi car le rapport n'a pas passé la validation.",
+    scores: (sources, avg, top3) => `${sources} sources, score moyen ${avg}, moyenne top 3 ${top3}.`,
+    readSources: "Le rapport rédigé n'a pas pu être généré ; consultez directement les sources citées.",
+    choiceRecommendation: "Recommandation",
+    choiceSafeDefault: "Choix prudent par défaut",
+    sectionTitle: "Preuves recueillies",
+    sectionIntro: "Aperçu des sources trouvées par le pipeline de recherche, triées par score.",
+  },
+  labels: {
+    title: "Rapport de recherche",
+    brief: "Note de synthèse",
+    status: "Statut de la décision",
+    confidence: "Confiance",
+    goal: "Objectif",
+    decision: "Décision",
+    summary: "Résumé",
+    recommendation: "Recommandation",
+    choice: "Choix",
+    why: "Pourquoi",
+    conditions: "Conditions",
+    uncertainties: "Incertitudes",
+    research: "Recherche",
+    intro: "Introduction",
+    conclusion: "Conclusion",
+    sources: "Sources",
+    keySources: "Sources principales",
+    published: "publié le",
+  },
+};
@@ -0,0 +1,65 @@
+// src/lib/research/i18n/i18n.test.ts
+import { describe, it, expect } from "vitest";
+import { createFakeLlmClient } from "@/lib/research/llm/fake";
+import { ResearchRequestSchema } from "@/lib/research/schema";
+import { runResearchPipeline } from "@/lib/research/pipeline";
+import { staleEvidenceNote } from "@/lib/research/recency";
+import {
+  detectLanguage,
+  messages,
+  SUPPORTED_LANGUAGES,
+  translateToResearchLanguage,
+} from "@/lib/research/i18n";
+
+describe("detectLanguage", () => {
+  it("recognises short inputs with the lower bounds", () => {
+    const short = { minWords: 3, minHits: 2 };
+    expect(detectLanguage("Welke CRM moeten wij kiezen voor ons team?", short)).toBe("nl");
+    expect(detectLanguage("Which CRM should we pick for our team?", short)).toBe("en");
+    expect(detectLanguage("Welches CRM sollen wir für unser Team wählen?", short)).toBe("de");
+    expect(detectLanguage("Quel CRM devons-nous choisir pour notre équipe ?", short)).toBe("fr");
+    expect(detectLanguage("CRM vendor shortlist", short)).toBeUndefined();
+  });
+});
+
+describe("translateToResearchLanguage", () => {
+  it("translates any detected non-English input and names the language in the prompt", async () => {
+    const llm = createFakeLlmClient(() => "Which CRM should we choose for our team?");
+    const out = await translateToResearchLanguage(llm, "Welches CRM sollen wir für unser Team wählen?");
+    expect(out).toEqual({ textEn: "Which CRM should we choose for our team?", translated: true, language: "de" });
+    expect(llm.calls[0].input).toMatch(/^Translate the following German text to English\./);
+  });
+
+  it("passes English and undetectable input through without a model call", async () => {
+    const llm = createFakeLlmClient(() => "unused");
+    expect(await translateToResearchLanguage(llm, "Which CRM should we pick for our team?")).toEqual({
+      textEn: "Which CRM should we pick for our team?",
+      translated: false,
+      language: "en",
+    });
+    expect(await translateToResearchLanguage(llm, "CRM")).toEqual({ textEn: "CRM", translated: false });
+    expect(llm.calls).toHaveLength(0);
+  });
+});
+
+describe("message catalogs", () => {
+  it("has every supported language and accepts them in requests", () => {
+    for (const lang of SUPPORTED_LANGUAGES) {
+      expect(messages(lang).labels.title).toBeTruthy();
+      expect(ResearchRequestSchema.safeParse({ goal: "g", decision: "d", outputLanguage: lang }).success).toBe(true);
+    }
+    expect(messages(undefined)).toBe(messages("nl"));
+  });
+
+  it("writes pipeline strings in the requested language", async () => {
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured", outputLanguage: "de" },
+      { searcher: async () => [], budget: { maxIterations: 0 } }
+    );
+    expect(out.confidenceOverview.rationale).toMatch(/^Prüfung nicht bestanden: 0 Quellen aus 0 Domains/);
+    expect(out.recommendationOrSafeDefault).toMatch(/^Unzureichende Belege/);
+
+    const undated = { timeHorizon: "now" as const, dated: 0, recent: 0, stale: 0 };
+    expect(staleEvidenceNote(undated, "fr")).toMatch(/^La date de publication/);
+  });
+});
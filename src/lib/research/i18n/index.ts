@@ -0,0 +1,95 @@
+// src/lib/research/i18n/index.ts
+import type { OutputLanguage } from "@/types/research";
+import type { LlmClient } from "@/lib/research/llm";
+import type { Messages } from "@/lib/research/i18n/types";
+import { OutputLanguageSchema } from "@/lib/research/schema";
+import { de } from "@/lib/research/i18n/de";
+import { en } from "@/lib/research/i18n/en";
+import { fr } from "@/lib/research/i18n/fr";
+import { nl } from "@/lib/research/i18n/nl";
+
+export type { GateSummaryText, Messages } from "@/lib/research/i18n/types";
+
+export const SUPPORTED_LANGUAGES = OutputLanguageSchema.options;
+
+// Used when the request does not name an output language.
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = "nl";
+
+// Queries, scoring and planning always run in English; only input and output are translated.
+export const RESEARCH_LANGUAGE = "en";
+
+const CATALOGS: Record<OutputLanguage, Messages> = { nl, en, de, fr };
+
+// English names for prompts, for every language detectLanguage can return.
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  nl: "Dutch",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+};
+
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return OutputLanguageSchema.safeParse(value).success;
+}
+
+/**
+ * Catalog for the language; anything unsupported (or missing) gets the
+ * default output language, never a mix.
+ */
+export function messages(lang: OutputLanguage | undefined): Messages {
+  return CATALOGS[lang ?? DEFAULT_OUTPUT_LANGUAGE] ?? CATALOGS[DEFAULT_OUTPUT_LANGUAGE];
+}
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "is", "that", "for", "with", "are", "this", "we", "our", "which", "should", "what"],
+  nl: ["de", "het", "een", "en", "van", "is", "dat", "voor", "met", "niet", "wij", "ons", "onze", "welke", "moeten"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "mit", "für", "auf", "ein", "wir", "unser", "welche", "sollen"],
+  fr: ["le", "la", "les", "et", "des", "est", "une", "pour", "dans", "que", "nous", "notre", "quel", "quelle", "doit"],
+  es: ["el", "la", "los", "y", "de", "que", "es", "para", "con", "una", "las", "del", "por", "nuestro", "debemos"],
+};
+
+/**
+ * Stopword vote over en/nl/de/fr/es; undefined for short or ambiguous text.
+ * The defaults suit page content; short inputs such as a goal need lower bounds.
+ */
+export function detectLanguage(text: string, opts: { minWords?: number; minHits?: number } = {}): string | undefined {
+  const { minWords = 8, minHits = 3 } = opts;
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length < minWords) return undefined;
+
+  const ranked = Object.entries(STOPWORDS)
+    .map(([lang, stop]) => ({ lang, hits: words.filter((w) => stop.includes(w)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  const [first, second] = ranked;
+  if (first.hits < minHits || first.hits < second.hits * 1.5) return undefined;
+  return first.lang;
+}
+
+export type Translation = {
+  textEn: string;
+  translated: boolean;
+  // detected input language; undefined when too short or ambiguous to tell
+  language?: string;
+};
+
+/**
+ * Translates user input to the research language. Input already in English,
+ * or in no recognisable language, is passed through unchanged.
+ */
+export async function translateToResearchLanguage(llm: LlmClient, text: string): Promise<Translation> {
+  const t = String(text ?? "").trim();
+  if (!t) return { textEn: "", translated: false };
+
+  const language = detectLanguage(t, { minWords: 3, minHits: 2 });
+  if (!language || language === RESEARCH_LANGUAGE) return { textEn: t, translated: false, language };
+
+  const name = LANGUAGE_NAMES[language];
+  const out = await llm.complete({
+    task: "translate",
+    input: `Translate the following ${name} text to English. Output ONLY the English translation.\n\n${name}:\n${t}\n\nEnglish:`,
+  });
+
+  if (!out) return { textEn: t, translated: false, language };
+  return { textEn: out, translated: true, language };
+}
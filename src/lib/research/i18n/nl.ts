@@ -0,0 +1,77 @@
+// src/lib/research/i18n/nl.ts
+import type { Messages } from "@/lib/research/i18n/types";
+
+export const nl: Messages = {
+  prompt: {
+    writeIn: "Schrijf in het Nederlands.",
+    evidenceSufficient: "Er is voldoende bewijs. Maak een heldere aanbeveling.",
+    evidenceInsufficient: "Er is onvoldoende bewijs. Aanbeveling moet dit weerspiegelen (uitstellen/meer bewijs).",
+  },
+  gate: {
+    passed: "Gate gehaald",
+    failed: "Gate niet gehaald",
+    summary: (head, m) =>
+      `${head}: ${m.sources} bronnen over ${m.uniqueDomains} domeinen; gem. score ${m.avgScore}, top ${m.topSourceScore}, top-3 gem. ${m.top3AvgScore}; ${m.lowInfoRatio} bronnen met weinig informatie.`,
+  },
+  noEvidenceFor: (buckets) => `Geen bewijs voor: ${buckets}.`,
+  recommendation: {
+    fromEvidence: (goal, decision, top) =>
+      `Aanbeveling (op basis van gevonden evidence):\n\nDoel: ${goal}\nBeslissing: ${decision}\n\nTop bronnen:\n${top}`,
+    safeDefault: (goal, decision) =>
+      `Onvoldoende bewijs om een robuuste aanbeveling te doen.\n\nSafe default:\n- Formuleer expliciete besliscriteria (must-haves / nice-to-haves).\n- Verzamel 3–5 extra primaire/autoritatieve bronnen.\n- Herhaal het onderzoek met aangescherpte scope.\n\nContext:\nDoel: ${goal}\nBeslissing: ${decision}`,
+  },
+  recency: {
+    undated: "Van geen enkele bron is de publicatiedatum bekend; onduidelijk is of het bewijs actueel is.",
+    stale: (stale, dated, months, newest) =>
+      `Bewijs is mogelijk verouderd: ${stale} van ${dated} gedateerde bronnen zijn ouder dan ${months} maanden (nieuwste: ${newest}).`,
+  },
+  conflicts: {
+    unresolved: (n) =>
+      n === 1
+        ? "1 onopgelost conflict tussen bronnen verlaagt de betrouwbaarheid."
+        : `${n} onopgeloste conflicten tussen bronnen verlagen de betrouwbaarheid.`,
+    note: (sides) => `Bronnen spreken elkaar tegen: ${sides.join(" tegenover ")}.`,
+  },
+  reducedCoverage: (pct) => `${pct} van de zoekopdrachten mislukte; de dekking is daardoor beperkt.`,
+  usageLimited: (n) =>
+    n === 1
+      ? "De gebruikslimiet stopte het onderzoek vroegtijdig; 1 geplande zoekopdracht is niet uitgevoerd."
+      : `De gebruikslimiet stopte het onderzoek vroegtijdig; ${n} geplande zoekopdrachten zijn niet uitgevoerd.`,
+  degraded: {
+    generationFailed: "Automatisch rapport genereren mislukt; dit is het resultaat van de research-pipeline.",
+    decisionStatus: (status) => `Beslisstatus: ${status}`,
+    confidence: (pct) => `Betrouwbaarheid: ${pct}%`,
+    sourcesAcross: (sources, domains) => `${sources} bronnen over ${domains} domeinen`,
+    topSource: (title, n) => `Belangrijkste bron: ${title} [${n}]`,
+    noSourcesFound: "Er zijn geen bronnen gevonden.",
+    noSourcesRetrieved: "Er zijn geen bronnen opgehaald.",
+    contentNote:
+      "Dit zijn de best scorende bronnen die de pipeline heeft opgehaald, met hun zoeksnippets. Ze zijn niet tot een verhaal verwerkt omdat het rapport de validatie niet doorstond.",
+    scores: (sources, avg, top3) => `${sources} bronnen, gemiddelde score ${avg}, top-3 gemiddelde ${top3}.`,
+    readSources: "Het verhalende rapport kon niet worden gegenereerd; lees de geciteerde bronnen zelf.",
+    choiceRecommendation: "Aanbeveling",
+    choiceSafeDefault: "Veilige standaardkeuze",
+    sectionTitle: "Verzameld bewijs",
+    sectionIntro: "Overzicht van de bronnen die de research-pipeline vond, gesorteerd op score.",
+  },
+  labels: {
+    title: "Onderzoeksrapport",
+    brief: "Managementsamenvatting",
+    status: "Beslisstatus",
+    confidence: "Betrouwbaarheid",
+    goal: "Doel",
+    decision: "Beslissing",
+    summary: "Samenvatting",
+    recommendation: "Aanbeveling",
+    choice: "Keuze",
+    why: "Waarom",
+    conditions: "Voorwaarden",
+    uncertainties: "Onzekerheden",
+    research: "Onderzoek",
+    intro: "Inleiding",
+    conclusion: "Conclusie",
+    sources: "Bronnen",
+    keySources: "Belangrijkste bronnen",
+    published: "gepubliceerd",
+  },
+};
@@ -0,0 +1,86 @@
+// src/lib/research/i18n/types.ts
+
+// Gate metrics pre-formatted for the confidence rationale (scores to 2 decimals, ratios as %).
+export type GateSummaryText = {
+  sources: number;
+  uniqueDomains: number;
+  avgScore: string;
+  topSourceScore: string;
+  top3AvgScore: string;
+  lowInfoRatio: string;
+};
+
+/**
+ * Fixed strings the pipeline writes itself (everything the model does not
+ * write). One catalog per output language; all keys are required so a new
+ * language cannot ship half translated.
+ */
+export type Messages = {
+  prompt: {
+    // instruction for the report model
+    writeIn: string;
+    evidenceSufficient: string;
+    evidenceInsufficient: string;
+  };
+  gate: {
+    passed: string;
+    failed: string;
+    summary: (head: string, m: GateSummaryText) => string;
+  };
+  noEvidenceFor: (buckets: string) => string;
+  recommendation: {
+    fromEvidence: (goal: string, decision: string, topSources: string) => string;
+    safeDefault: (goal: string, decision: string) => string;
+  };
+  recency: {
+    undated: string;
+    stale: (stale: number, dated: number, months: number, newest: string) => string;
+  };
+  conflicts: {
+    // appended to the confidence rationale
+    unresolved: (count: number) => string;
+    // report uncertainty; each side is the quoted claim with its [n] citations
+    note: (sides: string[]) => string;
+  };
+  // appended to the confidence rationale; share of searches that failed, as %
+  reducedCoverage: (failedPct: string) => string;
+  // rationale and report uncertainty when a usage limit blocked planned searches
+  usageLimited: (skipped: number) => string;
+  degraded: {
+    generationFailed: string;
+    decisionStatus: (status: string) => string;
+    confidence: (pct: number) => string;
+    sourcesAcross: (sources: number, domains: number) => string;
+    topSource: (title: string, n: number) => string;
+    noSourcesFound: string;
+    noSourcesRetrieved: string;
+    contentNote: string;
+    scores: (sources: number, avg: string, top3: string) => string;
+    readSources: string;
+    choiceRecommendation: string;
+    choiceSafeDefault: string;
+    sectionTitle: string;
+    sectionIntro: string;
+  };
+  // headings and labels of the rendered report (composeReport)
+  labels: {
+    title: string;
+    brief: string;
+    status: string;
+    confidence: string;
+    goal: string;
+    decision: string;
+    summary: string;
+    recommendation: string;
+    choice: string;
+    why: string;
+    conditions: string;
+    uncertainties: string;
+    research: string;
+    intro: string;
+    conclusion: string;
+    sources: string;
+    keySources: string;
+    published: string;
+  };
+};
@@ -0,0 +1,91 @@
+// src/lib/research/jsonSchema.test.ts
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { ReportContentSchema, ReportSchema } from "@/lib/research/report.Schema";
+import { nullsToUndefined, strictTextFormat, toStrictJsonSchema, type JsonSchema } from "@/lib/research/jsonSchema";
+
+// The parts of a JSON schema node these tests look at.
+type Node = {
+  type?: string | string[];
+  properties?: Record<string, Node>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: Node;
+  anyOf?: Node[];
+  description?: string;
+  minLength?: number;
+};
+
+function asNode(schema: JsonSchema): Node {
+  return schema as Node;
+}
+
+function objectsIn(node: Node): Node[] {
+  const out: Node[] = [];
+  if (node.type === "object") out.push(node);
+  for (const child of Object.values(node.properties ?? {})) out.push(...objectsIn(child));
+  if (node.items) out.push(...objectsIn(node.items));
+  for (const alt of node.anyOf ?? []) out.push(...objectsIn(alt));
+  return out;
+}
+
+// Walks property names; "[]" steps into array items.
+function at(node: Node, ...path: string[]): Node {
+  return path.reduce((n, key) => {
+    const next = key === "[]" ? n.items : n.properties?.[key];
+    if (!next) throw new Error(`No schema at ${path.join(".")}`);
+    return next;
+  }, node);
+}
+
+describe("toStrictJsonSchema", () => {
+  it("makes every object closed with all properties required", () => {
+    const objects = objectsIn(asNode(toStrictJsonSchema(ReportSchema)));
+
+    expect(objects.length).toBeGreaterThanOrEqual(4);
+    for (const o of objects) {
+      expect(o.additionalProperties).toBe(false);
+      expect([...(o.required ?? [])].sort()).toEqual(Object.keys(o.properties ?? {}).sort());
+    }
+  });
+
+  it("keeps array bounds and turns string rules into descriptions", () => {
+    const schema = asNode(toStrictJsonSchema(ReportContentSchema));
+
+    expect(at(schema, "summaryBullets")).toMatchObject({ minItems: 5, maxItems: 10 });
+    expect(at(schema, "summaryBullets", "[]").description).toBe("At most 120 characters.");
+    expect(at(schema, "recommendation", "why")).toMatchObject({ minItems: 3, maxItems: 6 });
+    expect(at(schema, "summaryText")).toEqual({ type: "string", description: "At most 250 words." });
+
+    const content = at(schema, "research", "[]", "content");
+    expect(content.description).toBe("Full content with [n] citations throughout. At least 200 characters.");
+    expect(content.minLength).toBeUndefined();
+  });
+
+  it("represents optional fields as nullable", () => {
+    const Shape = z.object({
+      note: z.string().optional(),
+      level: z.enum(["low", "high"]).nullable(),
+      n: z.number().int().positive(),
+    });
+    const schema = asNode(toStrictJsonSchema(Shape));
+
+    expect(at(schema, "note")).toEqual({ type: ["string", "null"] });
+    expect(at(schema, "level")).toEqual({ type: ["string", "null"], enum: ["low", "high", null] });
+    expect(at(schema, "n")).toEqual({ type: "integer", exclusiveMinimum: 0 });
+  });
+
+  it("rejects types it cannot express", () => {
+    expect(() => toStrictJsonSchema(z.object({ meta: z.record(z.string()) }))).toThrow(/meta/);
+    expect(() => strictTextFormat("bad", z.array(z.string()))).toThrow(/object at the root/);
+  });
+});
+
+describe("nullsToUndefined", () => {
+  it("drops null object properties so optional zod fields parse", () => {
+    const Shape = z.object({ a: z.string().optional(), list: z.array(z.object({ b: z.number().optional() })) });
+    const value = nullsToUndefined({ a: null, list: [{ b: null }, { b: 2 }] });
+
+    expect(Shape.parse(value)).toEqual({ list: [{}, { b: 2 }] });
+  });
+});
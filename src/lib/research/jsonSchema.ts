@@ -0,0 +1,123 @@
+// src/lib/research/jsonSchema.ts
+import { z, type ZodTypeAny } from "zod";
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type StrictTextFormat = {
+  type: "json_schema";
+  name: string;
+  schema: JsonSchema;
+  strict: true;
+};
+
+/**
+ * `text.format` for openai.responses.create, derived from a zod object schema.
+ */
+export function strictTextFormat(name: string, schema: ZodTypeAny): StrictTextFormat {
+  const json = toStrictJsonSchema(schema);
+  if (json.type !== "object") throw new Error(`Structured output "${name}" must have an object at the root`);
+  return { type: "json_schema", name, schema: json, strict: true };
+}
+
+/**
+ * Converts zod to the JSON-schema subset that strict structured outputs accept:
+ * every property required, no additional properties, optional fields as nullable.
+ * String lengths and refinements cannot be expressed there; they become
+ * description hints, so the zod schema stays the validator of record.
+ */
+export function toStrictJsonSchema(schema: ZodTypeAny): JsonSchema {
+  return convert(schema, "");
+}
+
+/**
+ * Strict outputs send `null` for optional fields; zod's `.optional()` wants them absent.
+ */
+export function nullsToUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(nullsToUndefined);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      if (v !== null) out[k] = nullsToUndefined(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+function convert(schema: ZodTypeAny, path: string): JsonSchema {
+  if (schema instanceof z.ZodEffects) {
+    return describe(convert(schema.innerType(), path), schema.description);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return describe(convert(schema.removeDefault(), path), schema.description);
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return describe(nullable(convert(schema.unwrap(), path)), schema.description);
+  }
+
+  const hints: string[] = [];
+  let out: JsonSchema;
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = convert(value, path ? `${path}.${key}` : key);
+    }
+    out = { type: "object", properties, required: Object.keys(shape), additionalProperties: false };
+  } else if (schema instanceof z.ZodArray) {
+    const def = schema._def;
+    out = { type: "array", items: convert(def.type, `${path}[]`) };
+    const min = def.exactLength?.value ?? def.minLength?.value;
+    const max = def.exactLength?.value ?? def.maxLength?.value;
+    if (min !== undefined) out.minItems = min;
+    if (max !== undefined) out.maxItems = max;
+  } else if (schema instanceof z.ZodString) {
+    out = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") hints.push(`At least ${check.value} characters.`);
+      else if (check.kind === "max") hints.push(`At most ${check.value} characters.`);
+      else if (check.kind === "length") hints.push(`Exactly ${check.value} characters.`);
+      else if (check.kind === "url") hints.push("An absolute URL.");
+      else if (check.kind === "email") out.format = "email";
+      else if (check.kind === "uuid") out.format = "uuid";
+      else if (check.kind === "datetime") out.format = "date-time";
+      else if (check.kind === "regex") out.pattern = check.regex.source;
+    }
+  } else if (schema instanceof z.ZodNumber) {
+    out = { type: schema.isInt ? "integer" : "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") out[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      else if (check.kind === "max") out[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  } else if (schema instanceof z.ZodBoolean) {
+    out = { type: "boolean" };
+  } else if (schema instanceof z.ZodEnum) {
+    out = { type: "string", enum: [...schema.options] };
+  } else if (schema instanceof z.ZodLiteral) {
+    out = { type: typeof schema.value, enum: [schema.value] };
+  } else if (schema instanceof z.ZodUnion) {
+    out = { anyOf: (schema.options as ZodTypeAny[]).map((o) => convert(o, path)) };
+  } else {
+    throw new Error(`Unsupported zod type at ${path || "(root)"}: ${schema._def.typeName}`);
+  }
+
+  return describe(out, [schema.description, ...hints].filter(Boolean).join(" "));
+}
+
+function nullable(inner: JsonSchema): JsonSchema {
+  if (Array.isArray(inner.anyOf)) return { ...inner, anyOf: [...inner.anyOf, { type: "null" }] };
+  if (typeof inner.type !== "string") return { anyOf: [inner, { type: "null" }] };
+
+  const out: JsonSchema = { ...inner, type: [inner.type, "null"] };
+  if (Array.isArray(inner.enum)) out.enum = [...inner.enum, null];
+  return out;
+}
+
+function describe(out: JsonSchema, description: string | undefined): JsonSchema {
+  if (!description) return out;
+  const existing = typeof out.description === "string" ? out.description : "";
+  // wrappers such as .optional() copy the inner description
+  if (existing.includes(description)) return out;
+  return { ...out, description: existing ? `${description} ${existing}` : description };
+}
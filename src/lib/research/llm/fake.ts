@@ -0,0 +1,50 @@
+// src/lib/research/llm/fake.ts
+import type { JsonSchema } from "@/lib/research/jsonSchema";
+import type { LlmClient, LlmRequest } from "@/lib/research/llm/types";
+
+export type FakeLlmClient = LlmClient & { calls: LlmRequest[] };
+
+/**
+ * Deterministic backend for tests and offline runs. Without a responder it
+ * answers text tasks with "" and structured tasks with the smallest value the
+ * JSON schema allows (zod rules beyond the schema may still reject it).
+ */
+export function createFakeLlmClient(respond?: (req: LlmRequest) => string | Promise<string>): FakeLlmClient {
+  const calls: LlmRequest[] = [];
+
+  return {
+    backend: "fake",
+    calls,
+    async complete(req) {
+      calls.push(req);
+      if (respond) return (await respond(req)).trim();
+      return req.format ? JSON.stringify(sampleFromJsonSchema(req.format.schema)) : "";
+    },
+  };
+}
+
+export function sampleFromJsonSchema(schema: JsonSchema): unknown {
+  if (Array.isArray(schema.anyOf)) return sampleFromJsonSchema(schema.anyOf[0] as JsonSchema);
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+      return Object.fromEntries(Object.entries(properties).map(([k, v]) => [k, sampleFromJsonSchema(v)]));
+    }
+    case "array": {
+      const count = typeof schema.minItems === "number" ? schema.minItems : 0;
+      return Array.from({ length: count }, () => sampleFromJsonSchema(schema.items as JsonSchema));
+    }
+    case "string":
+      return "fake";
+    case "integer":
+    case "number":
+      return typeof schema.minimum === "number" ? schema.minimum : 1;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,60 @@
+// src/lib/research/llm/index.ts
+import { RESEARCH_CONFIG } from "@/config/research";
+import { getOpenAI } from "@/config/openai";
+import type { LlmBackendId, LlmClient, LlmTask } from "@/lib/research/llm/types";
+import { createOpenAICompatibleLlmClient, createOpenAILlmClient } from "@/lib/research/llm/openai";
+import { createFakeLlmClient } from "@/lib/research/llm/fake";
+
+export type { LlmBackendId, LlmClient, LlmRequest, LlmTask, LlmUsage } from "@/lib/research/llm/types";
+
+type Env = Record<string, string | undefined>;
+
+const TASK_ENV: Record<LlmTask, string> = {
+  translate: "LLM_MODEL_TRANSLATE",
+  report: "LLM_MODEL_REPORT",
+  decision: "LLM_MODEL_DECISION",
+  plan: "LLM_MODEL_PLAN",
+};
+
+/**
+ * Per-task env var, then LLM_MODEL for all tasks, then the config default.
+ * OPENAI_MODEL is still honoured for the decision task, which always read it.
+ */
+export function modelForTask(task: LlmTask, env: Env = process.env): string {
+  return (
+    env[TASK_ENV[task]] ||
+    env.LLM_MODEL ||
+    (task === "decision" ? env.OPENAI_MODEL : undefined) ||
+    RESEARCH_CONFIG.llm.models[task]
+  );
+}
+
+export function isLlmBackendId(id: string): id is LlmBackendId {
+  return id === "openai" || id === "openai-compatible" || id === "fake";
+}
+
+/**
+ * Backend from LLM_BACKEND (default "openai"). Configuration errors, such as a
+ * missing OPENAI_API_KEY, surface here rather than at import time.
+ */
+export function getLlmClient(env: Env = process.env): LlmClient {
+  const backend = env.LLM_BACKEND || "openai";
+  if (!isLlmBackendId(backend)) throw new Error(`Unknown LLM_BACKEND: ${backend}`);
+
+  const model = (task: LlmTask) => modelForTask(task, env);
+
+  switch (backend) {
+    case "openai":
+      return createOpenAILlmClient({ client: getOpenAI(), model });
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) throw new Error("LLM_BACKEND=openai-compatible requires LLM_BASE_URL");
+      return createOpenAICompatibleLlmClient({
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        model,
+        timeoutMs: RESEARCH_CONFIG.llm.timeoutMs,
+      });
+    case "fake":
+      return createFakeLlmClient();
+  }
+}
@@ -0,0 +1,99 @@
+// src/lib/research/llm/llm.test.ts
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { ReportContentSchema } from "@/lib/research/report.Schema";
+import { strictTextFormat } from "@/lib/research/jsonSchema";
+import { getDecisionFromOpenAI } from "@/lib/research/openaiDecision";
+import { getLlmClient, modelForTask } from "@/lib/research/llm";
+import { createOpenAICompatibleLlmClient } from "@/lib/research/llm/openai";
+import { createFakeLlmClient } from "@/lib/research/llm/fake";
+
+describe("modelForTask", () => {
+  it("prefers the task variable, then LLM_MODEL, then the config default", () => {
+    expect(modelForTask("report", { LLM_MODEL_REPORT: "big", LLM_MODEL: "all" })).toBe("big");
+    expect(modelForTask("translate", { LLM_MODEL_REPORT: "big", LLM_MODEL: "all" })).toBe("all");
+    expect(modelForTask("translate", {})).toBe("gpt-4.1-mini");
+  });
+
+  it("keeps OPENAI_MODEL working for the decision task only", () => {
+    expect(modelForTask("decision", { OPENAI_MODEL: "legacy" })).toBe("legacy");
+    expect(modelForTask("report", { OPENAI_MODEL: "legacy" })).toBe("gpt-4.1-mini");
+  });
+});
+
+describe("getLlmClient", () => {
+  it("selects the backend from LLM_BACKEND", () => {
+    expect(getLlmClient({ LLM_BACKEND: "fake" }).backend).toBe("fake");
+    expect(getLlmClient({ LLM_BACKEND: "openai-compatible", LLM_BASE_URL: "http://localhost:11434/v1" }).backend).toBe(
+      "openai-compatible"
+    );
+  });
+
+  it("reports configuration errors when the client is requested", () => {
+    expect(() => getLlmClient({ LLM_BACKEND: "claude" })).toThrow(/Unknown LLM_BACKEND/);
+    expect(() => getLlmClient({ LLM_BACKEND: "openai-compatible" })).toThrow(/LLM_BASE_URL/);
+  });
+});
+
+// The part of a chat completions request body the backend test checks.
+const ChatRequestBody = z.object({
+  model: z.string(),
+  messages: z.array(z.object({ role: z.string(), content: z.string() })),
+  response_format: z.object({ type: z.string(), json_schema: z.object({ strict: z.boolean() }) }),
+});
+
+describe("openai-compatible backend", () => {
+  it("sends chat completions with a json_schema response format", async () => {
+    const requests: Array<{ url: string; body: unknown }> = [];
+    const fakeFetch = (async (url: string | URL | Request, init?: RequestInit) => {
+      requests.push({ url: String(url), body: JSON.parse(String(init?.body)) });
+      return new Response(
+        JSON.stringify({
+          id: "c1",
+          object: "chat.completion",
+          created: 0,
+          model: "llama3.1",
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: ' {"ok":true} ' } }],
+        }),
+        { status: 200, headers: { "content-type": "application/json" } }
+      );
+    }) as typeof fetch;
+
+    const llm = createOpenAICompatibleLlmClient({
+      baseUrl: "http://localhost:11434/v1",
+      model: (task) => (task === "report" ? "llama3.1" : "qwen"),
+      fetch: fakeFetch,
+    });
+    const out = await llm.complete({ task: "report", input: "Write it", format: strictTextFormat("r", ReportContentSchema) });
+
+    expect(out).toBe('{"ok":true}');
+    expect(requests[0].url).toBe("http://localhost:11434/v1/chat/completions");
+    const body = ChatRequestBody.parse(requests[0].body);
+    expect(body.model).toBe("llama3.1");
+    expect(body.messages).toEqual([{ role: "user", content: "Write it" }]);
+    expect(body.response_format.type).toBe("json_schema");
+    expect(body.response_format.json_schema.strict).toBe(true);
+  });
+});
+
+describe("fake backend", () => {
+  it("answers structured requests with a minimal schema-shaped value", async () => {
+    const llm = createFakeLlmClient();
+    const out = JSON.parse(await llm.complete({ task: "report", input: "x", format: strictTextFormat("r", ReportContentSchema) }));
+
+    expect(out.summaryBullets).toHaveLength(5);
+    expect(out.recommendation.why).toHaveLength(3);
+    expect(out.research).toHaveLength(1);
+    expect(await llm.complete({ task: "translate", input: "x" })).toBe("");
+    expect(llm.calls.map((c) => c.task)).toEqual(["report", "translate"]);
+  });
+
+  it("drives getDecisionFromOpenAI without a network or API key", async () => {
+    const llm = createFakeLlmClient();
+    const decision = await getDecisionFromOpenAI({ question: "Q", evidenceSummary: "E" }, llm);
+
+    expect(decision).toEqual({ recommendation: "fake", rationale: "fake", risks: [], unknowns: [], confidence: "low" });
+    expect(llm.calls[0].task).toBe("decision");
+    expect(llm.calls[0].format?.name).toBe("research_decision");
+  });
+});
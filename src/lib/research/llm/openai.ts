@@ -0,0 +1,77 @@
+// src/lib/research/llm/openai.ts
+import OpenAI from "openai";
+import type { LlmClient, LlmTask } from "@/lib/research/llm/types";
+
+type ModelForTask = (task: LlmTask) => string;
+
+/**
+ * OpenAI via the Responses API.
+ */
+export function createOpenAILlmClient(opts: { client: OpenAI; model: ModelForTask }): LlmClient {
+  return {
+    backend: "openai",
+    modelFor: opts.model,
+    async complete(req) {
+      const model = opts.model(req.task);
+      const resp = await opts.client.responses.create({
+        model,
+        input: req.input,
+        ...(req.format ? { text: { format: req.format } } : {}),
+      });
+      if (resp.usage) {
+        req.onUsage?.({ model, inputTokens: resp.usage.input_tokens, outputTokens: resp.usage.output_tokens });
+      }
+      return resp.output_text?.trim() ?? "";
+    },
+  };
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions protocol (Ollama,
+ * llama.cpp server, vLLM). Those rarely implement the Responses API, so this
+ * backend uses /chat/completions with `response_format` for structured output.
+ */
+export function createOpenAICompatibleLlmClient(opts: {
+  baseUrl: string;
+  apiKey?: string;
+  model: ModelForTask;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}): LlmClient {
+  const client = new OpenAI({
+    baseURL: opts.baseUrl,
+    // local servers ignore the key, but the SDK requires one
+    apiKey: opts.apiKey || "local",
+    timeout: opts.timeoutMs,
+    fetch: opts.fetch,
+  });
+
+  return {
+    backend: "openai-compatible",
+    modelFor: opts.model,
+    async complete(req) {
+      const model = opts.model(req.task);
+      const resp = await client.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: req.input }],
+        ...(req.format
+          ? {
+              response_format: {
+                type: "json_schema" as const,
+                json_schema: { name: req.format.name, schema: req.format.schema, strict: true },
+              },
+            }
+          : {}),
+      });
+      // many local servers leave usage out; the meter then estimates it
+      if (resp.usage) {
+        req.onUsage?.({
+          model,
+          inputTokens: resp.usage.prompt_tokens,
+          outputTokens: resp.usage.completion_tokens,
+        });
+      }
+      return resp.choices[0]?.message?.content?.trim() ?? "";
+    },
+  };
+}
@@ -0,0 +1,34 @@
+// src/lib/research/llm/types.ts
+import type { StrictTextFormat } from "@/lib/research/jsonSchema";
+
+export type LlmBackendId = "openai" | "openai-compatible" | "fake";
+
+// Each task can run on its own model (see RESEARCH_CONFIG.llm.models).
+export type LlmTask = "translate" | "report" | "decision" | "plan";
+
+// Token counts of one call, as billed by the backend.
+export type LlmUsage = {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type LlmRequest = {
+  task: LlmTask;
+  input: string;
+  // When set, the backend must return JSON matching this schema.
+  format?: StrictTextFormat;
+  // Backends that know the token counts report them here (see usage.ts).
+  onUsage?: (usage: LlmUsage) => void;
+};
+
+/**
+ * Common seam for every model backend. `complete` returns the raw output text
+ * (trimmed, possibly empty); parsing and validation stay with the caller.
+ */
+export type LlmClient = {
+  backend: LlmBackendId;
+  // model id a task runs on, for backends that have one (used to price estimated usage)
+  modelFor?: (task: LlmTask) => string;
+  complete: (req: LlmRequest) => Promise<string>;
+};
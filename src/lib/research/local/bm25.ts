@@ -0,0 +1,113 @@
+// src/lib/research/local/bm25.ts
+
+export type IndexedChunk = {
+  url: string;
+  title: string;
+  path: string;
+  chunk: number;
+  text: string;
+};
+
+/**
+ * Serializable BM25 inverted index (stored as JSON on disk).
+ * postings[term] = [[chunkIndex, termFrequency], ...]
+ */
+export type Bm25Index = {
+  version: 1;
+  builtAt: string;
+  k1: number;
+  b: number;
+  chunks: IndexedChunk[];
+  lengths: number[];
+  avgLength: number;
+  postings: Record<string, Array<[number, number]>>;
+};
+
+export type Bm25Hit = { chunk: IndexedChunk; score: number };
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "from", "that", "this", "are", "was", "were", "you", "your",
+  "their", "about", "into", "over", "under", "than", "then", "also", "how", "what", "why",
+  "when", "where", "which", "who", "can", "could", "should", "would", "may", "might",
+  "het", "een", "van", "voor", "met", "zijn", "wordt", "niet", "ook", "die", "dat", "deze",
+]);
+
+export function tokenize(text: string): string[] {
+  return (text || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((t) => t.length >= 2 && !STOPWORDS.has(t));
+}
+
+/**
+ * Splits text into overlapping word windows. Paragraph breaks are kept inside
+ * a chunk, so snippets stay readable.
+ */
+export function chunkText(text: string, opts: { size?: number; overlap?: number } = {}): string[] {
+  const size = opts.size ?? 350;
+  const overlap = Math.min(opts.overlap ?? 50, size - 1);
+
+  const words = (text || "").split(/[ \t]+/).filter(Boolean);
+  if (words.length <= size) return words.length ? [words.join(" ").trim()] : [];
+
+  const out: string[] = [];
+  for (let start = 0; start < words.length; start += size - overlap) {
+    out.push(words.slice(start, start + size).join(" ").trim());
+    if (start + size >= words.length) break;
+  }
+  return out;
+}
+
+export function buildBm25Index(chunks: IndexedChunk[], params: { k1?: number; b?: number } = {}): Bm25Index {
+  const postings: Record<string, Array<[number, number]>> = {};
+  const lengths: number[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const tokens = tokenize(`${chunk.title} ${chunk.text}`);
+    lengths.push(tokens.length);
+
+    const tf = new Map<string, number>();
+    for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1);
+    for (const [term, f] of tf) (postings[term] ??= []).push([i, f]);
+  });
+
+  const avgLength = lengths.length ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0;
+
+  return {
+    version: 1,
+    builtAt: new Date().toISOString(),
+    k1: params.k1 ?? 1.2,
+    b: params.b ?? 0.75,
+    chunks,
+    lengths,
+    avgLength,
+    postings,
+  };
+}
+
+export function searchBm25(index: Bm25Index, query: string, limit: number): Bm25Hit[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  const n = index.chunks.length;
+  if (!terms.length || !n) return [];
+
+  const scores = new Map<number, number>();
+  for (const term of terms) {
+    const list = index.postings[term];
+    if (!list?.length) continue;
+
+    const idf = Math.log(1 + (n - list.length + 0.5) / (list.length + 0.5));
+    for (const [i, f] of list) {
+      const norm = 1 - index.b + index.b * (index.lengths[i] / (index.avgLength || 1));
+      const s = (idf * f * (index.k1 + 1)) / (f + index.k1 * norm);
+      scores.set(i, (scores.get(i) ?? 0) + s);
+    }
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .slice(0, limit)
+    .map(([i, score]) => ({ chunk: index.chunks[i], score }));
+}
@@ -0,0 +1,156 @@
+// src/lib/research/local/extract.ts
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { inflateSync } from "node:zlib";
+
+export type ExtractedDocument = {
+  // Path relative to the corpus root, always with forward slashes
+  path: string;
+  title: string;
+  text: string;
+};
+
+export const SUPPORTED_EXTENSIONS = new Set([".md", ".markdown", ".txt", ".html", ".htm", ".pdf"]);
+
+/**
+ * Reads every supported file under `dir` (recursively) and returns plain text.
+ * Files that cannot be read or yield no text are skipped.
+ */
+export async function extractCorpus(dir: string): Promise<ExtractedDocument[]> {
+  const out: ExtractedDocument[] = [];
+
+  async function walk(current: string) {
+    const entries = await readdir(current, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full);
+        continue;
+      }
+
+      const ext = path.extname(entry.name).toLowerCase();
+      if (!SUPPORTED_EXTENSIONS.has(ext)) continue;
+
+      const rel = path.relative(dir, full).split(path.sep).join("/");
+      const doc = extractDocument(rel, await readFile(full).catch(() => null));
+      if (doc && doc.text.trim()) out.push(doc);
+    }
+  }
+
+  await walk(dir);
+  return out;
+}
+
+export function extractDocument(relPath: string, buf: Buffer | null): ExtractedDocument | null {
+  if (!buf) return null;
+  const ext = path.extname(relPath).toLowerCase();
+
+  if (ext === ".pdf") {
+    return { path: relPath, title: path.basename(relPath), text: extractPdfText(buf) };
+  }
+
+  const raw = buf.toString("utf8");
+
+  if (ext === ".html" || ext === ".htm") {
+    const title = raw.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim();
+    return { path: relPath, title: title || path.basename(relPath), text: htmlToText(raw) };
+  }
+
+  if (ext === ".md" || ext === ".markdown") {
+    const heading = raw.match(/^#\s+(.+)$/m)?.[1]?.trim();
+    return { path: relPath, title: heading || path.basename(relPath), text: raw };
+  }
+
+  return { path: relPath, title: path.basename(relPath), text: raw };
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<\/(p|div|li|h[1-6]|tr|section|article|br)>/gi, "\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Best-effort PDF text extraction without external dependencies:
+ * inflates FlateDecode content streams and collects Tj/TJ string operands.
+ * Scanned PDFs and exotic font encodings yield little or no text.
+ */
+export function extractPdfText(buf: Buffer): string {
+  const raw = buf.toString("latin1");
+  const lines: string[] = [];
+  const streamRe = /stream\r?\n/g;
+
+  let m: RegExpExecArray | null;
+  while ((m = streamRe.exec(raw))) {
+    const start = m.index + m[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) break;
+
+    const dictStart = raw.lastIndexOf("obj", m.index);
+    const dict = raw.slice(Math.max(0, dictStart), m.index);
+    let data = Buffer.from(raw.slice(start, end), "latin1");
+
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        data = inflateSync(data);
+      } catch {
+        streamRe.lastIndex = end;
+        continue;
+      }
+    } else if (/\/Filter/.test(dict)) {
+      // other filters (images, DCT, ...) carry no text
+      streamRe.lastIndex = end;
+      continue;
+    }
+
+    const text = textFromContentStream(data.toString("latin1"));
+    if (text.trim()) lines.push(text);
+    streamRe.lastIndex = end;
+  }
+
+  return lines.join("\n").replace(/[ \t]+/g, " ").trim();
+}
+
+function textFromContentStream(content: string): string {
+  if (!/\bBT\b/.test(content)) return "";
+
+  const out: string[] = [];
+  const opRe = /\[((?:\\.|[^\]\\])*)\]\s*TJ|\(((?:\\.|[^)\\])*)\)\s*(?:Tj|'|")|\b(T\*|Td|TD|ET)\b/g;
+
+  let m: RegExpExecArray | null;
+  while ((m = opRe.exec(content))) {
+    if (m[1] !== undefined) {
+      const parts = m[1].match(/\((?:\\.|[^)\\])*\)/g) ?? [];
+      out.push(parts.map((p) => unescapePdfString(p.slice(1, -1))).join(""));
+    } else if (m[2] !== undefined) {
+      out.push(unescapePdfString(m[2]));
+    } else {
+      out.push("\n");
+    }
+  }
+
+  return out.join("").replace(/\n{3,}/g, "\n\n");
+}
+
+function unescapePdfString(s: string): string {
+  return s.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_m, esc: string) => {
+    if (/^[0-7]+$/.test(esc)) return String.fromCharCode(parseInt(esc, 8));
+    const map: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "", f: "", "(": "(", ")": ")", "\\": "\\" };
+    return map[esc] ?? esc;
+  });
+}
@@ -0,0 +1,154 @@
+// src/lib/research/local/index.ts
+import { statSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Source } from "@/types/research";
+import type { TavilySearcher } from "@/lib/research/pipeline";
+import { extractCorpus, type ExtractedDocument } from "@/lib/research/local/extract";
+import {
+  buildBm25Index,
+  chunkText,
+  searchBm25,
+  tokenize,
+  type Bm25Index,
+  type IndexedChunk,
+} from "@/lib/research/local/bm25";
+
+export type { Bm25Index } from "@/lib/research/local/bm25";
+
+export type LocalIndexConfig = { indexPath: string; corpusDir?: string };
+
+/**
+ * Local search is enabled by LOCAL_CORPUS_DIR (source files) and/or
+ * LOCAL_INDEX_PATH (prebuilt index; defaults to .research/local-index.json).
+ */
+export function getLocalIndexConfig(): LocalIndexConfig | null {
+  const corpusDir = process.env.LOCAL_CORPUS_DIR || undefined;
+  const indexPath = process.env.LOCAL_INDEX_PATH;
+  if (!corpusDir && !indexPath) return null;
+
+  return {
+    indexPath: indexPath || path.join(process.cwd(), ".research", "local-index.json"),
+    corpusDir,
+  };
+}
+
+/**
+ * Changes whenever the on-disk index is written, so callers can keep one
+ * loaded index until then.
+ */
+export function localIndexVersion(config: LocalIndexConfig | null): string {
+  if (!config) return "off";
+  try {
+    return `${config.indexPath}@${statSync(config.indexPath).mtimeMs}`;
+  } catch {
+    return `${config.indexPath}@missing`;
+  }
+}
+
+/**
+ * Local URL per chunk. The host is derived from the document path, so chunks of
+ * one document count as one "domain" in gating and different documents don't.
+ */
+export function localChunkUrl(docPath: string, chunk: number): string {
+  const host = docPath.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "doc";
+  return `local://${host}/${encodeURI(docPath)}#chunk-${chunk}`;
+}
+
+export function indexDocuments(docs: ExtractedDocument[], opts: { chunkSize?: number; overlap?: number } = {}): Bm25Index {
+  const chunks: IndexedChunk[] = [];
+  for (const doc of docs) {
+    chunkText(doc.text, { size: opts.chunkSize, overlap: opts.overlap }).forEach((text, i) => {
+      chunks.push({ url: localChunkUrl(doc.path, i + 1), title: doc.title, path: doc.path, chunk: i + 1, text });
+    });
+  }
+  return buildBm25Index(chunks);
+}
+
+export async function buildLocalIndex(corpusDir: string): Promise<Bm25Index> {
+  return indexDocuments(await extractCorpus(corpusDir));
+}
+
+export async function saveLocalIndex(index: Bm25Index, file: string): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(index), "utf8");
+}
+
+export async function loadLocalIndex(file: string): Promise<Bm25Index> {
+  const parsed = JSON.parse(await readFile(file, "utf8")) as Bm25Index;
+  if (parsed?.version !== 1 || !Array.isArray(parsed.chunks)) {
+    throw new Error(`Unsupported local index format: ${file}`);
+  }
+  return parsed;
+}
+
+/**
+ * Loads the on-disk index, building (and saving) it from `corpusDir` when missing.
+ */
+export async function loadOrBuildLocalIndex(opts: LocalIndexConfig): Promise<Bm25Index> {
+  try {
+    return await loadLocalIndex(opts.indexPath);
+  } catch (err) {
+    if (!opts.corpusDir) throw err;
+    const index = await buildLocalIndex(opts.corpusDir);
+    await saveLocalIndex(index, opts.indexPath);
+    return index;
+  }
+}
+
+/**
+ * `TavilySearcher`-compatible search over a local BM25 index.
+ */
+export function createLocalSearcher(
+  source: Bm25Index | (() => Promise<Bm25Index>),
+  opts: { maxResults?: number } = {}
+): TavilySearcher {
+  const maxResults = opts.maxResults ?? 8;
+  let indexPromise: Promise<Bm25Index> | null = null;
+
+  const getIndex = () => {
+    if (!indexPromise) {
+      indexPromise = typeof source === "function" ? source() : Promise.resolve(source);
+      // allow a retry after a failed load
+      indexPromise.catch(() => (indexPromise = null));
+    }
+    return indexPromise;
+  };
+
+  return async (query: string): Promise<Source[]> => {
+    const index = await getIndex();
+    const terms = tokenize(query);
+
+    return searchBm25(index, query, maxResults).map(({ chunk }) => ({
+      url: chunk.url,
+      title: chunk.chunk > 1 ? `${chunk.title} (part ${chunk.chunk})` : chunk.title,
+      snippet: bestSnippet(chunk.text, terms),
+      content: chunk.text,
+      rawContent: undefined,
+      publishedDate: undefined,
+      provider: "local",
+    }));
+  };
+}
+
+function bestSnippet(text: string, terms: string[], size = 300): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= size) return flat;
+
+  // slide a window over the words and keep the one with most query-term hits
+  const words = flat.split(" ");
+  const termSet = new Set(terms);
+  const windowWords = 50;
+
+  let bestStart = 0;
+  let bestHits = -1;
+  for (let i = 0; i < words.length; i += 10) {
+    const hits = tokenize(words.slice(i, i + windowWords).join(" ")).filter((t) => termSet.has(t)).length;
+    if (hits > bestHits) {
+      bestHits = hits;
+      bestStart = i;
+    }
+  }
+
+  return words.slice(bestStart, bestStart + windowWords).join(" ").slice(0, size);
+}
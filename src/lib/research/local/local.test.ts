@@ -0,0 +1,109 @@
+// src/lib/research/local/local.test.ts
+import { describe, it, expect } from "vitest";
+import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { deflateSync } from "node:zlib";
+import { chunkText, searchBm25 } from "@/lib/research/local/bm25";
+import { extractDocument, extractPdfText, htmlToText } from "@/lib/research/local/extract";
+import {
+  buildLocalIndex,
+  createLocalSearcher,
+  indexDocuments,
+  loadLocalIndex,
+  saveLocalIndex,
+} from "@/lib/research/local";
+
+function mkPdf(content: string, compress: boolean): Buffer {
+  const data = compress ? deflateSync(Buffer.from(content, "latin1")) : Buffer.from(content, "latin1");
+  const filter = compress ? " /Filter /FlateDecode" : "";
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n1 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream\nendobj\n%%EOF", "latin1"),
+  ]);
+}
+
+describe("chunkText", () => {
+  it("splits long text into overlapping windows", () => {
+    const words = Array.from({ length: 25 }, (_, i) => `w${i}`).join(" ");
+    const chunks = chunkText(words, { size: 10, overlap: 2 });
+
+    expect(chunks.length).toBe(3);
+    expect(chunks[0].split(" ")[9]).toBe("w9");
+    expect(chunks[1].split(" ")[0]).toBe("w8");
+    expect(chunks[2].split(" ").pop()).toBe("w24");
+  });
+});
+
+describe("BM25 index", () => {
+  const index = indexDocuments([
+    { path: "pricing.md", title: "Pricing", text: "Pricing per seat. Enterprise pricing includes SSO." },
+    { path: "security.md", title: "Security", text: "Security review, SSO and audit logging." },
+    { path: "notes.txt", title: "Notes", text: "Meeting notes without relevant terms." },
+  ]);
+
+  it("ranks the chunk with the most (rare) query terms first", () => {
+    const hits = searchBm25(index, "enterprise pricing", 5);
+    expect(hits.map((h) => h.chunk.path)).toEqual(["pricing.md"]);
+
+    const sso = searchBm25(index, "SSO audit", 5);
+    expect(sso[0].chunk.path).toBe("security.md");
+    expect(sso.map((h) => h.chunk.path)).toContain("pricing.md");
+  });
+
+  it("returns Source objects with content and snippet filled in", async () => {
+    const search = createLocalSearcher(index);
+    const out = await search("security audit");
+
+    expect(out[0]).toMatchObject({
+      title: "Security",
+      provider: "local",
+      content: "Security review, SSO and audit logging.",
+      snippet: "Security review, SSO and audit logging.",
+    });
+    // each document gets its own host, so gating sees them as independent
+    expect(new URL(out[0].url).hostname).toBe("security-md");
+  });
+});
+
+describe("extraction", () => {
+  it("strips HTML boilerplate and keeps the title", () => {
+    const doc = extractDocument(
+      "page.html",
+      Buffer.from("<html><head><title>Guide</title><style>p{}</style></head><body><p>Hello &amp; welcome</p><script>x()</script></body></html>")
+    );
+    expect(doc?.title).toBe("Guide");
+    expect(doc?.text).toContain("Hello & welcome");
+    expect(htmlToText("<script>alert(1)</script>ok")).toBe("ok");
+  });
+
+  it("extracts text from plain and FlateDecode PDF content streams", () => {
+    const content = "BT /F1 12 Tf 72 712 Td (Quarterly report) Tj T* [(Reven) -20 (ue grew)] TJ ET";
+    expect(extractPdfText(mkPdf(content, false))).toContain("Quarterly report");
+    expect(extractPdfText(mkPdf(content, true))).toContain("Revenue grew");
+  });
+});
+
+describe("on-disk index", () => {
+  it("builds from a corpus directory and round-trips through JSON", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "local-corpus-"));
+    try {
+      await mkdir(path.join(dir, "docs"));
+      await writeFile(path.join(dir, "docs", "a.md"), "# Vendor A\n\nVendor A offers usage-based pricing.");
+      await writeFile(path.join(dir, "b.html"), "<title>Vendor B</title><p>Vendor B has flat pricing.</p>");
+      await writeFile(path.join(dir, "ignored.bin"), "pricing");
+
+      const index = await buildLocalIndex(dir);
+      expect(index.chunks.map((c) => c.path)).toEqual(["b.html", "docs/a.md"]);
+
+      const file = path.join(dir, ".research", "index.json");
+      await saveLocalIndex(index, file);
+      const loaded = await loadLocalIndex(file);
+
+      expect(searchBm25(loaded, "usage-based pricing", 1)[0].chunk.title).toBe("Vendor A");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,7 +1,9 @@
 // src/lib/research/openaiDecision.ts
 
-import { openai } from "@/config/openai";
 import { OpenAIResearchJsonSchema } from "@/lib/research/openaiSchema";
+import type { OutputLanguage } from "@/types/research";
+import { getLlmClient, type LlmClient } from "@/lib/research/llm";
+import { LANGUAGE_NAMES } from "@/lib/research/i18n";
 
 export type OpenAIDecision = {
   recommendation: string;
@@ -22,16 +24,22 @@ function safeJsonParse<T>(text: string): T {
   }
 }
 
-export async function getDecisionFromOpenAI(params: {
-  question: string;
-  evidenceSummary: string;
-}): Promise<OpenAIDecision> {
-  const model = process.env.OPENAI_MODEL || "gpt-4.1-mini";
-
+export async function getDecisionFromOpenAI(
+  params: {
+    question: string;
+    evidenceSummary: string;
+    // taal van de tekstvelden; standaard Engels
+    outputLanguage?: OutputLanguage;
+  },
+  llm: LlmClient = getLlmClient()
+): Promise<OpenAIDecision> {
   // ✅ Gebruik input als string => geen SDK typing drama
   const input = [
     "You are a decision support analyst.",
     "Return ONLY valid JSON that matches the provided schema. No prose.",
+    "Base risks and unknowns on the evidence; cite sources as [n] where relevant.",
+    "Confidence must reflect the evidence gate: never \"high\" when the gate reports INSUFFICIENT_EVIDENCE.",
+    `Write all text values in ${LANGUAGE_NAMES[params.outputLanguage ?? "en"]}.`,
     "",
     `Decision question: ${params.question}`,
     "",
@@ -39,20 +47,16 @@ export async function getDecisionFromOpenAI(params: {
     params.evidenceSummary,
   ].join("\n");
 
-  const resp = await openai.responses.create({
-    model,
+  const out = await llm.complete({
+    task: "decision",
     input,
-    text: {
-      format: {
-        type: "json_schema",
-        name: OpenAIResearchJsonSchema.name,
-        schema: OpenAIResearchJsonSchema.schema,
-        strict: true,
-      },
+    format: {
+      type: "json_schema",
+      name: OpenAIResearchJsonSchema.name,
+      schema: OpenAIResearchJsonSchema.schema,
+      strict: true,
     },
   });
-
-  const out = resp.output_text?.trim();
   if (!out) throw new Error("OpenAI response had no output_text.");
 
   const parsed = safeJsonParse<OpenAIDecision>(out);
@@ -2,6 +2,8 @@
 import { describe, it, expect } from "vitest";
 import type { Source } from "@/types/research";
 import { runResearchPipeline, type TavilySearcher } from "@/lib/research/pipeline";
+import { createSearchCache } from "@/lib/research/cache";
+import type { GapContext, GapPlanner } from "@/lib/research/gapPlanner";
 
 type Provider = "tavily" | "unknown";
 
@@ -15,6 +17,16 @@ function mkSource(url: string, title: string, provider: Provider = "tavily"): So
   };
 }
 
+function mkRichSource(url: string, title: string): Source {
+  return {
+    url,
+    title,
+    snippet: `${title}: `.padEnd(300, "benchmark data "),
+    content: `${title}: `.padEnd(2500, "detailed findings with numbers and context "),
+    provider: "tavily",
+  };
+}
+
 function domainOf(url: string): string {
   try {
     const u = new URL(url);
@@ -26,9 +38,10 @@ function domainOf(url: string): string {
 
 /**
  * Deterministic multi-pass fixture
- * - Seed: returns 3 urls (2 seed + 1 shared)
- * - Expand: returns 3 urls (2 expand + 1 shared)
- * - Authority: returns 3 urls (2 auth + 1 shared)
+ * - Seed/subquestion (and bucket follow-up) queries: 3 urls (2 seed + 1 shared)
+ * - Keyword-expansion follow-ups: 3 urls (2 expand + 1 shared)
+ * - Authority follow-ups: 3 urls (2 auth + 1 shared)
+ * The evidence stays thin, so the loop runs until a follow-up adds nothing new.
  * This allows us to verify:
  * - pass ordering
  * - dedupe by URL across passes
@@ -68,14 +81,22 @@ function makeDeterministicSearcher(): TavilySearcher {
 }
 
 describe("runResearchPipeline (deterministic)", () => {
-  it("emits exactly 3 passes in order when debug is enabled", async () => {
+  it("opens with seed and subquestion passes, then one pass per follow-up iteration", async () => {
     const out = await runResearchPipeline(
       { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
       { searcher: makeDeterministicSearcher(), includeDebug: true }
     );
 
     expect(out.debug).toBeTruthy();
-    expect(out.debug!.passes.map((p) => p.pass)).toEqual(["seed", "expand", "authority"]);
+    expect(out.debug!.passes.map((p) => p.pass)).toEqual(["seed", "subquestions", "followup-1", "followup-2"]);
+    expect(out.debug!.loop).toMatchObject({ iterations: 2, stopReason: "no-new-sources" });
+
+    const [first, second] = out.debug!.passes.slice(2);
+    expect(first).toMatchObject({ iteration: 1, planner: "deterministic", gatePassedAfter: false });
+    expect(first.gaps).toContain("missing-bucket: RisksEdgeCases");
+    expect(first.gaps).toContain("minUniqueDomains: 2 (needs 6)");
+    expect(first.newSources).toBeGreaterThan(0);
+    expect(second.newSources).toBe(0);
 
     // Each pass should have >= 1 query, and query metadata should be present
     for (const p of out.debug!.passes) {
@@ -155,16 +176,14 @@ describe("runResearchPipeline (deterministic)", () => {
     expect(out.debug).toBeUndefined();
   });
 
-  it("returns EVIDENCE_SUFFICIENT when breadth thresholds are met (multiple domains)", async () => {
-    // Make sure we produce >= 6 sources and >= 4 domains after merge
-    const searcher: TavilySearcher = async (q) => {
-      const tag = q.length % 7; // deterministic
-      return [
-        mkSource(`https://a.com/${tag}`, "A"),
-        mkSource(`https://b.com/${tag}`, "B"),
-        mkSource(`https://c.com/${tag}`, "C"),
-        mkSource(`https://d.com/${tag}`, "D"),
-      ];
+  it("returns EVIDENCE_SUFFICIENT when scored gate thresholds are met (multiple domains)", async () => {
+    // Make sure we produce >= 12 well-scored sources and >= 6 domains after merge
+    let call = 0;
+    const searcher: TavilySearcher = async () => {
+      call++;
+      return ["a", "b", "c", "d", "e", "f"].map((d) =>
+        mkRichSource(`https://${d}.com/${call}`, `Source ${d.toUpperCase()}${call}`)
+      );
     };
 
     const out = await runResearchPipeline(
@@ -177,6 +196,254 @@ describe("runResearchPipeline (deterministic)", () => {
 
     // sanity: domain breadth is real
     const domains = new Set(out.sources.map((s) => domainOf(s.url)).filter(Boolean));
-    expect(domains.size).toBeGreaterThanOrEqual(4);
+    expect(domains.size).toBeGreaterThanOrEqual(6);
+  });
+
+  it("scores every merged source and returns the gate metrics", async () => {
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      { searcher: makeDeterministicSearcher(), includeDebug: false }
+    );
+
+    expect(out.gateMetrics.sources).toBe(out.sources.length);
+    expect(out.gateMetrics.uniqueDomains).toBe(3);
+    expect(out.gateMetrics.lowInfoRatio).toBe(1);
+
+    for (const s of out.sources) {
+      expect(typeof s.score).toBe("number");
+      expect(s.scoreBreakdown).toBeTruthy();
+    }
+
+    // sorted by score desc
+    const scores = out.sources.map((s) => s.score ?? 0);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it("keeps weak sources below the gate even with enough breadth", async () => {
+    let call = 0;
+    const searcher: TavilySearcher = async () => {
+      call++;
+      return ["a", "b", "c", "d", "e", "f"].map((d) => mkSource(`https://${d}.com/${call}`, `${d}${call}`));
+    };
+
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      { searcher, includeDebug: false }
+    );
+
+    expect(out.gateMetrics.sources).toBeGreaterThanOrEqual(12);
+    expect(out.gateMetrics.uniqueDomains).toBeGreaterThanOrEqual(6);
+    expect(out.decisionStatus).toBe("INSUFFICIENT_EVIDENCE");
+    expect(out.confidenceOverview.overall).toBeLessThan(0.5);
+  });
+
+  it("runs one targeted query per subquestion and reports every bucket", async () => {
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      { searcher: makeDeterministicSearcher(), includeDebug: true }
+    );
+
+    const planned = out.debug!.passes.find((p) => p.pass === "subquestions")!;
+    expect(planned.queries.length).toBe(7);
+
+    expect(out.buckets.map((b) => b.bucket)).toEqual([
+      "DecisionCriteria",
+      "OptionsLandscape",
+      "EvidenceBenchmarks",
+      "RisksEdgeCases",
+    ]);
+    expect(out.buckets.reduce((n, b) => n + b.subquestions.length, 0)).toBe(7);
+    for (const b of out.buckets) {
+      expect(["positive", "negative", "inconclusive"]).toContain(b.outcome);
+    }
+  });
+
+  it("rejects an otherwise strong run when a bucket has no evidence", async () => {
+    let call = 0;
+    const searcher: TavilySearcher = async (q) => {
+      call++;
+      if (q.includes("risks lock-in compliance")) return [];
+      return ["a", "b", "c", "d", "e", "f"].map((d) =>
+        mkRichSource(`https://${d}.com/${call}`, `Source ${d.toUpperCase()}${call}`)
+      );
+    };
+
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured", outputLanguage: "en" },
+      { searcher, includeDebug: false }
+    );
+
+    const risks = out.buckets.find((b) => b.bucket === "RisksEdgeCases")!;
+    expect(risks.sources).toBe(0);
+    expect(risks.outcome).toBe("negative");
+    expect(out.decisionStatus).toBe("INSUFFICIENT_EVIDENCE");
+    expect(out.confidenceOverview.rationale).toContain("RisksEdgeCases");
+  });
+
+  it("marks a bucket positive only with informative sources from 2+ domains and no disconfirmed subquestion", async () => {
+    let call = 0;
+    const searcher: TavilySearcher = async () => {
+      call++;
+      return ["a", "b", "c", "d", "e", "f"].map((d) =>
+        mkRichSource(`https://${d}.com/${call}`, `Source ${d.toUpperCase()}${call}`)
+      );
+    };
+
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      { searcher, includeDebug: false }
+    );
+
+    for (const b of out.buckets) {
+      const disconfirmed = b.subquestions.some((sq) => sq.disconfirmed);
+      expect(b.outcome).toBe(disconfirmed ? "inconclusive" : "positive");
+      expect(b.subquestions.every((sq) => sq.outcome === (sq.disconfirmed ? "inconclusive" : "positive"))).toBe(true);
+    }
+    expect(out.buckets.find((b) => b.bucket === "EvidenceBenchmarks")!.outcome).toBe("inconclusive");
+    expect(out.buckets.find((b) => b.bucket === "DecisionCriteria")!.outcome).toBe("positive");
+    // the filler text states no figures and no shared claims
+    const disconfirmed = out.buckets.flatMap((b) => b.subquestions).filter((sq) => sq.disconfirmed);
+    expect(disconfirmed.map((sq) => sq.outcome)).toEqual(["inconclusive", "inconclusive"]);
+  });
+
+  it("forwards progress events with partial source lists to the listener", async () => {
+    const events: Array<{ event: string; payload: Record<string, unknown> }> = [];
+
+    await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      {
+        searcher: makeDeterministicSearcher(),
+        onEvent: (event, payload) => events.push({ event, payload }),
+      }
+    );
+
+    const passes = events.filter((e) => e.event === "tavily.pass.complete");
+    expect(passes.map((e) => e.payload.pass)).toEqual(["seed", "subquestions", "followup-1", "followup-2"]);
+    expect(passes[0].payload.sourceList).toEqual([
+      { url: "https://seed.com/1", title: "Seed 1" },
+      { url: "https://seed.com/2", title: "Seed 2" },
+      { url: "https://example.org/shared", title: "Shared URL" },
+    ]);
+
+    expect(events.filter((e) => e.event === "tavily.query").length).toBeGreaterThan(0);
+    expect(events[events.length - 2]).toMatchObject({ event: "loop.complete", payload: { iterations: 2 } });
+    expect(events[events.length - 1].event).toBe("gate.evaluated");
+  });
+
+  it("serves repeated queries from the cache and records hits and misses per query", async () => {
+    const cache = createSearchCache({ ttlMs: 60_000, maxEntries: 100 });
+    let calls = 0;
+    const base = makeDeterministicSearcher();
+    const searcher: TavilySearcher = async (q) => {
+      calls++;
+      return base(q);
+    };
+
+    const input = { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" };
+    const first = await runResearchPipeline(input, { searcher, cache, includeDebug: true });
+    const callsAfterFirst = calls;
+
+    expect(first.debug!.passes.every((p) => p.queries.every((q) => q.cache === "miss"))).toBe(true);
+
+    const second = await runResearchPipeline(input, { searcher, cache, includeDebug: true });
+
+    expect(calls).toBe(callsAfterFirst);
+    for (const p of second.debug!.passes) {
+      expect(p.cacheHits).toBe(p.queries.length);
+      expect(p.queries.every((q) => q.cache === "hit")).toBe(true);
+    }
+    expect(second.sources.map((s) => s.url)).toEqual(first.sources.map((s) => s.url));
+  });
+
+  it("stops after the opening passes when the evidence already suffices", async () => {
+    let call = 0;
+    const searcher: TavilySearcher = async () => {
+      call++;
+      return ["a", "b", "c", "d", "e", "f"].map((d) => mkRichSource(`https://${d}.com/${call}`, `Source ${call}`));
+    };
+
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      { searcher, includeDebug: true }
+    );
+
+    expect(out.debug!.passes.map((p) => p.pass)).toEqual(["seed", "subquestions"]);
+    expect(out.debug!.loop).toMatchObject({ iterations: 0, stopReason: "sufficient", queriesUsed: 10 });
+  });
+
+  it("fills a missing bucket with targeted follow-up queries", async () => {
+    let call = 0;
+    const searcher: TavilySearcher = async (q) => {
+      call++;
+      if (q.includes("risks lock-in compliance") && !q.includes("case study")) return [];
+      return ["a", "b", "c", "d", "e", "f"].map((d) => mkRichSource(`https://${d}.com/${call}`, `Source ${call}`));
+    };
+
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      { searcher, includeDebug: true }
+    );
+
+    const followUp = out.debug!.passes[2];
+    // the filler text states no figures, so EvidenceBenchmarks stays inconclusive
+    expect(followUp.gaps).toEqual(["inconclusive-bucket: EvidenceBenchmarks", "missing-bucket: RisksEdgeCases"]);
+    expect(followUp.queries.map((q) => q.q)).toEqual([
+      "Pick option A vs B benchmarks pricing limits performance numbers case study",
+      "Pick option A vs B risks lock-in compliance operational pitfalls case study",
+    ]);
+    expect(out.buckets.find((b) => b.bucket === "RisksEdgeCases")!.sources).toBeGreaterThan(0);
+    expect(out.decisionStatus).toBe("EVIDENCE_SUFFICIENT");
+    expect(out.debug!.loop).toMatchObject({ iterations: 1, stopReason: "sufficient" });
+  });
+
+  it("stops at the query and time budgets", async () => {
+    const input = { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" };
+
+    // every call returns new (weak) sources, so only the budget ends the loop
+    let call = 0;
+    const fresh: TavilySearcher = async () => {
+      call++;
+      return ["a", "b", "c"].map((d) => mkSource(`https://${d}.com/${call}`, `${d}${call}`));
+    };
+
+    const byQueries = await runResearchPipeline(input, {
+      searcher: fresh,
+      includeDebug: true,
+      budget: { maxQueries: 12 },
+    });
+    expect(byQueries.debug!.passes[2].queries.length).toBe(2);
+    expect(byQueries.debug!.loop).toMatchObject({ iterations: 1, stopReason: "query-budget", queriesUsed: 12 });
+
+    let clock = 0;
+    const byTime = await runResearchPipeline(input, {
+      searcher: makeDeterministicSearcher(),
+      includeDebug: true,
+      budget: { maxMs: 2_000 },
+      now: () => (clock += 3_000),
+    });
+    expect(byTime.debug!.loop).toMatchObject({ iterations: 0, stopReason: "time-budget" });
+  });
+
+  it("asks the configured planner for follow-ups and ends when it has none", async () => {
+    const contexts: GapContext[] = [];
+    const planner: GapPlanner = {
+      id: "llm",
+      async plan(ctx) {
+        contexts.push(ctx);
+        return ctx.iteration === 1 ? [{ query: "Pick option A vs B site:gov evidence", reason: "breadth" }] : [];
+      },
+    };
+
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      { searcher: makeDeterministicSearcher(), includeDebug: true, planner }
+    );
+
+    expect(contexts.map((c) => c.iteration)).toEqual([1, 2]);
+    expect(contexts[0].askedQueries.length).toBe(10);
+    expect(contexts[0].gaps.some((g) => g.kind === "missing-bucket")).toBe(true);
+    expect(out.debug!.passes[2]).toMatchObject({ pass: "followup-1", planner: "llm" });
+    expect(out.debug!.loop).toMatchObject({ iterations: 1, stopReason: "no-new-queries" });
+    expect(out.sources.map((s) => s.url)).toContain("https://example.org/auth/1");
   });
 });
@@ -1,5 +1,58 @@
 // src/lib/research/pipeline.ts
-import type { Source } from "@/types/research";
+import type {
+  GateMetrics,
+  OutputLanguage,
+  ResearchBucket,
+  ResearchConstraints,
+  RiskTolerance,
+  Source,
+  TimeHorizon,
+} from "@/types/research";
+import type { SearchCache } from "@/lib/research/cache";
+import type { ContentExtractor, ExtractionStats } from "@/lib/research/fetchContent";
+import { RESEARCH_CONFIG } from "@/config/research";
+import type { SearchOptions } from "@/lib/research/providers/types";
+import {
+  confidenceFromMetrics,
+  failedGateRules,
+  gateRulesFor,
+  scoreSourcesAndGate,
+  type GateRuleId,
+} from "@/lib/research/scoring";
+import { normalizePublishedDate } from "@/lib/research/recency";
+import { messages } from "@/lib/research/i18n";
+import { dedupeSources, type DuplicateMerge } from "@/lib/research/dedupe";
+import type { CorroborationTable } from "@/lib/research/corroboration";
+import type { Conflict } from "@/lib/research/contradictions";
+import { isUsageLimitError, type UsageLimit, type UsageMeter } from "@/lib/research/usage";
+import { mapWithConcurrency } from "@/lib/research/resilientSearch";
+import {
+  assignBuckets,
+  buildResearchPlan,
+  evaluateBucketCoverage,
+  type BucketCoverage,
+  type PlannedSubQuestion,
+} from "@/lib/research/plan";
+import {
+  capPerDomain,
+  constraintQuerySuffix,
+  filterByConstraints,
+  type DroppedSource,
+} from "@/lib/research/constraints";
+import {
+  applyDomainPolicy,
+  domainPolicyFromConfig,
+  pickAuthoritySites,
+  type DomainPolicy,
+} from "@/lib/research/domainPolicy";
+import {
+  describeGap,
+  detectGaps,
+  deterministicGapPlanner,
+  type EvidenceGap,
+  type GapPlanner,
+} from "@/lib/research/gapPlanner";
+import { hostOf, normalizeQuery } from "@/lib/research/util";
 
 type DecisionStatus = "EVIDENCE_SUFFICIENT" | "INSUFFICIENT_EVIDENCE";
 
@@ -7,21 +60,77 @@ export type PipelineInput = {
   goal: string;
   decision: string;
   outputFormat: string;
-  outputLanguage?: "nl" | "en";
-  constraints?: string;
+  outputLanguage?: OutputLanguage;
+  constraints?: ResearchConstraints;
+  // "now" requires recent sources in the gate; also sets the freshness half-life
+  timeHorizon?: TimeHorizon;
+  // scales the gate thresholds (see gateRulesFor)
+  riskTolerance?: RiskTolerance;
+  // what the output will be used for, e.g. "board memo"
+  outputPurpose?: string;
 };
 
+// Fixed opening passes, then one `followup-<n>` pass per loop iteration.
+export type DebugPassName = "seed" | "subquestions" | `followup-${number}`;
+
 export type DebugPass = {
-  pass: "seed" | "expand" | "authority";
+  pass: DebugPassName;
   queries: Array<{
     q: string;
     truncated: boolean;
     originalLength: number;
     usedLength: number;
     hash: string;
+    cache?: "hit" | "miss";
+    // set when the search failed (after retries)
+    error?: string;
+    // set when a usage limit blocked the search
+    skipped?: UsageLimit;
   }>;
   sources: number;
   uniqueDomains: number;
+  cacheHits?: number;
+  // results removed by a deny rule (before dedupe)
+  denied?: Array<{ url: string; rule: string }>;
+  // results removed by the request constraints (before dedupe)
+  dropped?: DroppedSource[];
+  // results folded into another source of the pass (same page or same text)
+  merged?: DuplicateMerge[];
+  // queries whose search failed; the pass continued without their results
+  failed?: Array<{ q: string; error: string }>;
+  // queries a usage limit blocked; not counted as failed searches
+  skipped?: Array<{ q: string; limit: UsageLimit }>;
+  // follow-up passes only
+  iteration?: number;
+  planner?: GapPlanner["id"];
+  gaps?: string[];
+  newSources?: number;
+  gatePassedAfter?: boolean;
+};
+
+export type LoopStopReason =
+  | "sufficient"
+  | "max-iterations"
+  | "query-budget"
+  | "time-budget"
+  // a per-request usage limit (see usage.ts)
+  | "usage-budget"
+  | "no-new-queries"
+  | "no-new-sources";
+
+export type LoopBudget = {
+  maxIterations: number;
+  // all search queries of the run, including seed and subquestions
+  maxQueries: number;
+  maxMs: number;
+  queriesPerIteration: number;
+};
+
+export type LoopSummary = {
+  iterations: number;
+  stopReason: LoopStopReason;
+  queriesUsed: number;
+  elapsedMs: number;
 };
 
 export type PipelineOutput = {
@@ -31,59 +140,223 @@ export type PipelineOutput = {
     overall: number; // 0..1
     rationale: string;
   };
+  gateMetrics: GateMetrics;
+  buckets: BucketCoverage[];
   sources: Source[];
-  debug?: { passes: DebugPass[] };
+  // which claims are backed by more than one organisation (see corroboration.ts)
+  corroboration: CorroborationTable;
+  // claims the sources disagree on; source numbers are positions in `sources`
+  conflicts: Conflict[];
+  // set when a usage limit blocked planned searches: the evidence is what the budget allowed
+  usageLimited?: { limit: UsageLimit; skippedSearches: number };
+  debug?: {
+    passes: DebugPass[];
+    loop?: LoopSummary;
+    // sources over constraints.maxPerDomain in the final pool
+    poolDropped?: DroppedSource[];
+    // sources folded into one already in the pool from an earlier pass
+    poolMerged?: DuplicateMerge[];
+    gateRules?: Record<GateRuleId, number>;
+    extraction?: ExtractionStats;
+  };
 };
 
-export type TavilySearcher = (query: string) => Promise<Source[]>;
+export type TavilySearcher = (query: string, options?: SearchOptions) => Promise<Source[]>;
 
-const TAVILY_QUERY_MAX = 400;
+/**
+ * Receives every pipeline event (the same ones that go to the structured log),
+ * plus listener-only details such as partial source lists.
+ */
+export type PipelineEventListener = (event: string, payload: Record<string, unknown>) => void;
+
+type Emit = (event: string, payload: Record<string, unknown>, detail?: Record<string, unknown>) => void;
 
-const AUTHORITY_DOMAINS = [
-  "wikipedia.org",
-  "gov",
-  "europa.eu",
-  "who.int",
-  "oecd.org",
-  "imf.org",
-  "worldbank.org",
-  "nature.com",
-  "science.org",
-  "sciencedirect.com",
-  "jamanetwork.com",
-  "nejm.org",
-  "harvard.edu",
-  "mit.edu",
-];
+const TAVILY_QUERY_MAX = 400;
 
 export async function runResearchPipeline(
   input: PipelineInput,
   deps: {
     searcher: TavilySearcher;
     includeDebug?: boolean;
+    onEvent?: PipelineEventListener;
+    cache?: SearchCache;
+    extractor?: ContentExtractor;
+    planner?: GapPlanner;
+    // defaults to the RESEARCH_CONFIG.quality policy
+    policy?: DomainPolicy;
+    budget?: Partial<LoopBudget>;
+    // per-request limits; follow-up passes stop once search calls are blocked
+    meter?: Pick<UsageMeter, "exceeded">;
+    now?: () => number;
   }
 ): Promise<PipelineOutput> {
   const debugPasses: DebugPass[] = [];
+  const emit = makeEmitter(deps.onEvent);
+  const policy = deps.policy ?? domainPolicyFromConfig();
+  const search: PassSearch = {
+    searcher: deps.searcher,
+    cache: deps.cache,
+    policy,
+    constraints: input.constraints,
+    querySuffix: constraintQuerySuffix(input.constraints),
+    options: searchOptionsFor(input.constraints),
+  };
+  const planner = deps.planner ?? deterministicGapPlanner;
+  const budget: LoopBudget = { ...RESEARCH_CONFIG.loop, ...deps.budget };
+  const now = deps.now ?? Date.now;
+  const startedAt = now();
 
   const seedQueries = buildSeedQueries(input);
-  const seed = await runTavilyPass("seed", seedQueries, deps.searcher);
+  const seed = await runTavilyPass("seed", seedQueries, search, emit);
   debugPasses.push(seed.debug);
 
-  const expandQueries = buildExpandQueries(input, seed.sources);
-  const expand = await runTavilyPass("expand", expandQueries, deps.searcher);
-  debugPasses.push(expand.debug);
+  const plan = buildResearchPlan(input);
+  const planned = await runTavilyPass(
+    "subquestions",
+    plan.map((sq) => sq.query),
+    search,
+    emit
+  );
+  debugPasses.push(planned.debug);
+
+  const askedQueries = [...seedQueries, ...plan.map((sq) => sq.query)];
+  const followUpResults: Array<{ bucket: ResearchBucket; sources: Source[] }> = [];
+  const poolMerged: DuplicateMerge[] = [];
+  const mergeIntoPool = (current: Source[], added: Source[]) => {
+    const result = dedupeSources([...current, ...added]);
+    poolMerged.push(...result.merges);
+    return result.sources;
+  };
+  // share of searches that returned (failed ones are no evidence either way);
+  // searches a usage limit blocked were never attempted
+  const searches = {
+    attempted: seedQueries.length + plan.length - seed.skipped.length - planned.skipped.length,
+    failed: seed.failed + planned.failed,
+    skipped: [...seed.skipped, ...planned.skipped],
+  };
+  const coverage = () => (searches.attempted ? 1 - searches.failed / searches.attempted : 1);
+  let pool = mergeIntoPool(seed.sources, planned.sources);
+  let state = evaluateEvidence(pool, plan, planned.perQuery, followUpResults, policy, input, coverage());
+  const authoritySites = pickAuthoritySites(policy, `${input.goal} ${input.decision}`);
+
+  // Gap-driven loop: plan follow-ups for what is missing until the evidence
+  // suffices or a budget runs out.
+  let iterations = 0;
+  let stopReason: LoopStopReason;
+  for (;;) {
+    if (state.passed) {
+      stopReason = "sufficient";
+      break;
+    }
+    if (iterations >= budget.maxIterations) {
+      stopReason = "max-iterations";
+      break;
+    }
+    const remaining = Math.min(budget.queriesPerIteration, budget.maxQueries - askedQueries.length);
+    if (remaining <= 0) {
+      stopReason = "query-budget";
+      break;
+    }
+    if (now() - startedAt >= budget.maxMs) {
+      stopReason = "time-budget";
+      break;
+    }
+    if (searches.skipped.length || deps.meter?.exceeded("search")) {
+      stopReason = "usage-budget";
+      break;
+    }
+
+    const iteration = iterations + 1;
+    const followUps = (
+      await planner.plan({
+        goal: input.goal,
+        decision: input.decision,
+        iteration,
+        gaps: state.gaps,
+        plan,
+        sources: state.gate.scored,
+        askedQueries: [...askedQueries],
+        maxQueries: remaining,
+        authoritySites,
+      })
+    ).slice(0, remaining);
+    if (!followUps.length) {
+      stopReason = "no-new-queries";
+      break;
+    }
+
+    iterations = iteration;
+    const pass = await runTavilyPass(
+      `followup-${iteration}`,
+      followUps.map((f) => f.query),
+      search,
+      emit,
+      followUps.map((f) => (f.timeRange ? { timeRange: f.timeRange } : undefined))
+    );
+    askedQueries.push(...followUps.map((f) => f.query));
+    searches.attempted += followUps.length - pass.skipped.length;
+    searches.failed += pass.failed;
+    searches.skipped.push(...pass.skipped);
+    followUps.forEach((f, i) => {
+      if (f.bucket) followUpResults.push({ bucket: f.bucket, sources: pass.perQuery[i] ?? [] });
+    });
 
-  const authorityQueries = buildAuthorityQueries(input, [...seed.sources, ...expand.sources]);
-  const authority = await runTavilyPass("authority", authorityQueries, deps.searcher);
-  debugPasses.push(authority.debug);
+    const before = pool.length;
+    pool = mergeIntoPool(pool, pass.sources);
+    const gapsBefore = state.gaps;
+    state = evaluateEvidence(pool, plan, planned.perQuery, followUpResults, policy, input, coverage());
+
+    debugPasses.push({
+      ...pass.debug,
+      iteration,
+      planner: planner.id,
+      gaps: gapsBefore.map(describeGap),
+      newSources: pool.length - before,
+      gatePassedAfter: state.passed,
+    });
 
-  const mergedSources = dedupeSourcesByUrl([...seed.sources, ...expand.sources, ...authority.sources]);
+    if (pool.length === before) {
+      stopReason = "no-new-sources";
+      break;
+    }
+  }
 
-  const { decisionStatus, confidence, confidenceRationale } = simpleGate(mergedSources, input.outputLanguage);
+  const loop: LoopSummary = { iterations, stopReason, queriesUsed: askedQueries.length, elapsedMs: now() - startedAt };
+  emit("loop.complete", { ...loop });
+
+  const { gate, buckets, missingBuckets, passed, poolDropped } = state;
+  const decisionStatus: DecisionStatus = passed ? "EVIDENCE_SUFFICIENT" : "INSUFFICIENT_EVIDENCE";
+  const confidence = confidenceFromMetrics(gate.metrics, passed);
+  const usageLimited = searches.skipped.length
+    ? { limit: searches.skipped[0].limit, skippedSearches: searches.skipped.length }
+    : undefined;
+  const confidenceRationale = buildConfidenceRationale(
+    gate.metrics,
+    passed,
+    missingBuckets,
+    input.outputLanguage,
+    usageLimited?.skippedSearches
+  );
+
+  emit("gate.evaluated", { decisionStatus, confidence, missingBuckets, ...gate.metrics });
+
+  // Full-page text for the top-ranked sources (report quotes passages from it)
+  let finalSources = gate.scored;
+  let extraction: ExtractionStats | undefined;
+  if (deps.extractor) {
+    const extracted = await deps.extractor(gate.scored);
+    finalSources = extracted.sources;
+    extraction = extracted.stats;
+    emit("extract.complete", {
+      attempted: extraction.attempted,
+      extracted: extraction.extracted,
+      skipped: extraction.skipped.length,
+    });
+  }
 
   const recommendationOrSafeDefault =
     decisionStatus === "EVIDENCE_SUFFICIENT"
-      ? buildRecommendationFromEvidence(input, mergedSources)
+      ? buildRecommendationFromEvidence(input, gate.scored)
       : buildSafeDefault(input);
 
   return {
@@ -93,169 +366,303 @@ export async function runResearchPipeline(
       overall: confidence,
       rationale: confidenceRationale,
     },
-    sources: mergedSources,
-    ...(deps.includeDebug ? { debug: { passes: debugPasses } } : {}),
+    gateMetrics: gate.metrics,
+    buckets,
+    sources: finalSources,
+    corroboration: gate.corroboration,
+    conflicts: gate.conflicts,
+    ...(usageLimited ? { usageLimited } : {}),
+    ...(deps.includeDebug
+      ? {
+          debug: {
+            passes: debugPasses,
+            loop,
+            gateRules: gateRulesFor(input),
+            ...(poolDropped.length ? { poolDropped } : {}),
+            ...(poolMerged.length ? { poolMerged } : {}),
+            ...(extraction ? { extraction } : {}),
+          },
+        }
+      : {}),
   };
 }
 
-// ============================
-// Pass builders
-// ============================
-function buildSeedQueries(input: PipelineInput): string[] {
-  const q1 = `${input.goal}. Context: ${input.decision}.`;
-  const q2 = `${input.decision} evidence benchmarks and decision criteria`;
-  const q3 = `${input.decision} risks edge cases trade-offs`;
-  return [q1, q2, q3].map(normalizeQuery).filter(Boolean);
-}
-
-function buildExpandQueries(input: PipelineInput, seedSources: Source[]): string[] {
-  const top = seedSources
-    .slice(0, 6)
-    .map((s) => `${s.title ?? ""} ${s.snippet ?? ""}`.trim())
-    .filter(Boolean);
+type EvidenceState = {
+  gate: ReturnType<typeof scoreSourcesAndGate>;
+  buckets: BucketCoverage[];
+  missingBuckets: ResearchBucket[];
+  passed: boolean;
+  gaps: EvidenceGap[];
+  poolDropped: DroppedSource[];
+};
 
-  const keywords = extractKeywordsDeterministic(top.join(" "), 10);
+function evaluateEvidence(
+  pool: Source[],
+  plan: PlannedSubQuestion[],
+  plannedPerQuery: Source[][],
+  followUpResults: Array<{ bucket: ResearchBucket; sources: Source[] }>,
+  policy: DomainPolicy,
+  input: PipelineInput,
+  searchCoverage: number
+): EvidenceState {
+  const rules = gateRulesFor(input);
+  const capped = capPerDomain(pool, input.constraints?.maxPerDomain);
+  const gate = scoreSourcesAndGate(assignBuckets(capped.kept, plan, plannedPerQuery, followUpResults), {
+    policy,
+    timeHorizon: input.timeHorizon,
+    rules,
+    searchCoverage,
+  });
+  const buckets = evaluateBucketCoverage(plan, plannedPerQuery, gate.scored);
+  const missingBuckets = buckets.filter((b) => b.sources === 0).map((b) => b.bucket);
 
-  const base = `${input.decision}`;
-  const qs = [
-    `${base} ${keywords.slice(0, 3).join(" ")} comparative analysis`,
-    `${base} ${keywords.slice(3, 6).join(" ")} latest evidence`,
-    `${base} ${keywords.slice(6, 10).join(" ")} failure modes`,
-  ];
+  // A run without evidence in one of the buckets can never pass, whatever the metrics say.
+  const passed = gate.passed && missingBuckets.length === 0;
 
-  return qs.map(normalizeQuery).filter(Boolean);
+  return {
+    gate,
+    buckets,
+    missingBuckets,
+    passed,
+    gaps: detectGaps(failedGateRules(gate.metrics, rules), buckets),
+    poolDropped: capped.dropped,
+  };
 }
 
-function buildAuthorityQueries(input: PipelineInput, sourcesSoFar: Source[]): string[] {
-  const domains = Array.from(new Set(sourcesSoFar.map((s) => safeDomain(s.url)).filter(Boolean))).slice(0, 8);
-  const domainHints = domains.length ? ` Already-seen domains: ${domains.join(", ")}.` : "";
-
-  const base = normalizeQuery(`${input.decision} authoritative sources guidelines consensus${domainHints}`);
-
-  const authoritySites = pickAuthorityDomains(3);
-  const siteQ = authoritySites.map((d) => normalizeQuery(`${input.decision} site:${d} evidence`));
+// ============================
+// Pass builders
+// ============================
+const HORIZON_TERMS: Record<TimeHorizon, string> = {
+  now: "latest current",
+  quarter: "next quarter outlook",
+  year: "outlook next year",
+};
 
-  return [base, ...siteQ].map(normalizeQuery).filter(Boolean);
+function buildSeedQueries(input: PipelineInput): string[] {
+  const purpose = input.outputPurpose ? ` Purpose: ${input.outputPurpose}.` : "";
+  const notes = input.constraints?.notes ? ` Constraints: ${input.constraints.notes}.` : "";
+  const horizon = input.timeHorizon ? ` ${HORIZON_TERMS[input.timeHorizon]}` : "";
+  const q1 = `${input.goal}. Context: ${input.decision}.${purpose}${notes}`;
+  const q2 = `${input.decision} evidence benchmarks and decision criteria${horizon}`;
+  const q3 = `${input.decision} risks edge cases trade-offs`;
+  return [q1, q2, q3].map(normalizeQuery).filter(Boolean);
 }
 
 // ============================
 // Tavily pass runner
 // ============================
+// The cache stores unfiltered results; the domain policy is applied per run.
+type PassSearch = {
+  searcher: TavilySearcher;
+  cache?: SearchCache;
+  policy: DomainPolicy;
+  constraints?: ResearchConstraints;
+  // search operators from the constraints, kept intact when the query is truncated
+  querySuffix: string;
+  // date filters sent with every query
+  options?: SearchOptions;
+};
+
+function searchOptionsFor(constraints: ResearchConstraints | undefined): SearchOptions | undefined {
+  const range = constraints?.dateRange;
+  if (!range?.from && !range?.to) return undefined;
+  return { ...(range.from ? { startDate: range.from } : {}), ...(range.to ? { endDate: range.to } : {}) };
+}
+
 async function runTavilyPass(
-  pass: "seed" | "expand" | "authority",
+  pass: DebugPass["pass"],
   queries: string[],
-  searcher: TavilySearcher
-): Promise<{ sources: Source[]; debug: DebugPass }> {
-  const qDebug: DebugPass["queries"] = [];
-  const allSources: Source[] = [];
-
-  for (const raw of queries) {
-    const { q, truncated, originalLength, usedLength, hash } = truncateTavilyQuery(raw, TAVILY_QUERY_MAX);
-    qDebug.push({ q, truncated, originalLength, usedLength, hash });
+  search: PassSearch,
+  emit: Emit,
+  queryOptions: Array<SearchOptions | undefined> = []
+): Promise<{
+  sources: Source[];
+  perQuery: Source[][];
+  failed: number;
+  skipped: NonNullable<DebugPass["skipped"]>;
+  debug: DebugPass;
+}> {
+  const denied: NonNullable<DebugPass["denied"]> = [];
+  const dropped: DroppedSource[] = [];
+  const failed: NonNullable<DebugPass["failed"]> = [];
+  const skipped: NonNullable<DebugPass["skipped"]> = [];
+  let cacheHits = 0;
+
+  // Queries run side by side (up to the configured concurrency); a failed one
+  // yields no results instead of failing the pass.
+  const outcomes = await mapWithConcurrency(queries, RESEARCH_CONFIG.search.concurrency, async (raw, i) => {
+    const { q, truncated, originalLength, usedLength, hash } = truncateTavilyQuery(
+      raw,
+      TAVILY_QUERY_MAX,
+      search.querySuffix
+    );
+
+    // Keyed by the normalized-query hash (plus any date filters), so identical
+    // queries across runs share an entry.
+    const options = search.options || queryOptions[i] ? { ...search.options, ...queryOptions[i] } : undefined;
+    const cacheKey = options
+      ? `${hash}:${[options.timeRange, options.startDate, options.endDate].map((v) => v ?? "").join(",")}`
+      : hash;
+    const cached = search.cache ? await search.cache.get(cacheKey) : undefined;
+    const cache = search.cache ? (cached ? "hit" : "miss") : undefined;
+    if (cached) cacheHits++;
+
+    const debug: DebugPass["queries"][number] = {
+      q,
+      truncated,
+      originalLength,
+      usedLength,
+      hash,
+      ...(cache ? { cache } : {}),
+    };
 
-    logEvent("tavily.query", {
+    emit("tavily.query", {
       pass,
       truncated,
       originalLength,
       usedLength,
       hash,
+      ...(cache ? { cache } : {}),
       qPreview: q.slice(0, 120),
     });
 
-    const results = await searcher(q);
-    allSources.push(...results);
-  }
+    let results = cached;
+    if (!results) {
+      try {
+        results = await search.searcher(q, options);
+      } catch (err) {
+        if (isUsageLimitError(err)) {
+          skipped.push({ q, limit: err.limit });
+          emit("tavily.query.skipped", { pass, hash, limit: err.limit });
+          return { debug: { ...debug, skipped: err.limit }, kept: [] };
+        }
+        const error = err instanceof Error ? err.message : String(err);
+        failed.push({ q, error });
+        emit("tavily.query.failed", { pass, hash, error });
+        return { debug: { ...debug, error }, kept: [] };
+      }
+      await search.cache?.set(cacheKey, results);
+    }
+    results = results.map((s) => ({ ...s, publishedDate: normalizePublishedDate(s.publishedDate) }));
+    const allowed = applyDomainPolicy(search.policy, results);
+    const filtered = filterByConstraints(allowed.kept, search.constraints);
+    denied.push(...allowed.denied);
+    dropped.push(...filtered.dropped);
+    return { debug, kept: filtered.kept };
+  });
 
-  const deduped = dedupeSourcesByUrl(allSources);
-  const uniqueDomains = new Set(deduped.map((s) => safeDomain(s.url)).filter(Boolean)).size;
+  const qDebug = outcomes.map((o) => o.debug);
+  const perQuery = outcomes.map((o) => o.kept);
+  const allSources = perQuery.flat();
 
-  logEvent("tavily.pass.complete", {
-    pass,
-    queries: queries.length,
-    sources: deduped.length,
-    uniqueDomains,
-  });
+  const { sources: deduped, merges } = dedupeSources(allSources);
+  const uniqueDomains = new Set(deduped.map((s) => hostOf(s.url)).filter(Boolean)).size;
+
+  emit(
+    "tavily.pass.complete",
+    {
+      pass,
+      queries: queries.length,
+      sources: deduped.length,
+      uniqueDomains,
+      ...(search.cache ? { cacheHits } : {}),
+      ...(denied.length ? { denied: denied.length } : {}),
+      ...(dropped.length ? { dropped: dropped.length } : {}),
+      ...(merges.length ? { merged: merges.length } : {}),
+      ...(failed.length ? { failed: failed.length } : {}),
+      ...(skipped.length ? { skipped: skipped.length } : {}),
+    },
+    { sourceList: deduped.map((s) => ({ url: s.url, title: s.title })) }
+  );
 
   return {
     sources: deduped,
+    perQuery,
+    failed: failed.length,
+    skipped,
     debug: {
       pass,
       queries: qDebug,
       sources: deduped.length,
       uniqueDomains,
+      ...(search.cache ? { cacheHits } : {}),
+      ...(denied.length ? { denied } : {}),
+      ...(dropped.length ? { dropped } : {}),
+      ...(merges.length ? { merged: merges } : {}),
+      ...(failed.length ? { failed } : {}),
+      ...(skipped.length ? { skipped } : {}),
     },
   };
 }
 
 // ============================
-// Gating (fallback)
+// Gating rationale
 // ============================
-function simpleGate(
-  sources: Source[],
-  lang: "nl" | "en" | undefined
-): {
-  decisionStatus: DecisionStatus;
-  confidence: number;
-  confidenceRationale: string;
-} {
-  const uniqueDomains = new Set(sources.map((s) => safeDomain(s.url)).filter(Boolean)).size;
-  const enough = sources.length >= 6 && uniqueDomains >= 4;
-
-  if (enough) {
-    return {
-      decisionStatus: "EVIDENCE_SUFFICIENT",
-      confidence: 0.78,
-      confidenceRationale:
-        lang === "en"
-          ? `Sufficient breadth: ${sources.length} sources across ${uniqueDomains} domains.`
-          : `Voldoende breedte: ${sources.length} bronnen over ${uniqueDomains} domeinen.`,
-    };
-  }
-
-  return {
-    decisionStatus: "INSUFFICIENT_EVIDENCE",
-    confidence: 0.32,
-    confidenceRationale:
-      lang === "en"
-        ? `Insufficient breadth: ${sources.length} sources across ${uniqueDomains} domains.`
-        : `Onvoldoende breedte: ${sources.length} bronnen over ${uniqueDomains} domeinen.`,
-  };
+function buildConfidenceRationale(
+  metrics: GateMetrics,
+  passed: boolean,
+  missingBuckets: string[],
+  lang: OutputLanguage | undefined,
+  skippedSearches = 0
+): string {
+  const t = messages(lang);
+  const pct = (n: number) => `${Math.round(n * 100)}%`;
+  const score = (n: number) => n.toFixed(2);
+
+  const summary = t.gate.summary(passed ? t.gate.passed : t.gate.failed, {
+    sources: metrics.sources,
+    uniqueDomains: metrics.uniqueDomains,
+    avgScore: score(metrics.avgScore),
+    topSourceScore: score(metrics.topSourceScore),
+    top3AvgScore: score(metrics.top3AvgScore),
+    lowInfoRatio: pct(metrics.lowInfoRatio),
+  });
+  return [
+    summary,
+    missingBuckets.length ? t.noEvidenceFor(missingBuckets.join(", ")) : "",
+    metrics.unresolvedConflicts ? t.conflicts.unresolved(metrics.unresolvedConflicts) : "",
+    metrics.searchCoverage < 1 ? t.reducedCoverage(pct(1 - metrics.searchCoverage)) : "",
+    skippedSearches ? t.usageLimited(skippedSearches) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
 }
 
 // ============================
 // Output builders (LANG-AWARE)
 // ============================
 function buildRecommendationFromEvidence(input: PipelineInput, sources: Source[]): string {
-  const lang = input.outputLanguage ?? "nl";
   const top = sources.slice(0, 5).map((s) => `- ${s.title || s.url}`).join("\n");
-
-  if (lang === "en") {
-    return `Recommendation (based on collected evidence):\n\nGoal: ${input.goal}\nDecision: ${input.decision}\n\nTop sources:\n${top}`;
-  }
-
-  return `Aanbeveling (op basis van gevonden evidence):\n\nDoel: ${input.goal}\nBeslissing: ${input.decision}\n\nTop bronnen:\n${top}`;
+  return messages(input.outputLanguage).recommendation.fromEvidence(input.goal, input.decision, top);
 }
 
 function buildSafeDefault(input: PipelineInput): string {
-  const lang = input.outputLanguage ?? "nl";
-
-  if (lang === "en") {
-    return `Insufficient evidence to make a robust recommendation.\n\nSafe default:\n- Define explicit decision criteria (must-haves / nice-to-haves).\n- Collect 3–5 additional primary/authoritative sources.\n- Re-run the research with a tighter scope.\n\nContext:\nGoal: ${input.goal}\nDecision: ${input.decision}`;
-  }
-
-  return `Onvoldoende bewijs om een robuuste aanbeveling te doen.\n\nSafe default:\n- Formuleer expliciete besliscriteria (must-haves / nice-to-haves).\n- Verzamel 3–5 extra primaire/autoritatieve bronnen.\n- Herhaal het onderzoek met aangescherpte scope.\n\nContext:\nDoel: ${input.goal}\nBeslissing: ${input.decision}`;
+  return messages(input.outputLanguage).recommendation.safeDefault(input.goal, input.decision);
 }
 
 // ============================
 // Truncation + hashing
 // ============================
-function truncateTavilyQuery(query: string, maxLen: number): {
+function truncateTavilyQuery(
+  query: string,
+  maxLen: number,
+  suffix = ""
+): {
   q: string;
   truncated: boolean;
   originalLength: number;
   usedLength: number;
   hash: string;
 } {
+  // Truncate the query text only, then append the operators. A suffix too
+  // long to fit is left off; the post-retrieval filter still applies.
+  if (suffix && suffix.length <= maxLen / 2) {
+    const base = truncateTavilyQuery(query, maxLen - suffix.length - 1);
+    const q = `${base.q} ${suffix}`;
+    const full = `${normalizeQuery(query)} ${suffix}`;
+    return { ...base, q, originalLength: full.length, usedLength: q.length, hash: fnv1a(full) };
+  }
+
   const q0 = normalizeQuery(query);
   const originalLength = q0.length;
 
@@ -294,59 +701,11 @@ function fnv1a(str: string): string {
 // ============================
 // Utilities
 // ============================
-function dedupeSourcesByUrl(sources: Source[]): Source[] {
-  const map = new Map<string, Source>();
-  for (const s of sources) {
-    if (!s?.url) continue;
-    if (!map.has(s.url)) map.set(s.url, s);
-  }
-  return Array.from(map.values());
-}
-
-function normalizeQuery(q: string): string {
-  return (q || "").replace(/\s+/g, " ").replace(/\u0000/g, "").trim();
-}
-
-function safeDomain(url: string): string {
-  try {
-    const u = new URL(url);
-    return u.hostname.replace(/^www\./, "");
-  } catch {
-    return "";
-  }
-}
-
-function pickAuthorityDomains(n: number): string[] {
-  return AUTHORITY_DOMAINS.slice(0, n);
-}
-
-function extractKeywordsDeterministic(text: string, max: number): string[] {
-  const cleaned = (text || "")
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-
-  if (!cleaned) return [];
-
-  const stop = new Set([
-    "the","and","for","with","from","that","this","are","was","were","you","your","their",
-    "about","into","over","under","more","less","than","then","also","how","what","why",
-    "when","where","which","who","whom","can","could","should","would","may","might",
-    "evidence","analysis","research","study","studies","report","reports"
-  ]);
-
-  const freq = new Map<string, number>();
-  for (const token of cleaned.split(" ")) {
-    if (token.length < 4) continue;
-    if (stop.has(token)) continue;
-    freq.set(token, (freq.get(token) ?? 0) + 1);
-  }
-
-  return Array.from(freq.entries())
-    .sort((a, b) => (b[1] - a[1]) || a[0].localeCompare(b[0]))
-    .slice(0, max)
-    .map(([t]) => t);
+function makeEmitter(listener?: PipelineEventListener): Emit {
+  return (event, payload, detail) => {
+    logEvent(event, payload);
+    listener?.(event, { ...payload, ...detail });
+  };
 }
 
 function logEvent(event: string, payload: Record<string, unknown>) {
@@ -0,0 +1,47 @@
+// src/lib/research/plan.test.ts
+import { describe, it, expect } from "vitest";
+import type { Source } from "@/types/research";
+import { buildResearchPlan, evaluateBucketCoverage, isDisconfirmed } from "@/lib/research/plan";
+
+const filler = " It covers deployment, pricing tiers and support in detail for operations teams.".repeat(6);
+
+function src(url: string, sentence: string): Source {
+  return { url, title: url, snippet: sentence.padEnd(100, "."), content: sentence + filler, provider: "tavily" };
+}
+
+describe("isDisconfirmed", () => {
+  it("applies each rule to the targeted results", () => {
+    const thin: Source = { url: "https://a.com/1", title: "A", snippet: "short", content: "", provider: "tavily" };
+    const claim = "Independent tests show that the new engine reduces query latency by 40% for analytics.";
+    const a = src("https://a.com/1", claim);
+    const b = src("https://b.org/2", claim);
+
+    expect(isDisconfirmed([], "low-info-only")).toBe(false);
+    expect(isDisconfirmed([thin], "low-info-only")).toBe(true);
+    expect(isDisconfirmed([a], "low-info-only")).toBe(false);
+
+    expect(isDisconfirmed([a, src("https://docs.a.com/3", claim)], "single-organization")).toBe(true);
+    expect(isDisconfirmed([a, b], "single-organization")).toBe(false);
+
+    expect(isDisconfirmed([a], "uncorroborated")).toBe(true);
+    expect(isDisconfirmed([a, b], "uncorroborated")).toBe(false);
+
+    const vague = src("https://c.com/4", "Reviewers found that the engine feels fast for most teams.");
+    expect(isDisconfirmed([vague], "no-figures")).toBe(true);
+    expect(isDisconfirmed([a], "no-figures")).toBe(false);
+  });
+
+  it("caps a disconfirmed subquestion at inconclusive even with independent sources", () => {
+    const plan = buildResearchPlan({ goal: "Test", decision: "Pick A vs B" });
+    const i = plan.findIndex((sq) => sq.disconfirmWhen === "no-figures");
+    const results = plan.map(() => [] as Source[]);
+    results[i] = [
+      src("https://a.com/1", "Reviewers found that the engine feels fast for most teams."),
+      src("https://b.org/2", "Analysts reported that the engine scales well for large teams."),
+    ];
+
+    const coverage = evaluateBucketCoverage(plan, results, []);
+    const result = coverage.flatMap((b) => b.subquestions).find((r) => r.query === plan[i].query);
+    expect(result).toMatchObject({ disconfirmed: true, outcome: "inconclusive", uniqueDomains: 2 });
+  });
+});
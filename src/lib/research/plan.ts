@@ -0,0 +1,174 @@
+// src/lib/research/plan.ts
+import type { ResearchBucket, Source } from "@/types/research";
+import { generateSubQuestions, type DisconfirmationCheck, type SubQuestion } from "@/lib/research/subquestions";
+import { isLowInfo } from "@/lib/research/scoring";
+import {
+  buildCorroborationTable,
+  claimKey,
+  extractClaims,
+  measuredFigures,
+  organizationOf,
+} from "@/lib/research/corroboration";
+import { hostOf } from "@/lib/research/util";
+
+export type SubQuestionOutcome = SubQuestion["allowedOutcomes"][number];
+
+export type PlannedSubQuestion = SubQuestion & { query: string };
+
+export type SubQuestionResult = {
+  subquestion: string;
+  disconfirmationRule: string;
+  query: string;
+  sources: number;
+  uniqueDomains: number;
+  outcome: SubQuestionOutcome;
+  // the disconfirmation rule was met, so the outcome is at most inconclusive
+  disconfirmed: boolean;
+};
+
+export type BucketCoverage = {
+  bucket: ResearchBucket;
+  sources: number;
+  uniqueDomains: number;
+  // at most inconclusive while one of its subquestions is disconfirmed
+  outcome: SubQuestionOutcome;
+  subquestions: SubQuestionResult[];
+};
+
+export const RESEARCH_BUCKETS: ResearchBucket[] = [
+  "DecisionCriteria",
+  "OptionsLandscape",
+  "EvidenceBenchmarks",
+  "RisksEdgeCases",
+];
+
+// Deterministic fallback for sources that were not retrieved by a subquestion query.
+const BUCKET_KEYWORDS: Record<ResearchBucket, string[]> = {
+  DecisionCriteria: ["criteria", "requirement", "factor", "trade-off", "tradeoff", "choose", "checklist"],
+  OptionsLandscape: ["alternative", "option", "comparison", "versus", " vs ", "landscape", "vendor", "categories"],
+  EvidenceBenchmarks: ["benchmark", "pricing", "price", "performance", "latency", "quota", "measured", "study", "data"],
+  RisksEdgeCases: ["risk", "failure", "lock-in", "compliance", "security", "limitation", "pitfall", "outage"],
+};
+
+/**
+ * Turns every subquestion into one targeted (English) search query.
+ * The subquestions themselves stay the single source of truth for buckets and rules.
+ */
+export function buildResearchPlan(input: { goal: string; decision: string }): PlannedSubQuestion[] {
+  return generateSubQuestions().map((sq) => ({
+    ...sq,
+    query: `${input.decision} ${sq.searchTerms}`.replace(/\s+/g, " ").trim(),
+  }));
+}
+
+export function classifyBucket(source: Source): ResearchBucket | undefined {
+  const text = ` ${source.title ?? ""} ${source.snippet ?? ""} `.toLowerCase();
+
+  let best: ResearchBucket | undefined;
+  let bestHits = 0;
+  for (const bucket of RESEARCH_BUCKETS) {
+    const hits = BUCKET_KEYWORDS[bucket].filter((k) => text.includes(k)).length;
+    if (hits > bestHits) {
+      best = bucket;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+/**
+ * Assigns each source to a bucket:
+ * - the bucket of the first subquestion query that returned the URL, else
+ * - the bucket of the first targeted follow-up query that returned it, else
+ * - a keyword classification of title + snippet, else unassigned.
+ */
+export function assignBuckets(
+  sources: Source[],
+  plan: PlannedSubQuestion[],
+  resultsPerQuery: Source[][],
+  followUps: Array<{ bucket: ResearchBucket; sources: Source[] }> = []
+): Source[] {
+  const bucketByUrl = new Map<string, ResearchBucket>();
+  const targeted = [...plan.map((sq, i) => ({ bucket: sq.bucket, sources: resultsPerQuery[i] ?? [] })), ...followUps];
+  for (const t of targeted) {
+    for (const s of t.sources) {
+      if (s?.url && !bucketByUrl.has(s.url)) bucketByUrl.set(s.url, t.bucket);
+    }
+  }
+
+  return sources.map((s) => {
+    const bucket = bucketByUrl.get(s.url) ?? classifyBucket(s);
+    return bucket ? { ...s, bucket } : s;
+  });
+}
+
+/**
+ * Outcome of a targeted search before the subquestion's own rule (see isDisconfirmed):
+ * - negative: the targeted search found no evidence at all
+ * - positive: at least 2 informative sources from independent organisations
+ *   (subdomains and sister sites count once, see organizationOf)
+ * - inconclusive: anything in between (single source, or only low-information sources)
+ */
+export function evaluateOutcome(sources: Source[]): SubQuestionOutcome {
+  if (sources.length === 0) return "negative";
+  return independentOrganizations(sources) >= 2 ? "positive" : "inconclusive";
+}
+
+/** Whether the targeted results meet a subquestion's disconfirmation rule (see DisconfirmationCheck). */
+export function isDisconfirmed(sources: Source[], check: DisconfirmationCheck): boolean {
+  if (sources.length === 0) return false;
+  const informative = sources.filter((s) => !isLowInfo(s));
+  switch (check) {
+    case "low-info-only":
+      return informative.length === 0;
+    case "single-organization":
+      return independentOrganizations(sources) < 2;
+    case "uncorroborated":
+      return buildCorroborationTable(sources).corroborated === 0;
+    case "no-figures":
+      return !informative.some((s) => extractClaims(s).some((c) => measuredFigures(claimKey(c)).length > 0));
+  }
+}
+
+function independentOrganizations(sources: Source[]): number {
+  return new Set(sources.filter((s) => !isLowInfo(s)).map((s) => organizationOf(s.url)).filter(Boolean)).size;
+}
+
+export function evaluateBucketCoverage(
+  plan: PlannedSubQuestion[],
+  resultsPerQuery: Source[][],
+  assigned: Source[]
+): BucketCoverage[] {
+  return RESEARCH_BUCKETS.map((bucket) => {
+    const inBucket = assigned.filter((s) => s.bucket === bucket);
+
+    const subquestions: SubQuestionResult[] = [];
+    plan.forEach((sq, i) => {
+      if (sq.bucket !== bucket) return;
+      const results = resultsPerQuery[i] ?? [];
+      const disconfirmed = isDisconfirmed(results, sq.disconfirmWhen);
+      subquestions.push({
+        subquestion: sq.subquestion,
+        disconfirmationRule: sq.disconfirmationRule,
+        query: sq.query,
+        sources: results.length,
+        uniqueDomains: uniqueDomains(results),
+        outcome: disconfirmed ? "inconclusive" : evaluateOutcome(results),
+        disconfirmed,
+      });
+    });
+
+    const outcome = evaluateOutcome(inBucket);
+    return {
+      bucket,
+      sources: inBucket.length,
+      uniqueDomains: uniqueDomains(inBucket),
+      outcome: outcome === "positive" && subquestions.some((r) => r.disconfirmed) ? "inconclusive" : outcome,
+      subquestions,
+    };
+  });
+}
+
+function uniqueDomains(sources: Source[]): number {
+  return new Set(sources.map((s) => hostOf(s.url)).filter(Boolean)).size;
+}
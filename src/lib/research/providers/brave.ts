@@ -0,0 +1,52 @@
+// src/lib/research/providers/brave.ts
+import type { Source } from "@/types/research";
+import type { SearchOptions, SearchProvider } from "@/lib/research/providers/types";
+
+type BraveSearchResponse = {
+  web?: {
+    results?: Array<{
+      url?: string;
+      title?: string;
+      description?: string;
+      extra_snippets?: string[];
+      page_age?: string;
+    }>;
+  };
+};
+
+export function createBraveProvider(opts: { apiKey: string; maxResults?: number }): SearchProvider {
+  const maxResults = opts.maxResults ?? 8;
+
+  return {
+    id: "brave",
+    async search(query: string, options?: SearchOptions): Promise<Source[]> {
+      const params = new URLSearchParams({ q: query, count: String(maxResults) });
+      const res = await fetch(`https://api.search.brave.com/res/v1/web/search?${params.toString()}`, {
+        headers: {
+          Accept: "application/json",
+          "X-Subscription-Token": opts.apiKey,
+        },
+        signal: options?.signal,
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new Error(`Brave error: ${res.status} ${res.statusText} ${text}`);
+      }
+
+      const data = (await res.json()) as BraveSearchResponse;
+
+      return (data.web?.results ?? [])
+        .filter((r) => !!r.url)
+        .map((r) => ({
+          url: r.url as string,
+          title: r.title ?? "",
+          snippet: r.description ?? "",
+          content: [r.description ?? "", ...(r.extra_snippets ?? [])].join("\n").trim(),
+          rawContent: undefined,
+          publishedDate: r.page_age,
+          provider: "brave",
+        }));
+    },
+  };
+}
@@ -0,0 +1,16 @@
+// src/lib/research/providers/local.ts
+import type { SearchProvider } from "@/lib/research/providers/types";
+import { createLocalSearcher, type Bm25Index } from "@/lib/research/local";
+
+/**
+ * Local corpus adapter on top of the on-disk BM25 index (see lib/research/local).
+ */
+export function createLocalCorpusProvider(opts: {
+  index: Bm25Index | (() => Promise<Bm25Index>);
+  maxResults?: number;
+}): SearchProvider {
+  return {
+    id: "local",
+    search: createLocalSearcher(opts.index, { maxResults: opts.maxResults }),
+  };
+}
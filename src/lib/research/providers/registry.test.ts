@@ -0,0 +1,95 @@
+// src/lib/research/providers/registry.test.ts
+import { describe, it, expect } from "vitest";
+import type { SearchProviderId, Source } from "@/types/research";
+import type { SearchProvider } from "@/lib/research/providers/types";
+import {
+  createFanOutSearcher,
+  registerSearchProvider,
+  resolveSearchProviders,
+} from "@/lib/research/providers/registry";
+import { createLocalCorpusProvider } from "@/lib/research/providers/local";
+import { indexDocuments } from "@/lib/research/local";
+
+function mkSource(url: string, provider: SearchProviderId): Source {
+  return { url, title: url, snippet: "", content: "", provider };
+}
+
+function fixedProvider(id: SearchProviderId, urls: string[]): SearchProvider {
+  return { id, search: async () => urls.map((u) => mkSource(u, id)) };
+}
+
+describe("createFanOutSearcher", () => {
+  it("merges providers round-robin by rank and dedupes by URL", async () => {
+    const search = createFanOutSearcher([
+      fixedProvider("tavily", ["https://a.com/1", "https://shared.com", "https://a.com/2"]),
+      fixedProvider("brave", ["https://shared.com", "https://b.com/1"]),
+    ]);
+
+    const out = await search("q");
+
+    expect(out.map((s) => s.url)).toEqual([
+      "https://a.com/1",
+      "https://shared.com",
+      "https://b.com/1",
+      "https://a.com/2",
+    ]);
+    // first provider to return a URL keeps it
+    expect(out.find((s) => s.url === "https://shared.com")!.provider).toBe("brave");
+  });
+
+  it("tolerates a failing provider but fails when all providers fail", async () => {
+    const failing: SearchProvider = {
+      id: "searxng",
+      search: async () => {
+        throw new Error("boom");
+      },
+    };
+
+    const partial = createFanOutSearcher([failing, fixedProvider("tavily", ["https://a.com/1"])]);
+    expect((await partial("q")).map((s) => s.provider)).toEqual(["tavily"]);
+
+    const allFail = createFanOutSearcher([failing, { ...failing, id: "brave" }]);
+    await expect(allFail("q")).rejects.toThrow(/All search providers failed/);
+  });
+});
+
+describe("createLocalCorpusProvider", () => {
+  it("returns matching chunks from the local index as local sources, best match first", async () => {
+    const provider = createLocalCorpusProvider({
+      index: indexDocuments([
+        { path: "a.md", title: "Pricing", text: "Vendor pricing tiers and pricing limits." },
+        { path: "b.md", title: "Risks", text: "Operational risks of vendor lock-in." },
+        { path: "c.md", title: "Other", text: "Unrelated notes." },
+      ]),
+    });
+
+    const out = await provider.search("vendor pricing");
+
+    expect(out.map((s) => s.title)).toEqual(["Pricing", "Risks"]);
+    expect(out.every((s) => s.provider === "local")).toBe(true);
+    expect(out[0].snippet).toContain("pricing");
+  });
+});
+
+describe("resolveSearchProviders", () => {
+  it("builds a provider once per process and again only when its version changes", () => {
+    let built = 0;
+    let version = "v1";
+    registerSearchProvider(
+      "searxng",
+      () => {
+        built++;
+        return fixedProvider("searxng", []);
+      },
+      () => version
+    );
+
+    const [first] = resolveSearchProviders(["searxng"]);
+    expect(resolveSearchProviders(["searxng"])[0]).toBe(first);
+    expect(built).toBe(1);
+
+    version = "v2";
+    expect(resolveSearchProviders(["searxng"])[0]).not.toBe(first);
+    expect(built).toBe(2);
+  });
+});
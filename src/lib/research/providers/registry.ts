@@ -0,0 +1,124 @@
+// src/lib/research/providers/registry.ts
+import type { SearchProviderId, Source } from "@/types/research";
+import type { TavilySearcher } from "@/lib/research/pipeline";
+import type { SearchOptions, SearchProvider } from "@/lib/research/providers/types";
+import { createTavilyProvider } from "@/lib/research/providers/tavily";
+import { createSearxngProvider } from "@/lib/research/providers/searxng";
+import { createBraveProvider } from "@/lib/research/providers/brave";
+import { createLocalCorpusProvider } from "@/lib/research/providers/local";
+import { isUsageLimitError } from "@/lib/research/usage";
+import { getLocalIndexConfig, loadOrBuildLocalIndex, localIndexVersion } from "@/lib/research/local";
+
+// A factory returns null when the provider is not configured in this environment.
+type ProviderFactory = () => SearchProvider | null;
+
+// Providers are built once per process; a changed `version` (e.g. a rewritten local index) rebuilds one.
+type ProviderEntry = { create: ProviderFactory; version?: () => string };
+
+const factories = new Map<SearchProviderId, ProviderEntry>([
+  ["tavily", { create: () => (process.env.TAVILY_API_KEY ? createTavilyProvider() : null) }],
+  [
+    "searxng",
+    { create: () => (process.env.SEARXNG_URL ? createSearxngProvider({ baseUrl: process.env.SEARXNG_URL }) : null) },
+  ],
+  [
+    "brave",
+    { create: () => (process.env.BRAVE_API_KEY ? createBraveProvider({ apiKey: process.env.BRAVE_API_KEY }) : null) },
+  ],
+  [
+    "local",
+    {
+      create: () => {
+        const config = getLocalIndexConfig();
+        return config ? createLocalCorpusProvider({ index: () => loadOrBuildLocalIndex(config) }) : null;
+      },
+      version: () => localIndexVersion(getLocalIndexConfig()),
+    },
+  ],
+]);
+
+const instances = new Map<SearchProviderId, { version: string; provider: SearchProvider | null }>();
+
+export const DEFAULT_SEARCH_PROVIDERS: SearchProviderId[] = ["tavily"];
+
+export function registerSearchProvider(id: SearchProviderId, factory: ProviderFactory, version?: () => string) {
+  factories.set(id, { create: factory, version });
+  instances.delete(id);
+}
+
+export function isSearchProviderId(id: string): id is SearchProviderId {
+  return factories.has(id as SearchProviderId);
+}
+
+function providerFor(id: SearchProviderId): SearchProvider | null {
+  const entry = factories.get(id);
+  if (!entry) return null;
+  const version = entry.version?.() ?? "";
+  const cached = instances.get(id);
+  if (cached && cached.version === version) return cached.provider;
+
+  const provider = entry.create();
+  instances.set(id, { version, provider });
+  return provider;
+}
+
+/**
+ * Ids of providers that are both registered and configured.
+ */
+export function availableSearchProviders(): SearchProviderId[] {
+  return Array.from(factories.keys()).filter((id) => providerFor(id) !== null);
+}
+
+export function resolveSearchProviders(ids: SearchProviderId[] = DEFAULT_SEARCH_PROVIDERS): SearchProvider[] {
+  return ids.map((id) => {
+    const provider = providerFor(id);
+    if (!provider) throw new Error(`Search provider not configured: ${id}`);
+    return provider;
+  });
+}
+
+/**
+ * Sends each query to every provider and merges the result lists:
+ * round-robin by rank (so no single provider dominates the top), deduped by URL.
+ * One failing provider is tolerated; the query only fails when all of them fail.
+ */
+export function createFanOutSearcher(providers: SearchProvider[]): TavilySearcher {
+  if (!providers.length) throw new Error("At least one search provider is required");
+  if (providers.length === 1) return providers[0].search;
+
+  return async (query: string, options?: SearchOptions) => {
+    const settled = await Promise.allSettled(providers.map((p) => p.search(query, options)));
+
+    const lists: Source[][] = [];
+    const errors: string[] = [];
+    settled.forEach((r, i) => {
+      if (r.status === "fulfilled") lists.push(r.value);
+      else errors.push(`${providers[i].id}: ${r.reason instanceof Error ? r.reason.message : String(r.reason)}`);
+    });
+
+    if (!lists.length) {
+      // every provider was blocked by the usage limit: keep that visible to the pipeline
+      const reasons = settled.map((r) => (r.status === "rejected" ? r.reason : undefined));
+      if (reasons.every(isUsageLimitError)) throw reasons[0];
+      throw new Error(`All search providers failed (${errors.join("; ")})`);
+    }
+
+    return mergeRoundRobin(lists);
+  };
+}
+
+function mergeRoundRobin(lists: Source[][]): Source[] {
+  const seen = new Set<string>();
+  const out: Source[] = [];
+  const longest = Math.max(0, ...lists.map((l) => l.length));
+
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of lists) {
+      const s = list[rank];
+      if (!s?.url || seen.has(s.url)) continue;
+      seen.add(s.url);
+      out.push(s);
+    }
+  }
+  return out;
+}
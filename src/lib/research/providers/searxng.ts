@@ -0,0 +1,48 @@
+// src/lib/research/providers/searxng.ts
+import type { Source } from "@/types/research";
+import type { SearchOptions, SearchProvider } from "@/lib/research/providers/types";
+
+type SearxngResponse = {
+  results?: Array<{
+    url?: string;
+    title?: string;
+    content?: string;
+    publishedDate?: string | null;
+  }>;
+};
+
+/**
+ * SearXNG instance with the JSON output format enabled (`search.formats: [json]`).
+ */
+export function createSearxngProvider(opts: { baseUrl: string; maxResults?: number }): SearchProvider {
+  const baseUrl = opts.baseUrl.replace(/\/+$/, "");
+  const maxResults = opts.maxResults ?? 8;
+
+  return {
+    id: "searxng",
+    async search(query: string, options?: SearchOptions): Promise<Source[]> {
+      const url = `${baseUrl}/search?${new URLSearchParams({ q: query, format: "json" }).toString()}`;
+      const res = await fetch(url, { headers: { Accept: "application/json" }, signal: options?.signal });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new Error(`SearXNG error: ${res.status} ${res.statusText} ${text}`);
+      }
+
+      const data = (await res.json()) as SearxngResponse;
+
+      return (data.results ?? [])
+        .filter((r) => !!r.url)
+        .slice(0, maxResults)
+        .map((r) => ({
+          url: r.url as string,
+          title: r.title ?? "",
+          snippet: r.content ?? "",
+          content: r.content ?? "",
+          rawContent: undefined,
+          publishedDate: r.publishedDate ?? undefined,
+          provider: "searxng",
+        }));
+    },
+  };
+}
@@ -1,5 +1,7 @@
-// src/config/tavily.ts
+// src/lib/research/providers/tavily.ts
 import type { Source } from "@/types/research";
+import { RESEARCH_CONFIG } from "@/config/research";
+import type { SearchOptions, SearchProvider } from "@/lib/research/providers/types";
 
 type TavilySearchResponse = {
   results?: Array<{
@@ -7,11 +9,12 @@ type TavilySearchResponse = {
     title?: string;
     content?: string;
     snippet?: string;
+    raw_content?: string | null;
     published_date?: string;
   }>;
 };
 
-export async function tavilySearch(query: string): Promise<Source[]> {
+export async function tavilySearch(query: string, options: SearchOptions = {}): Promise<Source[]> {
   const apiKey = process.env.TAVILY_API_KEY;
   if (!apiKey) {
     throw new Error("Missing TAVILY_API_KEY env var");
@@ -27,9 +30,13 @@ export async function tavilySearch(query: string): Promise<Source[]> {
       query,
       search_depth: "advanced",
       include_answer: false,
-      include_raw_content: false,
+      include_raw_content: RESEARCH_CONFIG.tavily.includeRawContent,
       max_results: 8,
+      ...(options.timeRange ? { time_range: options.timeRange } : {}),
+      ...(options.startDate ? { start_date: options.startDate } : {}),
+      ...(options.endDate ? { end_date: options.endDate } : {}),
     }),
+    signal: options.signal,
   });
 
   if (!res.ok) {
@@ -47,8 +54,12 @@ export async function tavilySearch(query: string): Promise<Source[]> {
       title: r.title ?? "",
       snippet: r.snippet ?? "",
       content: r.content ?? "",
-      rawContent: undefined,
+      rawContent: r.raw_content?.trim() || undefined,
       publishedDate: r.published_date,
       provider: "tavily",
     }));
 }
+
+export function createTavilyProvider(): SearchProvider {
+  return { id: "tavily", search: tavilySearch };
+}
@@ -0,0 +1,24 @@
+// src/lib/research/providers/types.ts
+import type { SearchProviderId, Source } from "@/types/research";
+
+/**
+ * Date filters for one search. Providers without date filtering ignore them;
+ * the pipeline still scores freshness from `publishedDate`.
+ */
+export type SearchOptions = {
+  timeRange?: "day" | "week" | "month" | "year";
+  // YYYY-MM-DD
+  startDate?: string;
+  endDate?: string;
+  // aborts the request, e.g. when an attempt times out (see resilientSearch.ts)
+  signal?: AbortSignal;
+};
+
+/**
+ * Common seam for every search backend. Adapters map their own response
+ * shape to `Source` and stamp `provider` with their id.
+ */
+export type SearchProvider = {
+  id: SearchProviderId;
+  search: (query: string, options?: SearchOptions) => Promise<Source[]>;
+};
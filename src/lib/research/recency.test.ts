@@ -0,0 +1,142 @@
+// src/lib/research/recency.test.ts
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Source } from "@/types/research";
+import { scoreSourcesAndGate, failedGateRules, gateRulesFor } from "@/lib/research/scoring";
+import { runResearchPipeline } from "@/lib/research/pipeline";
+import { tavilySearch } from "@/lib/research/providers/tavily";
+import {
+  freshnessScore,
+  normalizePublishedDate,
+  staleEvidenceNote,
+  summarizeRecency,
+  withStaleEvidenceNote,
+} from "@/lib/research/recency";
+
+const now = Date.parse("2026-06-15T12:00:00Z");
+
+function src(url: string, publishedDate?: string): Source {
+  return { url, title: url, snippet: "s".repeat(300), content: "c".repeat(2500), provider: "tavily", publishedDate };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("normalizePublishedDate", () => {
+  it("normalizes the formats providers return", () => {
+    expect(normalizePublishedDate("2026-03-01T08:30:00Z", now)).toBe("2026-03-01");
+    expect(normalizePublishedDate("Mon, 02 Feb 2026 10:00:00 GMT", now)).toBe("2026-02-02");
+    expect(normalizePublishedDate("2024", now)).toBe("2024-01-01");
+    expect(normalizePublishedDate("2025-11", now)).toBe("2025-11-01");
+    expect(normalizePublishedDate("3 days ago", now)).toBe("2026-06-12");
+    expect(normalizePublishedDate("2 weeks ago", now)).toBe("2026-06-01");
+  });
+
+  it("rejects garbage, ancient and future dates", () => {
+    expect(normalizePublishedDate(undefined, now)).toBeUndefined();
+    expect(normalizePublishedDate("last spring", now)).toBeUndefined();
+    expect(normalizePublishedDate("1970-01-01", now)).toBeUndefined();
+    expect(normalizePublishedDate("2027-01-01", now)).toBeUndefined();
+  });
+});
+
+describe("freshness and recency", () => {
+  it("halves freshness per half-life of the horizon", () => {
+    expect(freshnessScore("2026-06-15", "now", now)).toBe(1);
+    expect(freshnessScore("2025-12-17", "now", now)).toBeCloseTo(0.5, 2);
+    expect(freshnessScore("2025-12-17", "year", now)).toBeGreaterThan(0.8);
+    expect(freshnessScore(undefined, "now", now)).toBeUndefined();
+  });
+
+  it("summarizes dates and writes a stale note only when most evidence is old", () => {
+    const sources = [src("https://a.com", "2026-05-01"), src("https://b.com", "2023-01-01"), src("https://c.com")];
+    const summary = summarizeRecency([...sources, src("https://d.com", "2022-06-01")], "now", now);
+    expect(summary).toEqual({
+      timeHorizon: "now",
+      dated: 3,
+      recent: 1,
+      stale: 2,
+      oldest: "2022-06-01",
+      newest: "2026-05-01",
+    });
+    expect(staleEvidenceNote(summary, "en")).toBe(
+      "Evidence may be outdated: 2 of 3 dated sources are older than 12 months (newest: 2026-05-01)."
+    );
+    expect(staleEvidenceNote(summarizeRecency(sources.slice(0, 1), "now", now), "en")).toBeUndefined();
+    expect(staleEvidenceNote(summarizeRecency([src("https://c.com")], "year", now), "nl")).toBeUndefined();
+    expect(staleEvidenceNote(summarizeRecency([src("https://c.com")], "now", now), "nl")).toMatch(/publicatiedatum/);
+  });
+
+  it("replaces the no-uncertainties placeholder with the note", () => {
+    const report = {
+      summaryBullets: [],
+      summaryText: "",
+      recommendation: {
+        choice: "Wait",
+        why: [],
+        conditions: [],
+        uncertainties: ["No significant uncertainties identified."],
+      },
+      research: [],
+    };
+    const out = withStaleEvidenceNote(report, summarizeRecency([src("https://c.com")], "now", now), "en");
+    expect(out.recommendation.uncertainties).toEqual([
+      "Publication dates are unknown for all sources, so it is unclear whether the evidence is current.",
+    ]);
+  });
+});
+
+describe("recency in scoring and gating", () => {
+  it("scores older dated sources lower and leaves undated ones alone", () => {
+    const { scored } = scoreSourcesAndGate(
+      [src("https://old.com", "2020-01-01"), src("https://new.com", "2026-06-10"), src("https://undated.com")],
+      { timeHorizon: "now", now }
+    );
+    const byUrl = (url: string) => scored.find((s) => s.url === url);
+    expect(byUrl("https://undated.com")?.score).toBe(1);
+    expect(byUrl("https://new.com")?.score).toBeCloseTo(1, 2);
+    expect(byUrl("https://old.com")?.score).toBeLessThan(0.87);
+    expect(byUrl("https://old.com")?.scoreBreakdown?.freshness).toBeLessThan(0.01);
+  });
+
+  it("requires recent sources only for the `now` horizon", () => {
+    const { metrics } = scoreSourcesAndGate([src("https://a.com", "2026-06-01"), src("https://b.com")], { now });
+    expect(metrics.recentSources).toBe(1);
+    expect(failedGateRules(metrics, gateRulesFor({ timeHorizon: "now" })).map((f) => f.rule)).toContain("minRecentSources");
+    expect(failedGateRules(metrics, gateRulesFor({ timeHorizon: "quarter" })).map((f) => f.rule)).not.toContain("minRecentSources");
+  });
+
+  it("plans time-restricted follow-ups when recent sources are missing", async () => {
+    const calls: Array<{ q: string; timeRange?: string }> = [];
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured", timeHorizon: "now" },
+      {
+        searcher: async (q, options) => {
+          calls.push({ q, timeRange: options?.timeRange });
+          return [src(`https://site${calls.length}.com/x`, "March 3, 2019")];
+        },
+        includeDebug: true,
+        // room for the bucket follow-ups of the (uncorroborated) buckets as well
+        budget: { maxIterations: 1, queriesPerIteration: 10 },
+      }
+    );
+    expect(out.sources[0].publishedDate).toBe("2019-03-03");
+    expect(out.debug?.passes[2].gaps).toContain("minRecentSources: 0 (needs 3)");
+    const recent = calls.filter((c) => c.timeRange === "year").map((c) => c.q);
+    expect(recent).toContain("Pick option A vs B latest developments");
+  });
+});
+
+describe("tavily time range", () => {
+  it("sends time_range and date bounds when given", async () => {
+    vi.stubEnv("TAVILY_API_KEY", "test");
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ results: [] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await tavilySearch("q", { timeRange: "month", startDate: "2026-01-01" });
+    const body = JSON.parse(String((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body));
+    expect(body).toMatchObject({ query: "q", time_range: "month", start_date: "2026-01-01" });
+    expect(body).not.toHaveProperty("end_date");
+  });
+});
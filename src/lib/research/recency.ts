@@ -0,0 +1,111 @@
+// src/lib/research/recency.ts
+import type { OutputLanguage, Source, TimeHorizon } from "@/types/research";
+import { RESEARCH_CONFIG } from "@/config/research";
+import { NO_SIGNIFICANT_UNCERTAINTIES, type ReportContent } from "@/lib/research/report.Schema";
+import { messages } from "@/lib/research/i18n";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used when the request does not state a time horizon.
+export const DEFAULT_TIME_HORIZON: TimeHorizon = "year";
+
+export type RecencySummary = {
+  timeHorizon: TimeHorizon;
+  dated: number;
+  // published within RESEARCH_CONFIG.recency.recentDays of the horizon
+  recent: number;
+  // older than RESEARCH_CONFIG.recency.staleDays of the horizon
+  stale: number;
+  newest?: string;
+  oldest?: string;
+};
+
+const RELATIVE = /^(\d+)\s+(minute|hour|day|week|month|year)s?\s+ago$/;
+const UNIT_DAYS: Record<string, number> = { minute: 0, hour: 0, day: 1, week: 7, month: 30, year: 365 };
+
+/**
+ * Normalizes provider dates to YYYY-MM-DD: ISO timestamps, RFC 2822 strings,
+ * bare years/months ("2024", "2024-05") and relative ages ("3 days ago").
+ * Unparseable, pre-1990 and future dates become undefined.
+ */
+export function normalizePublishedDate(value: string | undefined | null, now = Date.now()): string | undefined {
+  const v = (value ?? "").trim().toLowerCase();
+  if (!v) return undefined;
+
+  let t: number;
+  const rel = RELATIVE.exec(v);
+  if (rel) t = now - Number(rel[1]) * UNIT_DAYS[rel[2]] * DAY_MS;
+  else if (/^\d{4}$/.test(v)) t = Date.parse(`${v}-01-01`);
+  else if (/^\d{4}-\d{2}$/.test(v)) t = Date.parse(`${v}-01`);
+  else t = Date.parse(v);
+
+  if (Number.isNaN(t) || t > now + DAY_MS || t < Date.UTC(1990, 0, 1)) return undefined;
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+export function ageInDays(isoDay: string, now = Date.now()): number {
+  return Math.max(0, Math.floor((now - Date.parse(isoDay)) / DAY_MS));
+}
+
+/**
+ * 1 for today, halving every `halfLifeDays` of the horizon; undefined when the
+ * source has no usable date.
+ */
+export function freshnessScore(
+  publishedDate: string | undefined,
+  horizon: TimeHorizon = DEFAULT_TIME_HORIZON,
+  now = Date.now()
+): number | undefined {
+  const day = normalizePublishedDate(publishedDate, now);
+  if (!day) return undefined;
+  return Math.pow(0.5, ageInDays(day, now) / RESEARCH_CONFIG.recency.halfLifeDays[horizon]);
+}
+
+export function summarizeRecency(
+  sources: Array<Pick<Source, "publishedDate">>,
+  horizon: TimeHorizon = DEFAULT_TIME_HORIZON,
+  now = Date.now()
+): RecencySummary {
+  const { recentDays, staleDays } = RESEARCH_CONFIG.recency;
+  const days = sources
+    .map((s) => normalizePublishedDate(s.publishedDate, now))
+    .filter((d): d is string => !!d)
+    .sort();
+
+  return {
+    timeHorizon: horizon,
+    dated: days.length,
+    recent: days.filter((d) => ageInDays(d, now) <= recentDays[horizon]).length,
+    stale: days.filter((d) => ageInDays(d, now) > staleDays[horizon]).length,
+    ...(days.length ? { oldest: days[0], newest: days[days.length - 1] } : {}),
+  };
+}
+
+/**
+ * Report note for old or undated evidence; undefined when the dates look fine
+ * for the horizon. Only `now` flags a run without any dated source.
+ */
+export function staleEvidenceNote(summary: RecencySummary, lang: OutputLanguage): string | undefined {
+  const { dated, stale, newest, timeHorizon } = summary;
+  const months = Math.round(RESEARCH_CONFIG.recency.staleDays[timeHorizon] / 30);
+  const m = messages(lang).recency;
+
+  if (!dated) return timeHorizon === "now" ? m.undated : undefined;
+  if (stale * 2 < dated) return undefined;
+  return m.stale(stale, dated, months, newest ?? "");
+}
+
+/**
+ * Adds the stale-evidence note to the report uncertainties (replacing the
+ * "no significant uncertainties" placeholder).
+ */
+export function withStaleEvidenceNote<T extends ReportContent>(
+  report: T,
+  summary: RecencySummary,
+  lang: OutputLanguage
+): T {
+  const note = staleEvidenceNote(summary, lang);
+  if (!note) return report;
+  const kept = report.recommendation.uncertainties.filter((u) => u !== NO_SIGNIFICANT_UNCERTAINTIES[lang]);
+  return { ...report, recommendation: { ...report.recommendation, uncertainties: [...kept, note] } };
+}
@@ -0,0 +1,116 @@
+// src/lib/research/repair.test.ts
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import type { PipelineOutput } from "@/lib/research/pipeline";
+import { ReportSchema } from "@/lib/research/report.Schema";
+import { generateWithRepair } from "@/lib/research/repair";
+import { buildDegradedReport } from "@/lib/research/degradedReport";
+
+const Shape = z.object({ title: z.string().min(3), items: z.array(z.string()).min(2) });
+
+function scripted(outputs: string[]) {
+  const calls: Array<{ input: string }> = [];
+  return {
+    calls,
+    call: async (input: string) => {
+      calls.push({ input });
+      return outputs[calls.length - 1] ?? "";
+    },
+  };
+}
+
+describe("generateWithRepair", () => {
+  it("returns the first valid answer without repair", async () => {
+    const model = scripted(['{"title":"Fine","items":["a","b"]}']);
+    const out = await generateWithRepair({
+      prompt: "P",
+      maxAttempts: 3,
+      call: model.call,
+      validate: (raw) => Shape.parse(JSON.parse(raw)),
+    });
+
+    expect(out.ok).toBe(true);
+    expect(out.attempts).toEqual([{ attempt: 1, errors: [] }]);
+  });
+
+  it("sends zod errors back for repairs", async () => {
+    const model = scripted(['{"title":"No","items":["a"]}', '{"title":"Fixed","items":["a","b"]}']);
+    const out = await generateWithRepair({
+      prompt: "P",
+      maxAttempts: 3,
+      call: model.call,
+      validate: (raw) => Shape.parse(JSON.parse(raw)),
+    });
+
+    expect(out.ok && out.value.title).toBe("Fixed");
+    expect(out.attempts.map((a) => a.attempt)).toEqual([1, 2]);
+    expect(out.attempts[0].errors).toEqual([
+      "title: String must contain at least 3 character(s)",
+      "items: Array must contain at least 2 element(s)",
+    ]);
+
+    const repairInput = model.calls[1].input;
+    expect(repairInput.startsWith("P")).toBe(true);
+    expect(repairInput).toContain('{"title":"No","items":["a"]}');
+    expect(repairInput).toContain("- items: Array must contain at least 2 element(s)");
+  });
+
+  it("gives up after maxAttempts and reports the last errors", async () => {
+    const model = scripted(["not json", "still not json"]);
+    const out = await generateWithRepair({
+      prompt: "P",
+      maxAttempts: 2,
+      call: model.call,
+      validate: (raw) => Shape.parse(JSON.parse(raw)),
+    });
+
+    expect(out.ok).toBe(false);
+    expect(model.calls.length).toBe(2);
+    expect(!out.ok && out.error).toMatch(/JSON/);
+  });
+});
+
+describe("buildDegradedReport", () => {
+  it("builds a schema-valid report from the pipeline output alone", () => {
+    const research = {
+      decisionStatus: "INSUFFICIENT_EVIDENCE",
+      recommendationOrSafeDefault:
+        "Insufficient evidence to make a robust recommendation.\n\nSafe default:\n- Define explicit decision criteria.",
+      confidenceOverview: { overall: 0.2, rationale: "Gate failed: 2 sources across 2 domains." },
+      gateMetrics: { sources: 2, uniqueDomains: 2, avgScore: 0.1, topSourceScore: 0.2, top3AvgScore: 0.15, lowInfoRatio: 1, lowTrustRatio: 0, recentSources: 0, corroboratedClaims: 0, unresolvedConflicts: 0, searchCoverage: 1 },
+      buckets: [{ bucket: "RisksEdgeCases", sources: 0, uniqueDomains: 0, outcome: "negative", subquestions: [] }],
+      sources: [],
+    } as unknown as PipelineOutput;
+
+    const report = buildDegradedReport(
+      research,
+      [
+        { sourceNumber: 1, title: "A", url: "https://a.com", snippet: "Snippet A" },
+        { sourceNumber: 2, title: "B", url: "https://b.com", snippet: "Snippet B" },
+      ],
+      "en"
+    );
+
+    expect(() => ReportSchema.parse(report)).not.toThrow();
+    expect(report.research[0].content).toContain("- A [1]: Snippet A");
+    expect(report.recommendation.uncertainties).toContain("No evidence for: RisksEdgeCases.");
+    expect(report.sources.map((s) => s.sourceNumber)).toEqual([1, 2]);
+  });
+
+  it("stays schema-valid when no sources survived", () => {
+    const research = {
+      decisionStatus: "INSUFFICIENT_EVIDENCE",
+      recommendationOrSafeDefault: "",
+      confidenceOverview: { overall: 0, rationale: "Gate failed: 0 sources across 0 domains." },
+      gateMetrics: { sources: 0, uniqueDomains: 0, avgScore: 0, topSourceScore: 0, top3AvgScore: 0, lowInfoRatio: 0 },
+      buckets: [],
+      sources: [],
+    } as unknown as PipelineOutput;
+
+    for (const lang of ["nl", "en", "de", "fr"] as const) {
+      const report = buildDegradedReport(research, [], lang);
+      expect(() => ReportSchema.parse(report)).not.toThrow();
+      expect(report.sources).toEqual([]);
+    }
+  });
+});
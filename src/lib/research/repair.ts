@@ -0,0 +1,67 @@
+// src/lib/research/repair.ts
+import { ZodError } from "zod";
+
+export type RepairAttempt = {
+  attempt: number;
+  errors: string[];
+};
+
+export type RepairResult<T> =
+  | { ok: true; value: T; attempts: RepairAttempt[] }
+  | { ok: false; error: string; attempts: RepairAttempt[] };
+
+/**
+ * Calls the model, validates, and on failure sends the validation errors back
+ * for a corrected object, up to `maxAttempts` calls in total.
+ * Never throws for validation problems; transport errors are recorded as attempts too.
+ */
+export async function generateWithRepair<T>(opts: {
+  prompt: string;
+  maxAttempts: number;
+  call: (input: string) => Promise<string>;
+  validate: (raw: string) => T;
+}): Promise<RepairResult<T>> {
+  const attempts: RepairAttempt[] = [];
+  let input = opts.prompt;
+
+  for (let attempt = 1; attempt <= Math.max(1, opts.maxAttempts); attempt++) {
+    let raw = "";
+    try {
+      raw = await opts.call(input);
+      const value = opts.validate(raw);
+      attempts.push({ attempt, errors: [] });
+      return { ok: true, value, attempts };
+    } catch (err) {
+      const errors = describeValidationError(err);
+      attempts.push({ attempt, errors });
+      input = buildRepairPrompt(opts.prompt, raw, errors);
+    }
+  }
+
+  const last = attempts[attempts.length - 1];
+  return { ok: false, error: last.errors.join("; "), attempts };
+}
+
+export function describeValidationError(err: unknown): string[] {
+  if (err instanceof ZodError) {
+    return err.issues.map((i) => `${i.path.length ? i.path.join(".") : "(root)"}: ${i.message}`);
+  }
+  return [err instanceof Error ? err.message : String(err)];
+}
+
+function buildRepairPrompt(original: string, previous: string, errors: string[]): string {
+  const prev = previous.length > 12_000 ? `${previous.slice(0, 12_000)}\n…(truncated)` : previous;
+
+  return `${original}
+
+---
+Your previous answer did not pass validation.
+
+Previous answer:
+${prev || "(empty)"}
+
+Validation errors:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Return the corrected JSON object only. Keep all content that was valid; fix only what the errors point at.`;
+}
@@ -1,5 +1,22 @@
 import { z } from "zod";
 
+export const SUMMARY_MAX_WORDS = 250;
+
+export function countWords(s: string): number {
+  return (s || "")
+    .trim()
+    .split(/\s+/g)
+    .filter(Boolean).length;
+}
+
+// vaste zin in recommendation.uncertainties als het model geen onzekerheden ziet
+export const NO_SIGNIFICANT_UNCERTAINTIES = {
+  en: "No significant uncertainties identified.",
+  nl: "Geen significante onzekerheden geïdentificeerd.",
+  de: "Keine wesentlichen Unsicherheiten festgestellt.",
+  fr: "Aucune incertitude significative identifiée.",
+} as const;
+
 export const SummaryBulletsSchema = z
   .array(z.string().max(120))
   .min(5)
@@ -7,20 +24,23 @@ export const SummaryBulletsSchema = z
 
 export const SummaryTextSchema = z
   .string()
-  .max(250 * 6); // ~250 woorden, defensief via chars
+  .describe(`At most ${SUMMARY_MAX_WORDS} words.`)
+  .refine((s) => countWords(s) <= SUMMARY_MAX_WORDS, (s) => ({
+    message: `must be at most ${SUMMARY_MAX_WORDS} words (got ${countWords(s)})`,
+  }));
 
 export const RecommendationSchema = z.object({
   choice: z.string().min(5),
-  why: z.array(z.string()).min(3).max(6),
+  why: z.array(z.string()).min(3).max(6).describe("Bullets; may include [n] citations."),
   conditions: z.array(z.string()).max(6),
   uncertainties: z.array(z.string()).min(1), // altijd tonen
 });
 
 export const ResearchSectionSchema = z.object({
-  title: z.string(),
-  intro: z.string().min(20),
-  content: z.string().min(200), // volledige inhoud
-  conclusion: z.string().min(40),
+  title: z.string().min(3),
+  intro: z.string().min(20).describe("2-3 sentences."),
+  content: z.string().min(200).describe("Full content with [n] citations throughout."), // volledige inhoud
+  conclusion: z.string().min(40).describe("2-5 sentences answering the research question of this section."),
 });
 
 export const SourceSchema = z.object({
@@ -32,12 +52,21 @@ export const SourceSchema = z.object({
   score: z.number().optional(),
 });
 
-export const ReportSchema = z.object({
+/**
+ * Het deel dat het model schrijft. De bronnenlijst vullen we zelf in vanuit de
+ * pipeline, zodat nummering en URL's niet kunnen afwijken.
+ */
+export const ReportContentSchema = z.object({
   summaryBullets: SummaryBulletsSchema,
   summaryText: SummaryTextSchema,
   recommendation: RecommendationSchema,
   research: z.array(ResearchSectionSchema).min(1),
-  sources: z.array(SourceSchema).min(1),
 });
 
+export const ReportSchema = ReportContentSchema.extend({
+  // leeg als de pipeline geen bronnen overhield (bijv. alle zoekopdrachten mislukt)
+  sources: z.array(SourceSchema),
+});
+
+export type ReportContent = z.infer<typeof ReportContentSchema>;
 export type Report = z.infer<typeof ReportSchema>;
@@ -0,0 +1,130 @@
+// src/lib/research/resilientSearch.test.ts
+import { describe, it, expect } from "vitest";
+import type { Source } from "@/types/research";
+import { runResearchPipeline } from "@/lib/research/pipeline";
+import { failedGateRules, gateRulesFor } from "@/lib/research/scoring";
+import { createUsageMeter, meterSearchProvider } from "@/lib/research/usage";
+import {
+  createResilientSearcher,
+  isRetryableSearchError,
+  mapWithConcurrency,
+} from "@/lib/research/resilientSearch";
+
+const ok: Source[] = [{ url: "https://a.com/x", title: "A", snippet: "", content: "", provider: "tavily" }];
+
+function flaky(errors: Error[]) {
+  let calls = 0;
+  return {
+    get calls() {
+      return calls;
+    },
+    searcher: async () => {
+      const err = errors[calls++];
+      if (err) throw err;
+      return ok;
+    },
+  };
+}
+
+describe("createResilientSearcher", () => {
+  it("retries retryable failures with exponential backoff", async () => {
+    const delays: number[] = [];
+    const s = flaky([new Error("Tavily error: 429 Too Many Requests"), new Error("Tavily error: 503 Unavailable")]);
+    const search = createResilientSearcher(s.searcher, {
+      retries: 2,
+      baseDelayMs: 100,
+      sleep: async (ms) => void delays.push(ms),
+      random: () => 1,
+    });
+
+    expect(await search("q")).toEqual(ok);
+    expect(s.calls).toBe(3);
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it("rethrows client errors at once and the last error when retries run out", async () => {
+    const noSleep = { sleep: async () => {} };
+    const bad = flaky([new Error("Tavily error: 400 Bad Request")]);
+    await expect(createResilientSearcher(bad.searcher, noSleep)("q")).rejects.toThrow("400");
+    expect(bad.calls).toBe(1);
+
+    const down = flaky([1, 2, 3].map((n) => new Error(`Brave error: 502 attempt ${n}`)));
+    await expect(createResilientSearcher(down.searcher, { ...noSleep, retries: 2 })("q")).rejects.toThrow("attempt 3");
+  });
+
+  it("times out a hanging attempt", async () => {
+    const hang = () => new Promise<Source[]>(() => {});
+    const err = await createResilientSearcher(hang, { timeoutMs: 5, retries: 0 })("q").catch((e) => e);
+    expect(err).toMatchObject({ name: "TimeoutError" });
+    expect(isRetryableSearchError(err)).toBe(true);
+    expect(isRetryableSearchError(Object.assign(new Error("quota"), { status: 401 }))).toBe(false);
+  });
+
+  it("aborts the request of a timed-out attempt before retrying", async () => {
+    const signals: AbortSignal[] = [];
+    const hang = (_q: string, options?: { signal?: AbortSignal }) => {
+      signals.push(options!.signal!);
+      expect(signals.slice(0, -1).every((s) => s.aborted)).toBe(true);
+      return new Promise<Source[]>(() => {});
+    };
+    const search = createResilientSearcher(hang, { timeoutMs: 5, retries: 1, sleep: async () => {} });
+
+    await expect(search("q")).rejects.toMatchObject({ name: "TimeoutError" });
+    expect(signals).toHaveLength(2);
+    expect(signals.every((s) => s.aborted)).toBe(true);
+  });
+
+  it("meters every attempt when the meter sits inside the retries", async () => {
+    const meter = createUsageMeter();
+    const s = flaky([new Error("Tavily error: 503 Unavailable")]);
+    const provider = meterSearchProvider({ id: "tavily", search: s.searcher }, meter);
+    const search = createResilientSearcher(provider.search, { sleep: async () => {} });
+
+    expect(await search("q")).toEqual(ok);
+    expect(meter.summary().totals.searchCalls).toBe(2);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps at most `limit` calls in flight and the input order", async () => {
+    let active = 0;
+    let peak = 0;
+    const out = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      peak = Math.max(peak, ++active);
+      await new Promise((r) => setTimeout(r, ms));
+      active--;
+      return i;
+    });
+    expect(out).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe("failed searches in the pipeline", () => {
+  it("continues past failing queries, records them and lowers coverage", async () => {
+    let n = 0;
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured", outputLanguage: "en" },
+      {
+        searcher: async () => {
+          n++;
+          if (n % 2 === 0) throw new Error("Tavily error: 503 Service Unavailable");
+          return [{ ...ok[0], url: `https://site${n}.com/a` }];
+        },
+        includeDebug: true,
+        budget: { maxIterations: 0 },
+      }
+    );
+
+    const seed = out.debug!.passes[0];
+    expect(seed.failed).toEqual([{ q: seed.queries[1].q, error: "Tavily error: 503 Service Unavailable" }]);
+    expect(seed.queries[1].error).toBe("Tavily error: 503 Service Unavailable");
+    expect(out.sources.length).toBeGreaterThan(0);
+
+    const { searchCoverage } = out.gateMetrics;
+    expect(searchCoverage).toBeGreaterThan(0.4);
+    expect(searchCoverage).toBeLessThan(0.6);
+    expect(failedGateRules(out.gateMetrics, gateRulesFor()).map((f) => f.rule)).toContain("minSearchCoverage");
+    expect(out.confidenceOverview.rationale).toMatch(/of the searches failed, so coverage is reduced\.$/);
+  });
+});
@@ -0,0 +1,104 @@
+// src/lib/research/resilientSearch.ts
+import type { TavilySearcher } from "@/lib/research/pipeline";
+import { RESEARCH_CONFIG } from "@/config/research";
+
+export type RetryOptions = {
+  // per attempt
+  timeoutMs: number;
+  // extra attempts after the first
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  sleep?: (ms: number) => Promise<void>;
+  // 0..1, for the jitter
+  random?: () => number;
+};
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * HTTP status of a failed search: `status` on SDK errors, otherwise the
+ * "<Provider> error: 429 ..." message our adapters throw.
+ */
+export function errorStatus(err: unknown): number | undefined {
+  if (err && typeof err === "object" && "status" in err && typeof err.status === "number") return err.status;
+  const m = /\berror: (\d{3})\b/i.exec(err instanceof Error ? err.message : String(err));
+  return m ? Number(m[1]) : undefined;
+}
+
+export function isRetryableSearchError(err: unknown): boolean {
+  const status = errorStatus(err);
+  if (status !== undefined) return RETRYABLE_STATUS.has(status);
+  // no status: timeouts and dropped connections are worth another try, bad input is not
+  if (!(err instanceof Error)) return false;
+  return err.name === "TimeoutError" || /fetch failed|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up/i.test(err.message);
+}
+
+// Rejects after `ms` and aborts `controller`, so the request itself stops too.
+function withTimeout<T>(promise: Promise<T>, ms: number, controller: AbortController): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new Error(`Search timed out after ${ms}ms`);
+      err.name = "TimeoutError";
+      controller.abort(err);
+      reject(err);
+    }, ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Wraps a searcher with a timeout per attempt and exponential backoff (with
+ * jitter) on retryable failures. Every attempt gets its own abort signal,
+ * aborted on timeout and before a retry, so at most one request per query is
+ * in flight. The last error is rethrown; the pipeline records it and carries
+ * on with the other queries.
+ */
+export function createResilientSearcher(
+  searcher: TavilySearcher,
+  opts: Partial<RetryOptions> = {}
+): TavilySearcher {
+  const { timeoutMs, retries, baseDelayMs, maxDelayMs } = { ...RESEARCH_CONFIG.search, ...opts };
+  const sleep = opts.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const random = opts.random ?? Math.random;
+
+  return async (query, options) => {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const abort = () => controller.abort(options?.signal?.reason);
+      options?.signal?.addEventListener("abort", abort, { once: true });
+      try {
+        return await withTimeout(searcher(query, { ...options, signal: controller.signal }), timeoutMs, controller);
+      } catch (err) {
+        controller.abort(err);
+        if (attempt >= retries || options?.signal?.aborted || !isRetryableSearchError(err)) throw err;
+        const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+        await sleep(Math.round(delay * (0.5 + random() / 2)));
+      } finally {
+        options?.signal?.removeEventListener("abort", abort);
+      }
+    }
+  };
+}
+
+/**
+ * Like `Promise.all(items.map(fn))` with at most `limit` calls in flight;
+ * results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
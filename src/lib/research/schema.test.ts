@@ -0,0 +1,49 @@
+// src/lib/research/schema.test.ts
+import { describe, it, expect } from "vitest";
+import { ResearchRequestSchema } from "@/lib/research/schema";
+
+const v2 = {
+  version: 2,
+  decision: "Choose between Postgres and DynamoDB",
+  context: "New order service for a mid-size webshop",
+  outputPurpose: "architecture review",
+  riskTolerance: "low",
+  timeHorizon: "quarter",
+};
+
+describe("ResearchRequestSchema", () => {
+  it("treats a request without version as the goal/decision form", () => {
+    const parsed = ResearchRequestSchema.parse({ goal: "Pick a DB", decision: "Postgres or DynamoDB", debug: true });
+    expect(parsed).toMatchObject({ version: 1, goal: "Pick a DB", decision: "Postgres or DynamoDB", debug: true });
+  });
+
+  it("validates version 2 against ResearchInputSchema plus the shared options", () => {
+    const parsed = ResearchRequestSchema.parse({ ...v2, providers: ["tavily"], constraints: { maxPerDomain: 2 } });
+    expect(parsed).toMatchObject({
+      version: 2,
+      context: v2.context,
+      riskTolerance: "low",
+      constraints: { maxPerDomain: 2 },
+    });
+  });
+
+  it("reports every invalid field with its path", () => {
+    const result = ResearchRequestSchema.safeParse({
+      ...v2,
+      decision: "short",
+      riskTolerance: "reckless",
+      outputLanguage: "xx",
+      domainPolicy: { deny: ["not a domain"] },
+    });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues.map((i) => i.path.join("."))).toEqual(
+      expect.arrayContaining(["decision", "riskTolerance", "outputLanguage", "domainPolicy.deny.0"])
+    );
+  });
+
+  it("rejects unknown versions and missing fields", () => {
+    expect(ResearchRequestSchema.safeParse({ ...v2, version: 3 }).error?.issues[0].path).toEqual(["version"]);
+    const missing = ResearchRequestSchema.safeParse({ goal: " " });
+    expect(missing.error?.issues.map((i) => i.path.join("."))).toEqual(["goal", "decision"]);
+  });
+});
@@ -14,3 +14,128 @@ export const ResearchInputSchema = z.object({
 export type ResearchInput = z.infer<typeof ResearchInputSchema>;
 export type RiskTolerance = z.infer<typeof RiskToleranceSchema>;
 export type TimeHorizon = z.infer<typeof TimeHorizonSchema>;
+
+// Domeinpatroon: "example.com" (incl. subdomeinen) of een suffix als ".gov"
+const DomainPatternSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^\.?[a-z0-9-]+(\.[a-z0-9-]+)*$/, "must be a domain like example.com or a suffix like .gov");
+
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a YYYY-MM-DD date");
+
+export const SourceTypeSchema = z.enum(["academic", "government", "news", "documentation", "blog", "forum"]);
+
+/**
+ * Bronbeperkingen per onderzoeksverzoek. Een losse string (oude vrije-tekstvorm)
+ * wordt als `notes` gelezen.
+ */
+export const ResearchConstraintsSchema = z.preprocess(
+  (value) => (typeof value === "string" ? { notes: value } : value),
+  z
+    .object({
+      notes: z.string().trim().max(1000).optional(),
+      includeDomains: z.array(DomainPatternSchema).min(1).max(20).optional(),
+      excludeDomains: z.array(DomainPatternSchema).max(50).optional(),
+      dateRange: z
+        .object({ from: IsoDateSchema.optional(), to: IsoDateSchema.optional() })
+        .strict()
+        .refine((r) => !r.from || !r.to || r.from <= r.to, { message: "from must not be after to" })
+        .optional(),
+      // ISO 639-1; herkend worden en, nl, de, fr en es
+      languages: z
+        .array(z.string().trim().toLowerCase().regex(/^[a-z]{2}$/, "must be a two-letter language code"))
+        .min(1)
+        .optional(),
+      maxPerDomain: z.number().int().min(1).max(50).optional(),
+      sourceTypes: z.array(SourceTypeSchema).min(1).optional(),
+    })
+    .strict()
+);
+
+export type SourceType = z.infer<typeof SourceTypeSchema>;
+export type ResearchConstraints = z.infer<typeof ResearchConstraintsSchema>;
+
+export const DomainPolicyOverridesSchema = z
+  .object({
+    allow: z.array(DomainPatternSchema).optional(),
+    deny: z.array(DomainPatternSchema).optional(),
+    boost: z.array(DomainPatternSchema).optional(),
+    penalize: z.array(DomainPatternSchema).optional(),
+  })
+  .strict();
+
+// Talen waarin rapport en vaste teksten geschreven kunnen worden (zie lib/research/i18n)
+export const OutputLanguageSchema = z.enum(["nl", "en", "de", "fr"]);
+
+export type OutputLanguage = z.infer<typeof OutputLanguageSchema>;
+
+// "structured" = alleen de JSON-response; de andere formaten komen er als `output` bij
+export const OutputFormatSchema = z.enum(["structured", "markdown", "html", "json", "docx", "brief"]);
+
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
+/**
+ * Budget per verzoek. Een bereikte limiet geeft een afgeslankt resultaat
+ * (minder zoekcalls, fallback-rapport), geen fout.
+ */
+export const UsageLimitsSchema = z
+  .object({
+    // betaalde zoekcalls; een query naar twee providers telt twee keer
+    maxQueries: z.number().int().min(1).max(200).optional(),
+    // input- plus outputtokens over alle modelcalls
+    maxTokens: z.number().int().min(1000).optional(),
+    maxCostUsd: z.number().positive().optional(),
+    maxWallTimeMs: z.number().int().min(1000).max(600_000).optional(),
+  })
+  .strict();
+
+export type UsageLimits = z.infer<typeof UsageLimitsSchema>;
+
+// Opties die elke versie van het verzoek deelt
+const RequestOptionsSchema = z.object({
+  outputLanguage: OutputLanguageSchema.optional(),
+  outputFormat: OutputFormatSchema.optional(),
+  constraints: ResearchConstraintsSchema.optional(),
+  // ids worden in de route tegen de provider-registry gecontroleerd
+  providers: z.array(z.string()).min(1).optional(),
+  domainPolicy: DomainPolicyOverridesSchema.optional(),
+  limits: UsageLimitsSchema.optional(),
+  debug: z.boolean().optional(),
+  stream: z.boolean().optional(),
+});
+
+/**
+ * Versie 1: de oorspronkelijke vorm met goal + decision. riskTolerance,
+ * timeHorizon en outputPurpose zijn optioneel.
+ */
+export const ResearchRequestV1Schema = RequestOptionsSchema.extend({
+  version: z.literal(1),
+  goal: z.string().trim().min(1),
+  decision: z.string().trim().min(1),
+  outputPurpose: z.string().trim().min(3).optional(),
+  riskTolerance: RiskToleranceSchema.optional(),
+  timeHorizon: TimeHorizonSchema.optional(),
+});
+
+/**
+ * Versie 2: ResearchInputSchema als contract; `context` vervangt goal.
+ */
+export const ResearchRequestV2Schema = ResearchInputSchema.merge(RequestOptionsSchema).extend({
+  version: z.literal(2),
+});
+
+export const RESEARCH_REQUEST_VERSIONS = [1, 2] as const;
+
+/**
+ * Een verzoek zonder `version` is versie 1.
+ */
+export const ResearchRequestSchema = z.preprocess(
+  (value) =>
+    value && typeof value === "object" && !Array.isArray(value) && !("version" in value)
+      ? { ...value, version: 1 }
+      : value,
+  z.discriminatedUnion("version", [ResearchRequestV1Schema, ResearchRequestV2Schema])
+);
+
+export type ResearchRequestBody = z.infer<typeof ResearchRequestSchema>;
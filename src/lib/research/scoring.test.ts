@@ -0,0 +1,27 @@
+// src/lib/research/scoring.test.ts
+import { describe, it, expect } from "vitest";
+import { GATE_RULES, gateRulesFor } from "@/lib/research/scoring";
+
+describe("gateRulesFor", () => {
+  it("keeps the default rules for medium risk tolerance", () => {
+    expect(gateRulesFor({ riskTolerance: "medium" })).toEqual(GATE_RULES);
+    expect(gateRulesFor()).toEqual(GATE_RULES);
+  });
+
+  it("tightens thresholds for low and relaxes them for high risk tolerance", () => {
+    const strict = gateRulesFor({ riskTolerance: "low", timeHorizon: "now" });
+    expect(strict.minSources).toBe(15);
+    expect(strict.minUniqueDomains).toBe(8);
+    expect(strict.minRecentSources).toBe(4);
+    expect(strict.minAvgScore).toBeCloseTo(0.5625);
+    expect(strict.maxLowInfoRatio).toBeCloseTo(0.4);
+    expect(strict.minCorroboratedClaims).toBe(2);
+
+    const lenient = gateRulesFor({ riskTolerance: "high" });
+    expect(lenient.minSources).toBe(10);
+    expect(lenient.minTopSourceScore).toBeCloseTo(0.52);
+    expect(lenient.maxLowTrustRatio).toBeCloseTo(0.625);
+    expect(lenient.minRecentSources).toBe(0);
+    expect(lenient.minCorroboratedClaims).toBe(0);
+  });
+});
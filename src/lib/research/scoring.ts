@@ -1,21 +1,100 @@
-import type { Source, GateMetrics } from "@/types/research";
+import type { Source, GateMetrics, RiskTolerance, TimeHorizon } from "@/types/research";
+import { RESEARCH_CONFIG } from "@/config/research";
+import { evaluateDomain, type DomainPolicy } from "@/lib/research/domainPolicy";
+import { buildCorroborationTable, type CorroborationTable } from "@/lib/research/corroboration";
+import { findContradictions, unresolvedConflicts, type Conflict } from "@/lib/research/contradictions";
+import { canonicalHost } from "@/lib/research/dedupe";
+import { DEFAULT_TIME_HORIZON, freshnessScore, summarizeRecency } from "@/lib/research/recency";
+
+export type GateRuleId =
+  | "minSources"
+  | "minUniqueDomains"
+  | "minAvgScore"
+  | "minTopSourceScore"
+  | "minTop3AvgScore"
+  | "maxLowInfoRatio"
+  | "maxLowTrustRatio"
+  | "minRecentSources"
+  | "minCorroboratedClaims"
+  | "minSearchCoverage";
+
+export type GateRuleFailure = { rule: GateRuleId; actual: number; required: number };
+
+// Gate rules (v1)
+export const GATE_RULES: Record<GateRuleId, number> = {
+  minSources: 12,
+  minUniqueDomains: 6,
+  minAvgScore: 0.45,
+  minTopSourceScore: 0.65,
+  minTop3AvgScore: 0.55,
+  maxLowInfoRatio: 0.5,
+  maxLowTrustRatio: 0.5,
+  // off by default; see gateRulesFor
+  minRecentSources: 0,
+  minCorroboratedClaims: 0,
+  minSearchCoverage: 0.75,
+};
+
+/**
+ * Gate rules for a run: a `now` horizon also needs enough recent sources, low
+ * risk tolerance also needs corroborated claims, and risk tolerance scales the
+ * other thresholds (low = stricter, high = more lenient).
+ */
+export function gateRulesFor(
+  opts: { timeHorizon?: TimeHorizon; riskTolerance?: RiskTolerance } = {}
+): Record<GateRuleId, number> {
+  const base: Record<GateRuleId, number> =
+    opts.timeHorizon === "now"
+      ? { ...GATE_RULES, minRecentSources: RESEARCH_CONFIG.recency.minRecentSources }
+      : GATE_RULES;
+  const factor = RESEARCH_CONFIG.risk.gateFactor[opts.riskTolerance ?? "medium"];
+  if (factor === 1) return base;
+
+  const rules = { ...base };
+  for (const id of Object.keys(rules) as GateRuleId[]) {
+    const value = base[id];
+    if (id === "minCorroboratedClaims") {
+      rules[id] = opts.riskTolerance === "low" ? RESEARCH_CONFIG.corroboration.minCorroboratedClaims : value;
+    } else if (id === "minSources" || id === "minUniqueDomains" || id === "minRecentSources") {
+      rules[id] = Math.ceil(value * factor);
+    } else if (id.startsWith("min")) {
+      rules[id] = Math.min(1, value * factor);
+    } else {
+      // max ratios: stricter means a lower ceiling
+      rules[id] = Math.min(1, value / factor);
+    }
+  }
+  return rules;
+}
+
+export type ScoringOptions = {
+  policy?: DomainPolicy;
+  timeHorizon?: TimeHorizon;
+  rules?: Record<GateRuleId, number>;
+  now?: number;
+  // share of the run's searches that did not fail (default 1)
+  searchCoverage?: number;
+};
 
-type GateResult = {
+export type GateResult = {
   passed: boolean;
   metrics: GateMetrics;
   scored: Source[];
+  corroboration: CorroborationTable;
+  // source numbers refer to positions in `scored`
+  conflicts: Conflict[];
 };
 
 function clamp(n: number, min = 0, max = 1) {
   return Math.max(min, Math.min(max, n));
 }
 
+// mirror hosts (www, m, amp) count as their canonical host, as in dedupe
 function uniqueDomains(urls: string[]) {
   const domains = new Set<string>();
   for (const u of urls) {
     try {
-      const d = new URL(u).hostname.replace(/^www\./, "");
-      domains.add(d);
+      domains.add(canonicalHost(new URL(u).hostname));
     } catch {
       // ignore invalid URLs
     }
@@ -23,12 +102,24 @@ function uniqueDomains(urls: string[]) {
   return domains.size;
 }
 
+// “low info” heuristic: too-short content or snippet
+export function isLowInfo(source: Source): boolean {
+  const contentLen = (source.content ?? "").trim().length;
+  const snippetLen = (source.snippet ?? "").trim().length;
+  return contentLen < 400 || snippetLen < 80;
+}
+
 /**
  * Very simple scoring heuristic:
  * - snippet presence matters (quick relevance signal)
  * - content length matters (but can be noisy → capped)
+ * - freshness counts for dated sources only (undated ones are not penalized)
  */
-function scoreOne(source: Source): { score: number; breakdown: Record<string, number> } {
+function scoreOne(
+  source: Source,
+  horizon: TimeHorizon,
+  now: number
+): { score: number; breakdown: Record<string, number> } {
   const snippetLen = (source.snippet ?? "").trim().length;
   const contentLen = (source.content ?? "").trim().length;
 
@@ -38,25 +129,39 @@ function scoreOne(source: Source): { score: number; breakdown: Record<string, nu
   // content quality: 0..1 (cap at 2500 chars; avoid “infinite long” bias)
   const contentScore = clamp(contentLen / 2500);
 
+  const freshness = freshnessScore(source.publishedDate, horizon, now);
+
   // weighted score
-  const score = 0.45 * snippetScore + 0.55 * contentScore;
+  if (freshness === undefined) {
+    return {
+      score: 0.45 * snippetScore + 0.55 * contentScore,
+      breakdown: { snippet: snippetScore, content: contentScore },
+    };
+  }
 
   return {
-    score,
-    breakdown: {
-      snippet: snippetScore,
-      content: contentScore,
-    },
+    score: 0.4 * snippetScore + 0.45 * contentScore + 0.15 * freshness,
+    breakdown: { snippet: snippetScore, content: contentScore, freshness },
   };
 }
 
-export function scoreSourcesAndGate(sources: Source[]): GateResult {
+/**
+ * With a domain policy, boost/penalize rules shift each score (breakdown.trust)
+ * and the share of penalized sources becomes `lowTrustRatio`.
+ */
+export function scoreSourcesAndGate(sources: Source[], opts: ScoringOptions = {}): GateResult {
+  const { policy, timeHorizon = DEFAULT_TIME_HORIZON, now = Date.now() } = opts;
+  let lowTrustCount = 0;
   const scored: Source[] = sources.map((s) => {
-    const { score, breakdown } = scoreOne(s);
+    const { score, breakdown } = scoreOne(s, timeHorizon, now);
+    if (!policy) return { ...s, score, scoreBreakdown: breakdown };
+
+    const trust = evaluateDomain(policy, s.url).adjustment;
+    if (trust < 0) lowTrustCount++;
     return {
       ...s,
-      score,
-      scoreBreakdown: breakdown,
+      score: clamp(score + trust),
+      scoreBreakdown: { ...breakdown, trust },
     };
   });
 
@@ -79,15 +184,13 @@ export function scoreSourcesAndGate(sources: Source[]): GateResult {
       ? 0
       : top3.reduce((sum, s) => sum + (typeof s.score === "number" ? s.score : 0), 0) / top3.length;
 
-  // “low info” heuristic: too-short content or snippet
-  const lowInfoCount = scored.filter((s) => {
-    const contentLen = (s.content ?? "").trim().length;
-    const snippetLen = (s.snippet ?? "").trim().length;
-    return contentLen < 400 || snippetLen < 80;
-  }).length;
+  const lowInfoCount = scored.filter(isLowInfo).length;
 
   const lowInfoRatio = sourceCount === 0 ? 1 : lowInfoCount / sourceCount;
 
+  const corroboration = buildCorroborationTable(scored);
+  const conflicts = findContradictions(corroboration, scored);
+
   const metrics: GateMetrics = {
     sources: sourceCount,
     uniqueDomains: domainCount,
@@ -95,16 +198,57 @@ export function scoreSourcesAndGate(sources: Source[]): GateResult {
     topSourceScore,
     top3AvgScore,
     lowInfoRatio,
+    lowTrustRatio: sourceCount === 0 ? 0 : lowTrustCount / sourceCount,
+    recentSources: summarizeRecency(scored, timeHorizon, now).recent,
+    corroboratedClaims: corroboration.corroborated,
+    unresolvedConflicts: unresolvedConflicts(conflicts).length,
+    searchCoverage: opts.searchCoverage ?? 1,
   };
 
-  // Gate rules (v1)
-  const passed =
-    metrics.sources >= 12 &&
-    metrics.uniqueDomains >= 6 &&
-    metrics.avgScore >= 0.45 &&
-    metrics.topSourceScore >= 0.65 &&
-    metrics.top3AvgScore >= 0.55 &&
-    metrics.lowInfoRatio <= 0.5;
+  const passed = failedGateRules(metrics, opts.rules ?? gateRulesFor({ timeHorizon: opts.timeHorizon })).length === 0;
+
+  return { passed, metrics, scored, corroboration, conflicts };
+}
+
+/**
+ * The rules a set of metrics does not meet; empty means the gate passes.
+ */
+export function failedGateRules(metrics: GateMetrics, rules: Record<GateRuleId, number> = GATE_RULES): GateRuleFailure[] {
+  const checks: Array<[GateRuleId, number, boolean]> = [
+    ["minSources", metrics.sources, metrics.sources >= rules.minSources],
+    ["minUniqueDomains", metrics.uniqueDomains, metrics.uniqueDomains >= rules.minUniqueDomains],
+    ["minAvgScore", metrics.avgScore, metrics.avgScore >= rules.minAvgScore],
+    ["minTopSourceScore", metrics.topSourceScore, metrics.topSourceScore >= rules.minTopSourceScore],
+    ["minTop3AvgScore", metrics.top3AvgScore, metrics.top3AvgScore >= rules.minTop3AvgScore],
+    ["maxLowInfoRatio", metrics.lowInfoRatio, metrics.lowInfoRatio <= rules.maxLowInfoRatio],
+    ["maxLowTrustRatio", metrics.lowTrustRatio, metrics.lowTrustRatio <= rules.maxLowTrustRatio],
+    ["minRecentSources", metrics.recentSources, metrics.recentSources >= rules.minRecentSources],
+    ["minCorroboratedClaims", metrics.corroboratedClaims, metrics.corroboratedClaims >= rules.minCorroboratedClaims],
+    ["minSearchCoverage", metrics.searchCoverage, metrics.searchCoverage >= rules.minSearchCoverage],
+  ];
+
+  return checks.filter(([, , ok]) => !ok).map(([rule, actual]) => ({ rule, actual, required: rules[rule] }));
+}
+
+/**
+ * Maps gate metrics to a 0..1 confidence.
+ * Passing runs land in 0.6..1, failing runs in 0..0.4, so the number never
+ * contradicts the gate decision. Unresolved conflicts and failed searches lower
+ * it within that band.
+ */
+export function confidenceFromMetrics(metrics: GateMetrics, passed: boolean): number {
+  if (metrics.sources === 0) return 0;
+
+  const quality =
+    0.35 * metrics.top3AvgScore +
+    0.25 * metrics.avgScore +
+    0.2 * clamp(metrics.uniqueDomains / 6) +
+    0.2 * (1 - clamp(metrics.lowInfoRatio));
+
+  const { confidencePenalty, maxConfidencePenalty } = RESEARCH_CONFIG.contradictions;
+  const penalty = Math.min(maxConfidencePenalty, confidencePenalty * metrics.unresolvedConflicts);
+  const adjusted = clamp(quality * metrics.searchCoverage - penalty);
 
-  return { passed, metrics, scored };
+  const overall = passed ? 0.6 + 0.4 * adjusted : 0.4 * adjusted;
+  return Math.round(clamp(overall) * 100) / 100;
 }
@@ -1,4 +1,12 @@
-import type { ResearchBucket, ResearchInput } from "@/types/research";
+import type { ResearchBucket } from "@/types/research";
+
+/**
+ * - low-info-only: alleen bronnen zonder inhoudelijke onderbouwing
+ * - single-organization: minder dan 2 onafhankelijke organisaties
+ * - uncorroborated: geen enkele claim door 2 onafhankelijke organisaties bevestigd
+ * - no-figures: geen enkele informatieve bron noemt een meetbaar cijfer
+ */
+export type DisconfirmationCheck = "low-info-only" | "single-organization" | "uncorroborated" | "no-figures";
 
 export type SubQuestion = {
   bucket: ResearchBucket;
@@ -6,9 +14,16 @@ export type SubQuestion = {
   researchObjective: string;
   allowedOutcomes: Array<"positive" | "negative" | "inconclusive">;
   disconfirmationRule: string;
+  // deterministische toets van disconfirmationRule; zie isDisconfirmed in plan.ts
+  disconfirmWhen: DisconfirmationCheck;
+  // Engelse zoektermen waarmee de planner gerichte queries bouwt (research language = EN)
+  searchTerms: string;
 };
 
-export function generateSubQuestions(_input: ResearchInput): SubQuestion[] {
+/**
+ * Vaste set subvragen; de beslissing zelf komt pas in de queries (zie buildResearchPlan in plan.ts).
+ */
+export function generateSubQuestions(): SubQuestion[] {
   const out: SubQuestion[] = [
     // DecisionCriteria (2)
     {
@@ -19,6 +34,8 @@ export function generateSubQuestions(_input: ResearchInput): SubQuestion[] {
       allowedOutcomes: ["positive", "negative", "inconclusive"],
       disconfirmationRule:
         "Markeer als inconclusive als criteria alleen subjectief of zonder herleidbare bron worden genoemd.",
+      disconfirmWhen: "low-info-only",
+      searchTerms: "decision criteria evaluation factors requirements",
     },
     {
       bucket: "DecisionCriteria",
@@ -29,6 +46,8 @@ export function generateSubQuestions(_input: ResearchInput): SubQuestion[] {
       allowedOutcomes: ["positive", "negative", "inconclusive"],
       disconfirmationRule:
         "Neem geen trade-offs op zonder primaire bron of onafhankelijke bevestiging.",
+      disconfirmWhen: "single-organization",
+      searchTerms: "trade-offs between cost quality speed reliability",
     },
 
     // OptionsLandscape (2)
@@ -41,6 +60,8 @@ export function generateSubQuestions(_input: ResearchInput): SubQuestion[] {
       allowedOutcomes: ["positive", "negative", "inconclusive"],
       disconfirmationRule:
         "Sluit opties uit die alleen op marketingclaims berusten zonder onafhankelijke bron.",
+      disconfirmWhen: "single-organization",
+      searchTerms: "alternatives options categories overview",
     },
     {
       bucket: "OptionsLandscape",
@@ -51,6 +72,8 @@ export function generateSubQuestions(_input: ResearchInput): SubQuestion[] {
       allowedOutcomes: ["positive", "negative", "inconclusive"],
       disconfirmationRule:
         "Als 'ongeschikt' niet wordt onderbouwd met concrete beperking/case: markeer als inconclusive.",
+      disconfirmWhen: "low-info-only",
+      searchTerms: "when not to use limitations unsuitable constraints",
     },
 
     // EvidenceBenchmarks (2)
@@ -63,6 +86,8 @@ export function generateSubQuestions(_input: ResearchInput): SubQuestion[] {
       allowedOutcomes: ["positive", "negative", "inconclusive"],
       disconfirmationRule:
         "Cijfers zonder herleidbare bron niet gebruiken; bij twijfel labelen als inconclusive en niet in conclusies opnemen.",
+      disconfirmWhen: "no-figures",
+      searchTerms: "benchmarks pricing limits performance numbers",
     },
     {
       bucket: "EvidenceBenchmarks",
@@ -73,6 +98,8 @@ export function generateSubQuestions(_input: ResearchInput): SubQuestion[] {
       allowedOutcomes: ["positive", "negative", "inconclusive"],
       disconfirmationRule:
         "Minder dan 2 onafhankelijke bronnen = claim niet als bevestigd opnemen (hoogstens 'unverified').",
+      disconfirmWhen: "uncorroborated",
+      searchTerms: "independent confirmation multiple sources",
     },
 
     // RisksEdgeCases (min 1)
@@ -85,6 +112,8 @@ export function generateSubQuestions(_input: ResearchInput): SubQuestion[] {
       allowedOutcomes: ["positive", "negative", "inconclusive"],
       disconfirmationRule:
         "Risico’s zonder bron of alleen hypothetisch niet opnemen; markeer als inconclusive.",
+      disconfirmWhen: "low-info-only",
+      searchTerms: "risks lock-in compliance operational pitfalls",
     },
   ];
 
@@ -0,0 +1,163 @@
+// src/lib/research/usage.test.ts
+import { describe, it, expect } from "vitest";
+import type { LlmClient } from "@/lib/research/llm";
+import type { SearchProvider } from "@/lib/research/providers/types";
+import { createFakeLlmClient } from "@/lib/research/llm/fake";
+import { ResearchRequestSchema } from "@/lib/research/schema";
+import { runResearchPipeline } from "@/lib/research/pipeline";
+import { messages } from "@/lib/research/i18n";
+import {
+  createUsageMeter,
+  isUsageLimitError,
+  meterLlmClient,
+  meterSearchProvider,
+  modelPrice,
+  withUsageLimitNote,
+  type LimitHit,
+} from "@/lib/research/usage";
+import { createFanOutSearcher } from "@/lib/research/providers/registry";
+import { NO_SIGNIFICANT_UNCERTAINTIES, type ReportContent } from "@/lib/research/report.Schema";
+
+function provider(id: SearchProvider["id"]): SearchProvider & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    id,
+    calls,
+    async search(query) {
+      calls.push(query);
+      return [{ url: `https://${id}.com/${calls.length}`, title: query, snippet: "", content: "", provider: id }];
+    },
+  };
+}
+
+describe("usage meter", () => {
+  it("accounts search calls and tokens per stage with estimated cost", async () => {
+    const meter = createUsageMeter();
+    const tavily = meterSearchProvider(provider("tavily"), meter);
+    await tavily.search("a");
+    await tavily.search("b");
+
+    // reports real usage for the report task only
+    const backend: LlmClient = {
+      backend: "openai",
+      async complete(req) {
+        if (req.task === "report") req.onUsage?.({ model: "gpt-4.1-mini", inputTokens: 1000, outputTokens: 500 });
+        return "ok";
+      },
+    };
+    const llm = meterLlmClient(backend, meter);
+    await llm.complete({ task: "report", input: "prompt" });
+    await llm.complete({ task: "translate", input: "x".repeat(40) });
+
+    const usage = meter.summary();
+    expect(usage.stages.search).toMatchObject({ calls: 2, skipped: 0, costUsd: 0.032 });
+    expect(usage.stages.report).toMatchObject({ calls: 1, inputTokens: 1000, outputTokens: 500, costUsd: 0.0012 });
+    expect(usage.stages.report?.estimated).toBeUndefined();
+    expect(usage.stages.translate).toMatchObject({ calls: 1, inputTokens: 10, outputTokens: 1, estimated: true });
+    expect(usage.totals).toEqual({
+      searchCalls: 2,
+      llmCalls: 2,
+      inputTokens: 1010,
+      outputTokens: 501,
+      costUsd: 0.0332,
+    });
+    expect(usage.limitHit).toBeUndefined();
+  });
+
+  it("skips calls once a limit is reached and reports the first limit hit", async () => {
+    const hits: LimitHit[] = [];
+    const meter = createUsageMeter({ maxQueries: 2, maxTokens: 1000 }, { onLimit: (hit) => hits.push(hit) });
+    const raw = provider("tavily");
+    const tavily = meterSearchProvider(raw, meter);
+    const results = [await tavily.search("a"), await tavily.search("b")];
+    expect(results.map((r) => r.length)).toEqual([1, 1]);
+    const blocked = await tavily.search("c").catch((err: unknown) => err);
+    expect(isUsageLimitError(blocked) && blocked.limit).toBe("maxQueries");
+    expect(raw.calls).toEqual(["a", "b"]);
+
+    const fake = createFakeLlmClient(() => "answer");
+    const llm = meterLlmClient(fake, meter);
+    expect(await llm.complete({ task: "translate", input: "short" })).toBe("answer");
+    // the estimated prompt alone would cross maxTokens
+    expect(await llm.complete({ task: "report", input: "x".repeat(8000) })).toBe("");
+    expect(fake.calls).toHaveLength(1);
+
+    const usage = meter.summary();
+    expect(usage.stages.search?.skipped).toBe(1);
+    expect(usage.stages.report).toMatchObject({ calls: 0, skipped: 1 });
+    expect(usage.limitHit).toMatchObject({ limit: "maxQueries", stage: "search" });
+    expect(hits).toHaveLength(1);
+  });
+
+  it("prices estimated usage with the task's model, matching dated model ids by prefix", async () => {
+    const meter = createUsageMeter();
+    const backend: LlmClient = {
+      backend: "openai-compatible",
+      modelFor: () => "gpt-4.1-2025-04-14",
+      complete: async () => "",
+    };
+    await meterLlmClient(backend, meter).complete({ task: "report", input: "x".repeat(4000) });
+
+    // 1000 estimated input tokens at the gpt-4.1 price of $2 per million
+    expect(meter.summary().stages.report).toMatchObject({ inputTokens: 1000, costUsd: 0.002, estimated: true });
+    expect(modelPrice("gpt-4.1-mini-2025-04-14")).toEqual({ input: 0.4, output: 1.6 });
+    expect(modelPrice("llama3.1")).toBeUndefined();
+  });
+
+  it("stops everything after the wall time", async () => {
+    let t = 0;
+    const meter = createUsageMeter({ maxWallTimeMs: 1000 }, { now: () => t });
+    expect(meter.exceeded("search")).toBeUndefined();
+    t = 1000;
+    expect(meter.exceeded("search")).toBe("maxWallTimeMs");
+    expect(meter.exceeded("decision")).toBe("maxWallTimeMs");
+  });
+});
+
+describe("usage limits in the pipeline", () => {
+  it("ends the follow-up loop with usage-budget and keeps the evidence found so far", async () => {
+    const meter = createUsageMeter({ maxCostUsd: 0.05 });
+    const tavily = meterSearchProvider(provider("tavily"), meter);
+    const out = await runResearchPipeline(
+      { goal: "Test", decision: "Pick option A vs B", outputFormat: "structured" },
+      { searcher: tavily.search, includeDebug: true, meter }
+    );
+
+    expect(out.debug?.loop?.stopReason).toBe("usage-budget");
+    expect(out.decisionStatus).toBe("INSUFFICIENT_EVIDENCE");
+    expect(out.sources.length).toBeGreaterThan(0);
+
+    // blocked searches are reported as such, not as failures or empty results
+    const skipped = out.debug!.passes.flatMap((p) => p.skipped ?? []);
+    expect(skipped.length).toBeGreaterThan(0);
+    expect(out.debug!.passes.flatMap((p) => p.failed ?? [])).toEqual([]);
+    expect(out.gateMetrics.searchCoverage).toBe(1);
+    expect(out.usageLimited).toEqual({ limit: "maxCostUsd", skippedSearches: skipped.length });
+    expect(out.confidenceOverview.rationale).toContain(messages("nl").usageLimited(skipped.length));
+    expect(meter.summary()).toMatchObject({ limitHit: { limit: "maxCostUsd", stage: "search" } });
+  });
+
+  it("keeps a usage-limit failure typed through the fan-out and notes it in the report", async () => {
+    const meter = createUsageMeter({ maxQueries: 1 });
+    const providers = [provider("tavily"), provider("brave")].map((p) => meterSearchProvider(p, meter));
+    const search = createFanOutSearcher(providers);
+    await search("a");
+    const blocked = await search("b").catch((err: unknown) => err);
+    expect(isUsageLimitError(blocked)).toBe(true);
+
+    const report = {
+      recommendation: { choice: "A", why: [], conditions: [], uncertainties: [NO_SIGNIFICANT_UNCERTAINTIES.en] },
+    } as unknown as ReportContent;
+    expect(withUsageLimitNote(report, 0, "en")).toBe(report);
+    const noted = withUsageLimitNote(report, 1, "en");
+    expect(noted.recommendation.uncertainties).toEqual([messages("en").usageLimited(1)]);
+    expect(withUsageLimitNote(noted, 1, "en")).toBe(noted);
+  });
+
+  it("accepts per-request limits", () => {
+    const base = { goal: "g", decision: "d" };
+    expect(ResearchRequestSchema.safeParse({ ...base, limits: { maxQueries: 5, maxCostUsd: 0.1 } }).success).toBe(true);
+    expect(ResearchRequestSchema.safeParse({ ...base, limits: { maxDollars: 1 } }).success).toBe(false);
+    expect(ResearchRequestSchema.safeParse({ ...base, limits: { maxTokens: 10 } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+// src/lib/research/usage.ts
+import type { OutputLanguage, UsageLimits } from "@/types/research";
+import type { LlmClient, LlmTask, LlmUsage } from "@/lib/research/llm";
+import type { SearchProvider } from "@/lib/research/providers/types";
+import { RESEARCH_CONFIG } from "@/config/research";
+import { NO_SIGNIFICANT_UNCERTAINTIES, type ReportContent } from "@/lib/research/report.Schema";
+import { messages } from "@/lib/research/i18n";
+
+// Paid search calls, then one stage per model task.
+export type UsageStage = "search" | LlmTask;
+
+export type UsageLimit = keyof UsageLimits;
+
+export type StageUsage = {
+  calls: number;
+  // calls not made because a limit was reached
+  skipped: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // some token counts are estimated from text length (backend reported none)
+  estimated?: boolean;
+};
+
+export type LimitHit = { limit: UsageLimit; stage: UsageStage; elapsedMs: number };
+
+// Thrown by a metered search instead of calling out, so a blocked search is not mistaken for "no results".
+export type UsageLimitError = Error & { name: "UsageLimitError"; limit: UsageLimit };
+
+export function usageLimitError(limit: UsageLimit): UsageLimitError {
+  const err = new Error(`Usage limit reached: ${limit}`) as UsageLimitError;
+  err.name = "UsageLimitError";
+  err.limit = limit;
+  return err;
+}
+
+export function isUsageLimitError(err: unknown): err is UsageLimitError {
+  return err instanceof Error && err.name === "UsageLimitError";
+}
+
+export type UsageSummary = {
+  stages: Partial<Record<UsageStage, StageUsage>>;
+  totals: { searchCalls: number; llmCalls: number; inputTokens: number; outputTokens: number; costUsd: number };
+  limits: UsageLimits;
+  // the first limit reached; every later call it blocked is counted as skipped
+  limitHit?: LimitHit;
+  elapsedMs: number;
+};
+
+/**
+ * Accounting for one research request. Limits are checked before each call,
+ * so the call that crosses a limit still completes and only later ones are
+ * skipped.
+ */
+export type UsageMeter = {
+  limits: UsageLimits;
+  // the limit that blocks another call of this stage, if any
+  exceeded: (stage: UsageStage, estimatedInputTokens?: number) => UsageLimit | undefined;
+  recordSearch: (provider: string) => void;
+  recordLlm: (task: LlmTask, usage: LlmUsage, estimated?: boolean) => void;
+  skip: (stage: UsageStage, limit: UsageLimit) => void;
+  summary: () => UsageSummary;
+};
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / RESEARCH_CONFIG.usage.charsPerToken);
+}
+
+/**
+ * Price of the longest configured model id the model starts with, so dated
+ * ids like "gpt-4.1-mini-2025-04-14" use the "gpt-4.1-mini" price.
+ */
+export function modelPrice(model: string): { input: number; output: number } | undefined {
+  const prices = RESEARCH_CONFIG.usage.pricing.models;
+  const key = Object.keys(prices)
+    .filter((id) => model.startsWith(id))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+}
+
+function llmCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = modelPrice(model);
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export function createUsageMeter(
+  limits: UsageLimits = {},
+  opts: { now?: () => number; onLimit?: (hit: LimitHit) => void } = {}
+): UsageMeter {
+  const now = opts.now ?? Date.now;
+  const startedAt = now();
+  const stages: Partial<Record<UsageStage, StageUsage>> = {};
+  let limitHit: LimitHit | undefined;
+
+  const stage = (id: UsageStage): StageUsage =>
+    (stages[id] ??= { calls: 0, skipped: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+  const totals = () => {
+    const all = Object.entries(stages) as Array<[UsageStage, StageUsage]>;
+    const sum = (pick: (s: StageUsage) => number) => all.reduce((n, [, s]) => n + pick(s), 0);
+    return {
+      searchCalls: stages.search?.calls ?? 0,
+      llmCalls: sum((s) => s.calls) - (stages.search?.calls ?? 0),
+      inputTokens: sum((s) => s.inputTokens),
+      outputTokens: sum((s) => s.outputTokens),
+      costUsd: round6(sum((s) => s.costUsd)),
+    };
+  };
+
+  return {
+    limits,
+
+    exceeded(id, estimatedInputTokens = 0) {
+      const t = totals();
+      if (limits.maxWallTimeMs !== undefined && now() - startedAt >= limits.maxWallTimeMs) return "maxWallTimeMs";
+      if (limits.maxCostUsd !== undefined && t.costUsd >= limits.maxCostUsd) return "maxCostUsd";
+      if (id === "search") {
+        if (limits.maxQueries !== undefined && t.searchCalls >= limits.maxQueries) return "maxQueries";
+        return undefined;
+      }
+      const tokens = t.inputTokens + t.outputTokens + estimatedInputTokens;
+      if (limits.maxTokens !== undefined && tokens > limits.maxTokens) return "maxTokens";
+      return undefined;
+    },
+
+    recordSearch(provider) {
+      const s = stage("search");
+      s.calls++;
+      s.costUsd += RESEARCH_CONFIG.usage.pricing.search[provider] ?? 0;
+    },
+
+    recordLlm(task, usage, estimated) {
+      const s = stage(task);
+      s.calls++;
+      s.inputTokens += usage.inputTokens;
+      s.outputTokens += usage.outputTokens;
+      s.costUsd += llmCost(usage.model, usage.inputTokens, usage.outputTokens);
+      if (estimated) s.estimated = true;
+    },
+
+    skip(id, limit) {
+      stage(id).skipped++;
+      if (limitHit) return;
+      limitHit = { limit, stage: id, elapsedMs: now() - startedAt };
+      opts.onLimit?.(limitHit);
+    },
+
+    summary() {
+      const rounded = Object.fromEntries(
+        Object.entries(stages).map(([id, s]) => [id, { ...s, costUsd: round6(s.costUsd) }])
+      ) as UsageSummary["stages"];
+      return {
+        stages: rounded,
+        totals: totals(),
+        limits,
+        ...(limitHit ? { limitHit } : {}),
+        elapsedMs: now() - startedAt,
+      };
+    },
+  };
+}
+
+/**
+ * Counts every search call of the provider; once a limit is reached the
+ * provider throws a UsageLimitError instead of calling out.
+ */
+export function meterSearchProvider(provider: SearchProvider, meter: UsageMeter): SearchProvider {
+  return {
+    ...provider,
+    async search(query, options) {
+      const limit = meter.exceeded("search");
+      if (limit) {
+        meter.skip("search", limit);
+        throw usageLimitError(limit);
+      }
+      meter.recordSearch(provider.id);
+      return provider.search(query, options);
+    },
+  };
+}
+
+/**
+ * Records the tokens of every call (estimated when the backend reports none);
+ * once a limit is reached calls return "" without reaching the model, which
+ * every caller already treats as "no answer".
+ */
+export function meterLlmClient(llm: LlmClient, meter: UsageMeter): LlmClient {
+  return {
+    ...llm,
+    async complete(req) {
+      const limit = meter.exceeded(req.task, estimateTokens(req.input));
+      if (limit) {
+        meter.skip(req.task, limit);
+        return "";
+      }
+
+      let reported = false;
+      const out = await llm.complete({
+        ...req,
+        onUsage: (usage) => {
+          reported = true;
+          meter.recordLlm(req.task, usage);
+          req.onUsage?.(usage);
+        },
+      });
+      if (!reported) {
+        const usage = {
+          model: llm.modelFor?.(req.task) ?? llm.backend,
+          inputTokens: estimateTokens(req.input),
+          outputTokens: estimateTokens(out),
+        };
+        meter.recordLlm(req.task, usage, true);
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * Adds the usage-limit note to the report uncertainties when searches were
+ * skipped (replacing the "no significant uncertainties" placeholder).
+ */
+export function withUsageLimitNote<T extends ReportContent>(
+  report: T,
+  skippedSearches: number,
+  lang: OutputLanguage
+): T {
+  if (!skippedSearches) return report;
+  const note = messages(lang).usageLimited(skippedSearches);
+  const kept = report.recommendation.uncertainties.filter((u) => u !== NO_SIGNIFICANT_UNCERTAINTIES[lang]);
+  if (kept.includes(note)) return report;
+  return { ...report, recommendation: { ...report.recommendation, uncertainties: [...kept, note] } };
+}
+
+function round6(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
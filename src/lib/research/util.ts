@@ -0,0 +1,82 @@
+// src/lib/research/util.ts
+
+/**
+ * Lower-cased hostname without a leading "www."; "" for an invalid URL.
+ */
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+// Second-level suffixes under which the registrable domain has three labels.
+const TWO_LEVEL_SUFFIXES = new Set([
+  "co.uk",
+  "ac.uk",
+  "gov.uk",
+  "org.uk",
+  "com.au",
+  "net.au",
+  "org.au",
+  "gov.au",
+  "co.nz",
+  "co.jp",
+  "com.br",
+  "co.za",
+  "com.cn",
+  "co.in",
+  "com.mx",
+]);
+
+/**
+ * The part of a host name an organisation registers: example.com for
+ * docs.example.com, bbc.co.uk for news.bbc.co.uk.
+ */
+export function registrableDomain(host: string): string {
+  const labels = host.split(".");
+  const take = labels.length > 2 && TWO_LEVEL_SUFFIXES.has(labels.slice(-2).join(".")) ? 3 : 2;
+  return labels.slice(-take).join(".");
+}
+
+export function normalizeQuery(q: string): string {
+  return (q || "").replace(/\s+/g, " ").replace(/\u0000/g, "").trim();
+}
+
+// Queries that differ only in case or whitespace are the same query.
+export function queryKey(q: string): string {
+  return normalizeQuery(q).toLowerCase();
+}
+
+const KEYWORD_STOPWORDS = new Set([
+  "the","and","for","with","from","that","this","are","was","were","you","your","their",
+  "about","into","over","under","more","less","than","then","also","how","what","why",
+  "when","where","which","who","whom","can","could","should","would","may","might",
+  "evidence","analysis","research","study","studies","report","reports"
+]);
+
+/**
+ * The `max` most frequent words of 4+ letters, ties broken alphabetically.
+ */
+export function extractKeywordsDeterministic(text: string, max: number): string[] {
+  const cleaned = (text || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!cleaned) return [];
+
+  const freq = new Map<string, number>();
+  for (const token of cleaned.split(" ")) {
+    if (token.length < 4) continue;
+    if (KEYWORD_STOPWORDS.has(token)) continue;
+    freq.set(token, (freq.get(token) ?? 0) + 1);
+  }
+
+  return Array.from(freq.entries())
+    .sort((a, b) => (b[1] - a[1]) || a[0].localeCompare(b[0]))
+    .slice(0, max)
+    .map(([t]) => t);
+}
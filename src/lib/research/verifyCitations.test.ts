@@ -0,0 +1,80 @@
+// src/lib/research/verifyCitations.test.ts
+import { describe, it, expect } from "vitest";
+import type { Report } from "@/lib/research/report.Schema";
+import { parseCitations, splitSentences, verifyReportCitations } from "@/lib/research/verifyCitations";
+
+const sources = [
+  {
+    sourceNumber: 1,
+    snippet: "Vendor A pricing starts at 12 euro per seat per month.",
+    content: "Vendor A offers seat-based pricing starting at 12 euro per month, with SSO in the enterprise tier.",
+  },
+  {
+    sourceNumber: 2,
+    snippet: "Vendor B outage report",
+    content: "Vendor B had two regional outages in 2024 affecting European customers.",
+  },
+];
+
+function mkReport(overrides: Partial<Report> = {}): Report {
+  return {
+    summaryBullets: ["a", "b", "c", "d", "e"],
+    summaryText: "Vendor A pricing starts at 12 euro per seat [1].",
+    recommendation: {
+      choice: "Choose vendor A",
+      why: ["Vendor B had regional outages affecting European customers [2].", "It is cheap [7]."],
+      conditions: [],
+      uncertainties: ["None"],
+    },
+    research: [
+      {
+        title: "Pricing",
+        intro: "Intro text.",
+        content:
+          "Vendor A pricing starts at 30 euro per seat [1]. Vendor B guarantees quantum encryption everywhere [2]. Uncited sentence.",
+        conclusion: "Conclusion.",
+      },
+    ],
+    sources: [],
+    ...overrides,
+  };
+}
+
+describe("parseCitations / splitSentences", () => {
+  it("parses lists and ranges and keeps trailing citations with their sentence", () => {
+    expect(parseCitations("x [1, 3] y [4-6] z [2]")).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(splitSentences("Growth was 3.5% last year. [1] Costs fell [2].")).toEqual([
+      "Growth was 3.5% last year. [1]",
+      "Costs fell [2].",
+    ]);
+  });
+});
+
+describe("verifyReportCitations", () => {
+  it("flags each cited claim as supported, weak or unsupported", () => {
+    const { verification } = verifyReportCitations(mkReport(), sources);
+    const byLocation = (loc: string) => verification.claims.filter((c) => c.location === loc);
+
+    expect(byLocation("summaryText")[0].status).toBe("supported");
+    expect(byLocation("recommendation.why[0]")[0]).toMatchObject({ status: "supported", bestSource: 2 });
+
+    const [wrongNumber, invented] = byLocation("research[0].content");
+    // right terms, wrong figure -> weak, with the figure reported
+    expect(wrongNumber).toMatchObject({ status: "weak", missingNumbers: ["30"] });
+    expect(invented.status).toBe("unsupported");
+
+    // uncited sentences are not claims
+    expect(verification.claims.some((c) => c.sentence.includes("Uncited"))).toBe(false);
+  });
+
+  it("rejects citation numbers outside the canonical sources list", () => {
+    const { report, verification } = verifyReportCitations(mkReport(), sources);
+
+    const invalid = verification.claims.find((c) => c.location === "recommendation.why[1]")!;
+    expect(invalid).toMatchObject({ invalidCitations: [7], status: "unsupported" });
+    expect(verification.counts.invalidCitations).toBe(1);
+
+    expect(report.recommendation.why[1]).toBe("It is cheap.");
+    expect(report.summaryText).toBe("Vendor A pricing starts at 12 euro per seat [1].");
+  });
+});
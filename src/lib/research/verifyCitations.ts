@@ -0,0 +1,175 @@
+// src/lib/research/verifyCitations.ts
+import type { Report } from "@/lib/research/report.Schema";
+
+export type ClaimStatus = "supported" | "weak" | "unsupported";
+
+export type ClaimCheck = {
+  // e.g. "summaryText", "recommendation.why[2]", "research[0].content"
+  location: string;
+  sentence: string;
+  citations: number[];
+  invalidCitations: number[];
+  status: ClaimStatus;
+  // 0..1 share of the claim's key terms found in the best cited source
+  support: number;
+  bestSource?: number;
+  missingNumbers: string[];
+};
+
+export type CitationVerification = {
+  claims: ClaimCheck[];
+  counts: Record<ClaimStatus, number> & { invalidCitations: number };
+};
+
+export type VerifiableSource = {
+  sourceNumber: number;
+  snippet?: string;
+  content?: string;
+  rawContent?: string;
+};
+
+const SUPPORTED_AT = 0.6;
+const WEAK_AT = 0.3;
+
+const CITATION_RE = /\[(\d+(?:\s*[,;–-]\s*\d+)*)\]/g;
+
+const STOP = new Set([
+  "that", "this", "with", "from", "have", "been", "were", "will", "which", "their", "there",
+  "these", "those", "than", "then", "also", "into", "over", "more", "most", "such", "when",
+  "where", "while", "about", "should", "would", "could", "other", "some", "only", "very",
+  "dat", "deze", "voor", "zijn", "wordt", "worden", "door", "naar", "maar", "niet", "meer",
+  "zoals", "heeft", "hebben", "omdat", "kunnen", "waar", "welke",
+]);
+
+/**
+ * Checks every cited sentence in the summary, recommendation.why and research
+ * sections against the text of the sources it cites. Citation numbers that are
+ * not in the canonical list are removed from the returned report and flagged.
+ * Support is lexical (shared key terms + exact numbers), so a report written in
+ * another language than its sources mostly scores as weak.
+ */
+export function verifyReportCitations(
+  report: Report,
+  sources: VerifiableSource[]
+): { report: Report; verification: CitationVerification } {
+  const byNumber = new Map(sources.map((s) => [s.sourceNumber, sourceText(s)]));
+  const claims: ClaimCheck[] = [];
+
+  const check = (location: string, text: string): string => {
+    for (const sentence of splitSentences(text)) {
+      const cited = parseCitations(sentence);
+      if (!cited.length) continue;
+      claims.push(checkClaim(location, sentence, cited, byNumber));
+    }
+    return stripInvalidCitations(text, byNumber);
+  };
+
+  const verified: Report = {
+    ...report,
+    summaryText: check("summaryText", report.summaryText),
+    recommendation: {
+      ...report.recommendation,
+      why: report.recommendation.why.map((w, i) => check(`recommendation.why[${i}]`, w)),
+    },
+    research: report.research.map((sec, i) => ({ ...sec, content: check(`research[${i}].content`, sec.content) })),
+  };
+
+  const counts = { supported: 0, weak: 0, unsupported: 0, invalidCitations: 0 };
+  for (const c of claims) {
+    counts[c.status]++;
+    counts.invalidCitations += c.invalidCitations.length;
+  }
+
+  return { report: verified, verification: { claims, counts } };
+}
+
+export function parseCitations(text: string): number[] {
+  const out = new Set<number>();
+  for (const m of text.matchAll(CITATION_RE)) {
+    for (const part of m[1].split(/\s*[,;]\s*/)) {
+      const range = part.split(/\s*[–-]\s*/).map(Number);
+      if (range.length === 2 && range[0] <= range[1] && range[1] - range[0] <= 20) {
+        for (let n = range[0]; n <= range[1]; n++) out.add(n);
+      } else {
+        for (const n of range) if (Number.isInteger(n) && n > 0) out.add(n);
+      }
+    }
+  }
+  return Array.from(out).sort((a, b) => a - b);
+}
+
+/**
+ * Sentences keep their trailing citation groups ("... grew 5%. [2]").
+ * Decimal points ("3.5") do not end a sentence.
+ */
+export function splitSentences(text: string): string[] {
+  const matches = (text || "").match(/(?:[^.!?\n]|\.(?=\d))+[.!?]*(?:\s*\[\d+(?:\s*[,;–-]\s*\d+)*\])*/g) ?? [];
+  return matches.map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
+function checkClaim(
+  location: string,
+  sentence: string,
+  cited: number[],
+  byNumber: Map<number, string>
+): ClaimCheck {
+  const claim = sentence.replace(CITATION_RE, " ");
+  const terms = keyTerms(claim);
+  const numbers = Array.from(new Set(claim.match(/\d+(?:[.,]\d+)?%?/g) ?? []));
+
+  const valid = cited.filter((n) => byNumber.has(n));
+  const invalid = cited.filter((n) => !byNumber.has(n));
+
+  let best: { n: number; support: number; missing: string[] } | null = null;
+  for (const n of valid) {
+    const text = byNumber.get(n) as string;
+    const found = terms.filter((t) => text.includes(t)).length;
+    const support = terms.length ? found / terms.length : 0;
+    const missing = numbers.filter((num) => !text.includes(num.toLowerCase()));
+    if (!best || support > best.support || (support === best.support && missing.length < best.missing.length)) {
+      best = { n, support, missing };
+    }
+  }
+
+  let status: ClaimStatus = "unsupported";
+  if (best) {
+    if (best.support >= SUPPORTED_AT && best.missing.length === 0) status = "supported";
+    else if (best.support >= WEAK_AT) status = "weak";
+  }
+
+  return {
+    location,
+    sentence,
+    citations: cited,
+    invalidCitations: invalid,
+    status,
+    support: best ? Math.round(best.support * 100) / 100 : 0,
+    ...(best ? { bestSource: best.n } : {}),
+    missingNumbers: best?.missing ?? [],
+  };
+}
+
+function stripInvalidCitations(text: string, byNumber: Map<number, string>): string {
+  let changed = false;
+  const out = text.replace(CITATION_RE, (group) => {
+    const cited = parseCitations(group);
+    const keep = cited.filter((n) => byNumber.has(n));
+    if (keep.length === cited.length) return group;
+    changed = true;
+    return keep.length ? `[${keep.join(", ")}]` : "";
+  });
+
+  return changed ? out.replace(/ +([.,;:!?])/g, "$1").replace(/ {2,}/g, " ") : out;
+}
+
+function sourceText(s: VerifiableSource): string {
+  return `${s.snippet ?? ""}\n${s.content ?? ""}\n${s.rawContent ?? ""}`.toLowerCase();
+}
+
+function keyTerms(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}%]+/u)
+    .filter((w) => w.length >= 4 && !STOP.has(w) && !/^\d/.test(w));
+  return Array.from(new Set(words));
+}
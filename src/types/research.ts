@@ -1,6 +1,15 @@
 // src/types/research.ts
 
-export type { ResearchInput, RiskTolerance, TimeHorizon } from "@/lib/research/schema";
+export type {
+  OutputFormat,
+  OutputLanguage,
+  ResearchConstraints,
+  ResearchInput,
+  RiskTolerance,
+  SourceType,
+  TimeHorizon,
+  UsageLimits,
+} from "@/lib/research/schema";
 
 /**
  * Buckets die je research agent gebruikt om subvragen te groeperen.
@@ -12,6 +21,11 @@ export type ResearchBucket =
   | "EvidenceBenchmarks"
   | "RisksEdgeCases";
 
+/**
+ * Zoekproviders die een Source kunnen opleveren (zie lib/research/providers).
+ */
+export type SearchProviderId = "tavily" | "searxng" | "brave" | "local";
+
 export type Source = {
   url: string;
   title: string;
@@ -19,7 +33,10 @@ export type Source = {
   content: string;
   rawContent?: string;
   publishedDate?: string;
-  provider: "tavily" | "unknown";
+  provider: SearchProviderId | "unknown";
+  bucket?: ResearchBucket;
+  // andere URL's van dezelfde bron (http/https, AMP, mobiel, gesyndiceerde kopieën); zie dedupe.ts
+  alternateUrls?: string[];
 
   score?: number;
   scoreBreakdown?: Record<string, number>;
@@ -34,6 +51,21 @@ export type GateMetrics = {
   topSourceScore: number;
   top3AvgScore: number;
   lowInfoRatio: number;
+
+  // domeinbeleid: aandeel bronnen van afgewaardeerde (penalize) domeinen
+  lowTrustRatio: number;
+
+  // recency: bronnen gepubliceerd binnen het recente venster van de tijdshorizon
+  recentSources: number;
+
+  // corroboratie: claims die door minstens twee onafhankelijke organisaties worden gedragen
+  corroboratedClaims: number;
+
+  // tegenstrijdige claims tussen bronnen zonder duidelijke meerderheid (verlaagt de confidence)
+  unresolvedConflicts: number;
+
+  // aandeel zoekqueries dat resultaat gaf (mislukte queries verlagen de dekking)
+  searchCoverage: number;
 };
 
 export type ResearchResult = {